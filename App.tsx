@@ -10,7 +10,11 @@ import { SavedNotes } from './components/SavedNotes';
 import { Profile } from './components/Profile';
 import { QuickRevision } from './components/QuickRevision';
 import { ExamMode } from './components/ExamMode';
+import { DailyReview } from './components/DailyReview';
+import { MistakeNotebook } from './components/MistakeNotebook';
+import { QuestionBank } from './components/QuestionBank';
 import { supabase } from './services/supabase';
+import { clearLocalExamDraft } from './services/storageService';
 
 const App = () => {
   const [view, setView] = useState<AppView>(AppView.LANDING);
@@ -68,6 +72,7 @@ const App = () => {
 
   const handleLogout = async () => {
     await supabase.auth.signOut();
+    clearLocalExamDraft();
     setView(AppView.LANDING);
     setCurrentSession(null);
   };
@@ -160,7 +165,25 @@ const App = () => {
 
       {view === AppView.EXAM_MODE && (
         <div className="animate-in fade-in duration-300">
-           <ExamMode language={language} />
+           <ExamMode language={language} userId={session?.user?.id} />
+        </div>
+      )}
+
+      {view === AppView.REVIEW && (
+        <div className="animate-in fade-in duration-300">
+           <DailyReview />
+        </div>
+      )}
+
+      {view === AppView.MISTAKES && (
+        <div className="animate-in fade-in duration-300">
+           <MistakeNotebook isDark={isDarkMode} />
+        </div>
+      )}
+
+      {view === AppView.QUESTION_BANK && (
+        <div className="animate-in fade-in duration-300">
+           <QuestionBank />
         </div>
       )}
     </Layout>
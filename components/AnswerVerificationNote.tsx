@@ -0,0 +1,41 @@
+import React from 'react';
+import { AnswerVerification } from '../types';
+import { isLowConfidence } from '../services/questionSchema';
+import { AlertTriangle, Quote } from 'lucide-react';
+
+// Shown next to the question. It only says the key is doubtful, so it can appear before the answers are revealed.
+export const VerificationBadge: React.FC<{ verification?: AnswerVerification }> = ({ verification }) => {
+  if (!isLowConfidence(verification)) return null;
+  return (
+    <span
+      className="flex items-center gap-1 text-[10px] font-bold uppercase tracking-wide px-2 py-0.5 rounded bg-amber-50 dark:bg-amber-900/20 text-amber-700 dark:text-amber-400"
+      title="Your notes don't clearly back up this answer"
+    >
+      <AlertTriangle size={12} /> Answer may be wrong
+    </span>
+  );
+};
+
+// Shown with the answer: the passage that backs it, or what the check found wrong
+export const SourceExcerpt: React.FC<{ verification?: AnswerVerification }> = ({ verification }) => {
+  if (!verification) return null;
+  const doubtful = isLowConfidence(verification);
+  if (!verification.excerpt && !(doubtful && verification.note)) return null;
+
+  return (
+    <div className="mt-2 space-y-1 text-sm">
+      {doubtful && verification.note && (
+        <p className="flex gap-2 text-amber-700 dark:text-amber-400">
+          <AlertTriangle size={14} className="flex-shrink-0 mt-0.5" />
+          {verification.note}
+        </p>
+      )}
+      {verification.excerpt && (
+        <p className="flex gap-2 text-gray-600 dark:text-slate-400">
+          <Quote size={14} className="flex-shrink-0 mt-0.5" />
+          <span><span className="font-bold">From your notes:</span> <span className="italic">“{verification.excerpt}”</span></span>
+        </p>
+      )}
+    </div>
+  );
+};
@@ -1,10 +1,10 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { ChatMessage, StudyFile } from '../types';
-import { createChatSession, sendChatMessage } from '../services/geminiService';
+import { createChatSession, sendChatMessage, isAbortError } from '../services/geminiService';
 import { logActivity } from '../services/storageService';
-import { Chat } from '@google/genai';
+import { AIChatSession } from '../services/aiProvider';
 import { Button } from './Button';
-import { Send, User, Sparkles, Paperclip, X, Image as ImageIcon, ExternalLink, Globe } from 'lucide-react';
+import { Send, User, Sparkles, Paperclip, X, Image as ImageIcon, ExternalLink, Globe, Square } from 'lucide-react';
 import { MarkdownRenderer } from './MarkdownRenderer';
 import { v4 as uuidv4 } from 'uuid';
 
@@ -16,11 +16,12 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ language }) => {
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
-  const [chatSession, setChatSession] = useState<Chat | null>(null);
+  const [chatSession, setChatSession] = useState<AIChatSession | null>(null);
   const [attachedImages, setAttachedImages] = useState<StudyFile[]>([]);
   
   const scrollRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
 
   useEffect(() => {
     // Initialize chat session on mount
@@ -34,6 +35,9 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ language }) => {
       text: "Hello. I am Learnivia. \n\nI can help you break down complex topics, analyze images, or search the web for the latest study resources. What shall we focus on today?",
       timestamp: Date.now()
     }]);
+
+    // Drop any reply still streaming into the old session
+    return () => abortRef.current?.abort();
   }, [language]); // Re-create session if language changes
 
   useEffect(() => {
@@ -72,7 +76,7 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ language }) => {
   };
 
   const handleSend = async () => {
-    if ((!input.trim() && attachedImages.length === 0) || !chatSession) return;
+    if ((!input.trim() && attachedImages.length === 0) || !chatSession || isLoading) return;
     
     // Create User Message
     const userMsg: ChatMessage = {
@@ -93,32 +97,42 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ language }) => {
     // Log Activity
     logActivity('chat', userMsg.text);
 
+    // Streamed reply is written into this message as chunks arrive
+    const replyId = uuidv4();
+    const upsertReply = (patch: Partial<ChatMessage>) => {
+      setMessages(prev => prev.some(m => m.id === replyId)
+        ? prev.map(m => m.id === replyId ? { ...m, ...patch } : m)
+        : [...prev, { id: replyId, role: 'model', text: '', timestamp: Date.now(), ...patch }]);
+    };
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+
     try {
-      const { text, sources } = await sendChatMessage(chatSession, userMsg.text, imagesToSend);
+      const { text, sources } = await sendChatMessage(chatSession, userMsg.text, imagesToSend, {
+        onProgress: (partial) => upsertReply({ text: partial }),
+        signal: controller.signal
+      });
       
-      const aiMsg: ChatMessage = {
-        id: uuidv4(),
-        role: 'model',
-        text: text,
-        timestamp: Date.now(),
-        sources: sources
-      };
-      
-      setMessages(prev => [...prev, aiMsg]);
-    } catch (e) {
+      upsertReply({ text, sources });
+    } catch (e: any) {
+      // Stopped by the user: whatever streamed in stays as the reply
+      if (isAbortError(e)) return;
       console.error(e);
-      const errorMsg: ChatMessage = {
-        id: uuidv4(),
-        role: 'model',
-        text: "I am experiencing a connection issue. Please verify your network and try again.",
-        timestamp: Date.now()
-      };
-      setMessages(prev => [...prev, errorMsg]);
+      const errorText = "I am experiencing a connection issue. Please verify your network and try again.";
+      upsertReply({ text: e.partialText ? `${e.partialText}\n\n*(Response interrupted. ${errorText})*` : errorText });
     } finally {
-      setIsLoading(false);
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setIsLoading(false);
+      }
     }
   };
 
+  const handleStop = () => {
+    abortRef.current?.abort();
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -217,7 +231,7 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ language }) => {
         ))}
         
         {/* Loading State */}
-        {isLoading && (
+        {isLoading && messages[messages.length - 1]?.role === 'user' && (
           <div className="flex gap-4">
              <div className="w-8 h-8 bg-gradient-to-br from-indigo-600 to-purple-600 rounded-full flex items-center justify-center text-white border border-transparent shadow-lg shadow-indigo-500/20">
                <Sparkles size={14} />
@@ -285,13 +299,23 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({ language }) => {
             rows={1}
             style={{ minHeight: '56px', maxHeight: '120px' }}
           />
-          <button 
-            onClick={handleSend} 
-            disabled={(!input.trim() && attachedImages.length === 0) || isLoading}
-            className="absolute right-2 top-2 bottom-2 aspect-square rounded-xl flex items-center justify-center bg-gradient-to-r from-indigo-600 to-purple-600 text-white shadow-lg shadow-indigo-900/50 hover:shadow-indigo-600/50 hover:scale-105 active:scale-95 disabled:opacity-50 disabled:hover:scale-100 transition-all duration-200"
-          >
-            <Send size={20} />
-          </button>
+          {isLoading ? (
+            <button 
+              onClick={handleStop}
+              className="absolute right-2 top-2 bottom-2 aspect-square rounded-xl flex items-center justify-center bg-red-500/90 text-white shadow-lg shadow-red-900/40 hover:bg-red-500 active:scale-95 transition-all duration-200"
+              title="Stop generating"
+            >
+              <Square size={18} fill="currentColor" />
+            </button>
+          ) : (
+            <button 
+              onClick={handleSend} 
+              disabled={!input.trim() && attachedImages.length === 0}
+              className="absolute right-2 top-2 bottom-2 aspect-square rounded-xl flex items-center justify-center bg-gradient-to-r from-indigo-600 to-purple-600 text-white shadow-lg shadow-indigo-900/50 hover:shadow-indigo-600/50 hover:scale-105 active:scale-95 disabled:opacity-50 disabled:hover:scale-100 transition-all duration-200"
+            >
+              <Send size={20} />
+            </button>
+          )}
         </div>
         <div className="text-center mt-3 flex items-center justify-center gap-2">
           <p className="text-[10px] uppercase tracking-widest text-slate-600 font-semibold">AI Assistant</p>
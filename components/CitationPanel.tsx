@@ -0,0 +1,89 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Citation, StudyFile } from '../types';
+import { citationLabel, locateQuote } from '../services/citationService';
+import { Quote, X, AlertCircle } from 'lucide-react';
+
+interface CitationPanelProps {
+  citation: Citation;
+  files?: StudyFile[];
+  notes: string;
+  onClose: () => void;
+}
+
+// Characters of the notes shown either side of the cited passage
+const CONTEXT_CHARS = 300;
+
+// Attachments are kept as base64; PDFs open in the browser's viewer at the cited page
+const usePdfUrl = (file?: StudyFile) => {
+  const [url, setUrl] = useState<string | null>(null);
+  useEffect(() => {
+    if (!file || file.mimeType !== 'application/pdf') return;
+    const bytes = Uint8Array.from(atob(file.data), c => c.charCodeAt(0));
+    const objectUrl = URL.createObjectURL(new Blob([bytes], { type: 'application/pdf' }));
+    setUrl(objectUrl);
+    return () => {
+      URL.revokeObjectURL(objectUrl);
+      setUrl(null);
+    };
+  }, [file]);
+  return url;
+};
+
+const NotesExcerpt: React.FC<{ notes: string; quote: string }> = ({ notes, quote }) => {
+  const span = useMemo(() => locateQuote(notes, quote), [notes, quote]);
+  if (!span) {
+    return (
+      <p className="flex gap-2 text-xs text-amber-700 dark:text-amber-400">
+        <AlertCircle size={14} className="flex-shrink-0" /> This exact passage couldn't be found in your notes.
+      </p>
+    );
+  }
+  const from = Math.max(0, span.start - CONTEXT_CHARS);
+  const to = Math.min(notes.length, span.end + CONTEXT_CHARS);
+  return (
+    <p className="text-sm text-slate-700 dark:text-slate-300 whitespace-pre-wrap leading-relaxed max-h-72 overflow-y-auto">
+      {from > 0 && '…'}{notes.slice(from, span.start)}
+      <mark className="bg-amber-200 dark:bg-amber-500/40 text-inherit rounded px-0.5">{notes.slice(span.start, span.end)}</mark>
+      {notes.slice(span.end, to)}{to < notes.length && '…'}
+    </p>
+  );
+};
+
+// The passage a citation marker points to, shown in the Sources panel
+export const CitationPanel: React.FC<CitationPanelProps> = ({ citation, files = [], notes, onClose }) => {
+  const file = citation.source === 'notes' ? undefined : files[citation.source];
+  const pdfUrl = usePdfUrl(file);
+  const missing = citation.source === 'notes' ? !notes : !file;
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-xl border border-indigo-200 dark:border-indigo-800 shadow-sm p-3 space-y-3">
+      <div className="flex justify-between items-start gap-2">
+        <p className="text-xs font-bold text-indigo-600 dark:text-indigo-400 uppercase tracking-wider">{citationLabel(citation, files)}</p>
+        <button onClick={onClose} className="text-gray-400 hover:text-slate-700 dark:hover:text-slate-200" title="Close">
+          <X size={14} />
+        </button>
+      </div>
+
+      <p className="flex gap-2 text-sm italic text-slate-600 dark:text-slate-400">
+        <Quote size={14} className="flex-shrink-0 mt-0.5" /> “{citation.quote}”
+      </p>
+
+      {missing ? (
+        <p className="flex gap-2 text-xs text-amber-700 dark:text-amber-400">
+          <AlertCircle size={14} className="flex-shrink-0" /> This source is no longer in the session.
+        </p>
+      ) : citation.source === 'notes' ? (
+        <NotesExcerpt notes={notes} quote={citation.quote} />
+      ) : pdfUrl ? (
+        <iframe
+          key={citation.page}
+          src={citation.page ? `${pdfUrl}#page=${citation.page}` : pdfUrl}
+          title={file!.name}
+          className="w-full h-96 rounded-lg border border-gray-200 dark:border-slate-700 bg-white"
+        />
+      ) : file!.mimeType.startsWith('image/') ? (
+        <img src={`data:${file!.mimeType};base64,${file!.data}`} alt={file!.name} className="w-full rounded-lg border border-gray-200 dark:border-slate-700" />
+      ) : null}
+    </div>
+  );
+};
@@ -0,0 +1,218 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { ReviewGrade } from '../types';
+import { getSessions, getCardSchedules, saveCardSchedule, logActivity } from '../services/storageService';
+import { buildReviewQueue, scheduleReview, formatInterval, ReviewItem } from '../services/srsService';
+import { Button } from './Button';
+import { Repeat, Loader2, CheckCircle, BookOpen, Eye, Layers } from 'lucide-react';
+
+const GRADES: { grade: ReviewGrade; label: string; style: string }[] = [
+  { grade: 'again', label: 'Again', style: 'border-red-200 dark:border-red-900/50 text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20' },
+  { grade: 'hard', label: 'Hard', style: 'border-amber-200 dark:border-amber-900/50 text-amber-600 dark:text-amber-400 hover:bg-amber-50 dark:hover:bg-amber-900/20' },
+  { grade: 'good', label: 'Good', style: 'border-emerald-200 dark:border-emerald-900/50 text-emerald-600 dark:text-emerald-400 hover:bg-emerald-50 dark:hover:bg-emerald-900/20' },
+  { grade: 'easy', label: 'Easy', style: 'border-indigo-200 dark:border-indigo-900/50 text-indigo-600 dark:text-indigo-400 hover:bg-indigo-50 dark:hover:bg-indigo-900/20' }
+];
+
+export const DailyReview: React.FC = () => {
+  const [queue, setQueue] = useState<ReviewItem[]>([]);
+  const [initializing, setInitializing] = useState(true);
+  const [started, setStarted] = useState(false);
+  const [showAnswer, setShowAnswer] = useState(false);
+  const [reviewedCount, setReviewedCount] = useState(0);
+  const [recalledCount, setRecalledCount] = useState(0);
+
+  // Reviews are logged once per sitting: when the queue runs out, or when leaving the view
+  const pendingLogRef = useRef({ cards: 0, topics: new Set<string>() });
+
+  const flushLog = () => {
+    const { cards, topics } = pendingLogRef.current;
+    if (cards === 0) return;
+    logActivity('review', Array.from(topics).join(' '), { cards_reviewed: cards });
+    pendingLogRef.current = { cards: 0, topics: new Set() };
+  };
+
+  useEffect(() => {
+    loadQueue();
+    return flushLog;
+  }, []);
+
+  const loadQueue = async () => {
+    setInitializing(true);
+    const [sessions, schedules] = await Promise.all([getSessions(), getCardSchedules()]);
+    setQueue(buildReviewQueue(sessions, schedules));
+    setInitializing(false);
+  };
+
+  const current = queue[0];
+
+  // Cards marked "again" go to the back of today's queue until they're recalled
+  const handleGrade = (grade: ReviewGrade) => {
+    if (!current || !showAnswer) return;
+    const schedule = scheduleReview(current.schedule, grade);
+    saveCardSchedule(schedule);
+
+    const rest = queue.slice(1);
+    const next = grade === 'again' ? [...rest, { ...current, schedule, isNew: false }] : rest;
+    setQueue(next);
+    setShowAnswer(false);
+    setReviewedCount(c => c + 1);
+    if (grade !== 'again') setRecalledCount(c => c + 1);
+
+    pendingLogRef.current.cards++;
+    pendingLogRef.current.topics.add(current.sessionTitle);
+    if (next.length === 0) flushLog();
+  };
+
+  // Keyboard: space to reveal, 1-4 to grade
+  useEffect(() => {
+    if (!started) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (['INPUT', 'TEXTAREA', 'SELECT', 'BUTTON'].includes(target.tagName)) return;
+      if (e.key === ' ' && !showAnswer) setShowAnswer(true);
+      else if (['1', '2', '3', '4'].includes(e.key)) handleGrade(GRADES[Number(e.key) - 1].grade);
+      else return;
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
+  if (initializing) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <Loader2 className="animate-spin text-indigo-500" size={32} />
+      </div>
+    );
+  }
+
+  const header = (
+    <div className="mb-8 text-center">
+      <div className="inline-flex items-center justify-center p-3 bg-indigo-100 dark:bg-indigo-900/30 text-indigo-600 dark:text-indigo-400 rounded-full mb-4">
+        <Repeat size={32} />
+      </div>
+      <h1 className="text-3xl font-bold text-slate-900 dark:text-white mb-2">Daily Review</h1>
+      <p className="text-gray-600 dark:text-slate-400 max-w-lg mx-auto">
+        Flashcards from all your sessions, scheduled so you review each one just before you'd forget it.
+      </p>
+    </div>
+  );
+
+  // Finished (or nothing due)
+  if (!current) {
+    return (
+      <div className="max-w-2xl mx-auto pb-12">
+        {header}
+        <div className="p-8 bg-white dark:bg-slate-800 rounded-2xl text-center border border-gray-200 dark:border-slate-700 shadow-sm">
+          <CheckCircle className="text-green-500 mx-auto mb-3" size={36} />
+          <h2 className="text-xl font-bold text-slate-900 dark:text-white mb-1">
+            {reviewedCount > 0 ? 'Review complete!' : 'All caught up'}
+          </h2>
+          <p className="text-gray-500 dark:text-slate-400">
+            {reviewedCount > 0
+              ? `You reviewed ${reviewedCount} card${reviewedCount === 1 ? '' : 's'} and recalled ${recalledCount}. Come back tomorrow for the next batch.`
+              : 'No cards are due. Generate flashcards in a study session to add them to your reviews.'}
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  // Overview of what's due, grouped by session
+  if (!started) {
+    const dueCount = queue.filter(i => !i.isNew).length;
+    const newCount = queue.length - dueCount;
+    const bySession = Object.values(queue.reduce((acc, item) => {
+      const entry = acc[item.sessionId] || (acc[item.sessionId] = { title: item.sessionTitle, count: 0 });
+      entry.count++;
+      return acc;
+    }, {} as Record<string, { title: string; count: number }>));
+
+    return (
+      <div className="max-w-2xl mx-auto pb-12">
+        {header}
+        <div className="bg-white dark:bg-slate-800 rounded-2xl border border-gray-200 dark:border-slate-700 p-6 shadow-sm">
+          <div className="grid grid-cols-2 gap-4 mb-6">
+            <div className="p-4 bg-indigo-50 dark:bg-indigo-900/20 rounded-xl text-center">
+              <p className="text-3xl font-bold text-indigo-600 dark:text-indigo-400">{dueCount}</p>
+              <p className="text-xs font-bold uppercase tracking-wider text-gray-500 dark:text-slate-400">Due</p>
+            </div>
+            <div className="p-4 bg-emerald-50 dark:bg-emerald-900/20 rounded-xl text-center">
+              <p className="text-3xl font-bold text-emerald-600 dark:text-emerald-400">{newCount}</p>
+              <p className="text-xs font-bold uppercase tracking-wider text-gray-500 dark:text-slate-400">New</p>
+            </div>
+          </div>
+
+          <ul className="divide-y divide-gray-100 dark:divide-slate-700 mb-6">
+            {bySession.map(({ title, count }) => (
+              <li key={title} className="flex justify-between items-center py-2.5 text-sm">
+                <span className="flex items-center gap-2 text-slate-700 dark:text-slate-300 truncate">
+                  <Layers size={14} className="text-gray-400 flex-shrink-0" /> {title}
+                </span>
+                <span className="font-semibold text-gray-500 dark:text-slate-400">{count}</span>
+              </li>
+            ))}
+          </ul>
+
+          <Button onClick={() => setStarted(true)} className="w-full py-3" icon={<Repeat size={18} />}>
+            Start Review
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  // Reviewing
+  return (
+    <div className="max-w-2xl mx-auto pb-12">
+      <div className="flex justify-between items-center mb-4 text-sm">
+        <span className="flex items-center gap-2 text-gray-500 dark:text-slate-400 truncate">
+          <BookOpen size={14} /> {current.sessionTitle}
+          {current.isNew && (
+            <span className="text-[10px] font-bold uppercase tracking-wide px-2 py-0.5 rounded bg-emerald-50 dark:bg-emerald-900/20 text-emerald-700 dark:text-emerald-300">New</span>
+          )}
+        </span>
+        <span className="font-semibold text-slate-700 dark:text-slate-300 whitespace-nowrap">{queue.length} left</span>
+      </div>
+
+      <div className="bg-white dark:bg-slate-800 rounded-2xl border border-gray-200 dark:border-slate-700 shadow-sm overflow-hidden">
+        <div className="p-8 min-h-[12rem] flex flex-col items-center justify-center text-center">
+          <p className="text-xl font-bold text-slate-900 dark:text-white">{current.card.front}</p>
+          {showAnswer && (
+            <div className="mt-6 pt-6 border-t border-gray-100 dark:border-slate-700 w-full animate-in fade-in">
+              <p className="text-base text-slate-700 dark:text-slate-300 leading-relaxed">{current.card.back}</p>
+              {current.card.source && (
+                <p className="mt-3 text-xs text-indigo-500 dark:text-indigo-300">{current.card.source}</p>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="p-4 bg-gray-50/50 dark:bg-slate-900/50 border-t border-gray-100 dark:border-slate-700">
+          {!showAnswer ? (
+            <Button onClick={() => setShowAnswer(true)} className="w-full" icon={<Eye size={16} />}>
+              Show Answer
+            </Button>
+          ) : (
+            <div className="grid grid-cols-4 gap-2">
+              {GRADES.map(({ grade, label, style }, i) => (
+                <button
+                  key={grade}
+                  onClick={() => handleGrade(grade)}
+                  className={`flex flex-col items-center py-2.5 rounded-xl border bg-white dark:bg-slate-800 text-sm font-semibold transition-all ${style}`}
+                  title={`${label} (${i + 1})`}
+                >
+                  {label}
+                  <span className="text-[10px] font-medium opacity-70">{formatInterval(scheduleReview(current.schedule, grade))}</span>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+
+      <p className="hidden sm:block text-center text-xs text-gray-400 dark:text-slate-500 mt-3">
+        Space to show the answer · 1-4 to grade
+      </p>
+    </div>
+  );
+};
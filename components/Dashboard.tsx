@@ -1,14 +1,17 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { StudyMode, StudySession, StudyFile, ChatMessage } from '../types';
-import { generateStudyContent, createChatSession, sendChatMessage } from '../services/geminiService';
+import { StudyMode, StudySession, StudyFile, ChatMessage, QuizConfig } from '../types';
+import { generateStudyContent, createChatSession, sendChatMessage, isAbortError } from '../services/geminiService';
 import { saveSession, logActivity } from '../services/storageService';
+import { collectQuiz } from '../services/bankService';
 import { Button } from './Button';
 import { MarkdownRenderer } from './MarkdownRenderer';
 import { QuizRunner } from './QuizRunner';
-import { FileText, HelpCircle, Layers, Upload, FileType, X, Plus, Wand2, Database, Clipboard, BookOpen, MessageSquare, Sparkles, Send, User, Sun, Moon, Crown, Settings, AlertTriangle, Globe, Youtube, LogIn } from 'lucide-react';
+import { FlashcardDeck } from './FlashcardDeck';
+import { QuizConfigPanel } from './QuizConfigPanel';
+import { FileText, HelpCircle, Layers, Upload, FileType, X, Plus, Wand2, Database, Clipboard, BookOpen, MessageSquare, Sparkles, Send, User, Sun, Moon, Crown, Settings, AlertTriangle, Globe, Youtube, LogIn, Square, SlidersHorizontal } from 'lucide-react';
 import { v4 as uuidv4 } from 'uuid';
-import { Chat } from '@google/genai';
-import { LANGUAGES } from '../constants';
+import { AIChatSession } from '../services/aiProvider';
+import { LANGUAGES, DEFAULT_QUIZ_CONFIG } from '../constants';
 
 interface DashboardProps {
   onSessionCreated: (session: StudySession) => void;
@@ -38,11 +41,14 @@ export const Dashboard: React.FC<DashboardProps> = ({ onSessionCreated, onViewPr
   const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
   const [chatInput, setChatInput] = useState('');
   const [isChatLoading, setIsChatLoading] = useState(false);
-  const chatSessionRef = useRef<Chat | null>(null);
+  const chatSessionRef = useRef<AIChatSession | null>(null);
   const chatScrollRef = useRef<HTMLDivElement>(null);
+  const chatAbortRef = useRef<AbortController | null>(null);
 
   // Generate State
   const [loadingMode, setLoadingMode] = useState<StudyMode | null>(null);
+  const [showQuizConfig, setShowQuizConfig] = useState(false);
+  const [quizConfig, setQuizConfig] = useState<QuizConfig>(DEFAULT_QUIZ_CONFIG);
   const [generatedResult, setGeneratedResult] = useState<{mode: StudyMode, content: string} | null>(null);
   // Cache for generated content to prevent re-generation and allow saving multiple parts
   const [resultsCache, setResultsCache] = useState<{
@@ -52,6 +58,8 @@ export const Dashboard: React.FC<DashboardProps> = ({ onSessionCreated, onViewPr
     [StudyMode.FLASHCARDS]?: string;
   }>({});
 
+  const generateAbortRef = useRef<AbortController | null>(null);
+
   // Modal State
   const [isSourceModalOpen, setIsSourceModalOpen] = useState(false);
   const [modalView, setModalView] = useState<'menu' | 'text'>('menu');
@@ -72,6 +80,14 @@ export const Dashboard: React.FC<DashboardProps> = ({ onSessionCreated, onViewPr
     }]);
   }, [language]); // Re-init chat if language changes
 
+  // Cancel in-flight AI requests when leaving the dashboard
+  useEffect(() => {
+    return () => {
+      generateAbortRef.current?.abort();
+      chatAbortRef.current?.abort();
+    };
+  }, []);
+
   useEffect(() => {
     if (chatScrollRef.current) {
       chatScrollRef.current.scrollTop = chatScrollRef.current.scrollHeight;
@@ -150,7 +166,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ onSessionCreated, onViewPr
   // --- HANDLERS: CHAT ---
 
   const handleSendMessage = async () => {
-    if (!chatInput.trim() || !chatSessionRef.current) return;
+    if (!chatInput.trim() || !chatSessionRef.current || isChatLoading) return;
     
     const userMsg: ChatMessage = {
       id: uuidv4(),
@@ -163,6 +179,17 @@ export const Dashboard: React.FC<DashboardProps> = ({ onSessionCreated, onViewPr
     setChatInput('');
     setIsChatLoading(true);
 
+    const controller = new AbortController();
+    chatAbortRef.current = controller;
+
+    // Streamed reply is written into this message as chunks arrive
+    const replyId = uuidv4();
+    const upsertReply = (patch: Partial<ChatMessage>) => {
+      setChatMessages(prev => prev.some(m => m.id === replyId)
+        ? prev.map(m => m.id === replyId ? { ...m, ...patch } : m)
+        : [...prev, { id: replyId, role: 'model', text: '', timestamp: Date.now(), ...patch }]);
+    };
+
     try {
       const filesToSend = files.length > 0 ? files : undefined;
       const textContext = text ? `\n\nContext Note: ${text}` : '';
@@ -171,50 +198,58 @@ export const Dashboard: React.FC<DashboardProps> = ({ onSessionCreated, onViewPr
       const { text: responseText, sources } = await sendChatMessage(
         chatSessionRef.current, 
         finalMessage, 
-        filesToSend
+        filesToSend,
+        { onProgress: (partial) => upsertReply({ text: partial }), signal: controller.signal }
       );
 
-      const aiMsg = {
-        id: uuidv4(),
-        role: 'model' as const,
-        text: responseText,
-        timestamp: Date.now(),
-        sources
-      };
-
-      setChatMessages(prev => [...prev, aiMsg]);
+      upsertReply({ text: responseText, sources });
     } catch (e: any) {
+      // Stopped by the user: whatever streamed in stays as the reply
+      if (isAbortError(e)) return;
       console.error(e);
       let errorText = "I'm having trouble connecting. Please check your internet.";
       if (e.message?.includes('429') || e.message?.toLowerCase().includes('quota')) {
          errorText = "I'm receiving too many requests right now. Please wait a minute and try again.";
       }
-      setChatMessages(prev => [...prev, {
-        id: uuidv4(),
-        role: 'model',
-        text: errorText,
-        timestamp: Date.now()
-      }]);
+      upsertReply({ text: e.partialText ? `${e.partialText}\n\n*(Response interrupted: ${errorText})*` : errorText });
     } finally {
-      setIsChatLoading(false);
+      if (chatAbortRef.current === controller) {
+        chatAbortRef.current = null;
+        setIsChatLoading(false);
+      }
     }
   };
 
+  const handleStopChat = () => {
+    chatAbortRef.current?.abort();
+  };
+
   // --- HANDLERS: GENERATE ---
 
-  const handleGenerate = async (mode: StudyMode) => {
+  // Passing a quiz config always generates a fresh quiz, replacing any cached one
+  const handleGenerate = async (mode: StudyMode, config?: QuizConfig) => {
     if (!text.trim() && files.length === 0) return;
+    setShowQuizConfig(false);
     
     // Check cache first
-    if (resultsCache[mode]) {
+    if (resultsCache[mode] && !config) {
         setGeneratedResult({ mode, content: resultsCache[mode]! });
         return;
     }
 
+    // Only one generation at a time; starting another cancels the previous one
+    generateAbortRef.current?.abort();
+    const controller = new AbortController();
+    generateAbortRef.current = controller;
+
     setLoadingMode(mode);
     setError(null);
     try {
-      const result = await generateStudyContent(text, mode, files.length > 0 ? files : undefined, language);
+      const result = await generateStudyContent(text, mode, files.length > 0 ? files : undefined, language, {
+        onProgress: (partial) => setGeneratedResult({ mode, content: partial }),
+        signal: controller.signal,
+        quizConfig: config
+      });
       
       // Update Cache
       const newCache = { ...resultsCache, [mode]: result };
@@ -222,20 +257,47 @@ export const Dashboard: React.FC<DashboardProps> = ({ onSessionCreated, onViewPr
       setGeneratedResult({ mode, content: result });
       
       // Auto-save session with complete state
-      saveCurrentSession(newCache);
+      const saved = saveCurrentSession(newCache);
+      if (mode === StudyMode.QUIZ && user) collectQuiz(saved.id, saved.title, result);
 
     } catch (err: any) {
+      // Stopped by the user: partial output stays on screen, uncached and unsaved
+      if (isAbortError(err)) return;
       console.error(err);
+      // Keep whatever streamed in before the failure visible, but don't cache or save it
+      if (err.partialText) setGeneratedResult({ mode, content: err.partialText });
       if (err.message?.includes('429') || err.message?.toLowerCase().includes('quota')) {
         setError("Usage limit exceeded. Please wait a moment and try again.");
+      } else if (err.partialText) {
+        setError("The response was interrupted. Showing what was generated so far.");
       } else {
         setError("Something went wrong with the AI request. Please try again.");
       }
     } finally {
-      setLoadingMode(null);
+      if (generateAbortRef.current === controller) {
+        generateAbortRef.current = null;
+        setLoadingMode(null);
+      }
     }
   };
 
+  const handleQuizConfigured = (config: QuizConfig) => {
+    setQuizConfig(config);
+    handleGenerate(StudyMode.QUIZ, config);
+  };
+
+  // Edited or regenerated quiz questions replace the cached quiz and are saved with the session
+  const handleQuizChange = (content: string) => {
+    const newCache = { ...resultsCache, [StudyMode.QUIZ]: content };
+    setResultsCache(newCache);
+    setGeneratedResult({ mode: StudyMode.QUIZ, content });
+    saveCurrentSession(newCache);
+  };
+
+  const handleStopGenerating = () => {
+    generateAbortRef.current?.abort();
+  };
+
   const saveCurrentSession = (currentCache: typeof resultsCache) => {
     const titleText = files.length > 0 
       ? `Analysis of ${files[0].name}${files.length > 1 ? ` + ${files.length - 1} more` : ''}`
@@ -268,6 +330,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ onSessionCreated, onViewPr
         // Only log on first generation action to avoid spamming logs
         logActivity('create_session', logContext);
     }
+    return newSession;
   };
 
   const isLimitReached = files.length >= MAX_SOURCE_LIMIT;
@@ -471,7 +534,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ onSessionCreated, onViewPr
                         </div>
                     </div>
                 ))}
-                {isChatLoading && (
+                {isChatLoading && chatMessages[chatMessages.length - 1]?.role === 'user' && (
                     <div className="flex gap-4">
                         <div className="w-8 h-8 rounded-full bg-indigo-100 dark:bg-indigo-900/50 text-indigo-600 dark:text-indigo-400 flex items-center justify-center">
                             <Sparkles size={16} />
@@ -493,13 +556,23 @@ export const Dashboard: React.FC<DashboardProps> = ({ onSessionCreated, onViewPr
                         placeholder={`Ask questions in ${language}...`}
                         className="w-full pl-5 pr-14 py-4 bg-gray-50 dark:bg-slate-800 border border-gray-200 dark:border-slate-700 rounded-xl focus:outline-none focus:ring-2 focus:ring-slate-900/10 dark:focus:ring-white/10 focus:border-slate-900 dark:focus:border-slate-500 transition-all dark:text-white"
                     />
-                    <button 
-                        onClick={handleSendMessage}
-                        disabled={!chatInput.trim() || isChatLoading}
-                        className="absolute right-2 top-2 bottom-2 p-2 bg-slate-900 dark:bg-indigo-600 text-white rounded-lg hover:bg-slate-800 dark:hover:bg-indigo-500 disabled:opacity-50 transition-colors"
-                    >
-                        <Send size={18} />
-                    </button>
+                    {isChatLoading ? (
+                        <button 
+                            onClick={handleStopChat}
+                            className="absolute right-2 top-2 bottom-2 p-2 bg-red-500 text-white rounded-lg hover:bg-red-600 transition-colors"
+                            title="Stop generating"
+                        >
+                            <Square size={18} fill="currentColor" />
+                        </button>
+                    ) : (
+                        <button 
+                            onClick={handleSendMessage}
+                            disabled={!chatInput.trim()}
+                            className="absolute right-2 top-2 bottom-2 p-2 bg-slate-900 dark:bg-indigo-600 text-white rounded-lg hover:bg-slate-800 dark:hover:bg-indigo-500 disabled:opacity-50 transition-colors"
+                        >
+                            <Send size={18} />
+                        </button>
+                    )}
                 </div>
             </div>
         </div>
@@ -537,7 +610,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ onSessionCreated, onViewPr
                         </Button>
                         <Button 
                             variant="secondary" 
-                            onClick={() => handleGenerate(StudyMode.QUIZ)} 
+                            onClick={() => resultsCache[StudyMode.QUIZ] ? handleGenerate(StudyMode.QUIZ) : setShowQuizConfig(true)} 
                             isLoading={loadingMode === StudyMode.QUIZ}
                             className={`h-12 text-sm ${resultsCache[StudyMode.QUIZ] ? 'bg-indigo-50 dark:bg-indigo-900/30 border-indigo-200 dark:border-indigo-700 text-indigo-700 dark:text-indigo-300' : generatedResult?.mode === StudyMode.QUIZ ? 'border-indigo-500 bg-indigo-50 dark:bg-indigo-900/30 text-indigo-700 dark:text-indigo-300' : 'dark:bg-slate-800 dark:border-slate-700 dark:text-slate-300'}`}
                         >
@@ -553,24 +626,65 @@ export const Dashboard: React.FC<DashboardProps> = ({ onSessionCreated, onViewPr
                         </Button>
                     </div>
 
-                    {generatedResult ? (
+                    {loadingMode && (
+                        <Button 
+                            variant="outline" 
+                            size="sm" 
+                            onClick={handleStopGenerating} 
+                            className="w-full mb-6 text-red-600 border-red-200 hover:bg-red-50 dark:text-red-400 dark:border-red-900/50 dark:hover:bg-red-900/20"
+                            icon={<Square size={14} fill="currentColor" />}
+                        >
+                            Stop generating
+                        </Button>
+                    )}
+
+                    {error && (
+                        <div className="mb-4 p-3 bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 rounded-xl border border-red-100 dark:border-red-900/30 text-sm flex items-center gap-2">
+                            <AlertTriangle size={16} className="flex-shrink-0" /> {error}
+                        </div>
+                    )}
+
+                    {showQuizConfig ? (
+                        <QuizConfigPanel 
+                            initialConfig={quizConfig}
+                            onGenerate={handleQuizConfigured}
+                            onCancel={() => setShowQuizConfig(false)}
+                        />
+                    ) : generatedResult ? (
                         <div className="bg-white dark:bg-slate-800 rounded-2xl border border-gray-200 dark:border-slate-700 p-6 shadow-sm">
                             <div className="flex items-center gap-2 mb-4 pb-3 border-b border-gray-100 dark:border-slate-700">
                                 <div className="p-1.5 bg-indigo-50 dark:bg-indigo-900/50 text-indigo-600 dark:text-indigo-400 rounded-lg">
                                     <Wand2 size={16} />
                                 </div>
                                 <h3 className="font-bold text-slate-900 dark:text-white capitalize text-sm">{generatedResult.mode} Result</h3>
+                                {loadingMode === generatedResult.mode && (
+                                    <span className="ml-auto text-xs text-indigo-500 dark:text-indigo-400 font-medium animate-pulse">Writing...</span>
+                                )}
+                                {generatedResult.mode === StudyMode.QUIZ && !loadingMode && (
+                                    <button 
+                                        onClick={() => setShowQuizConfig(true)} 
+                                        className="ml-auto text-xs font-semibold text-indigo-600 dark:text-indigo-400 hover:underline flex items-center gap-1"
+                                    >
+                                        <SlidersHorizontal size={12} /> New Quiz
+                                    </button>
+                                )}
                             </div>
                             
-                            {/* CONDITIONAL RENDERING FOR QUIZ VS MARKDOWN */}
+                            {/* CONDITIONAL RENDERING FOR QUIZ / FLASHCARDS VS MARKDOWN */}
                             {generatedResult.mode === StudyMode.QUIZ ? (
                                 <QuizRunner 
                                     content={generatedResult.content} 
                                     title={currentTitle} 
+                                    sessionId={currentSessionId || undefined}
                                     isDark={isDarkMode}
+                                    onQuestionsChange={handleQuizChange}
+                                    source={{ text, files }}
+                                    language={language}
                                 />
+                            ) : generatedResult.mode === StudyMode.FLASHCARDS ? (
+                                <FlashcardDeck content={generatedResult.content} isDark={isDarkMode} />
                             ) : (
-                                <MarkdownRenderer content={generatedResult.content} isDark={isDarkMode} />
+                                <MarkdownRenderer content={generatedResult.content} isDark={isDarkMode} files={files} />
                             )}
                         </div>
                     ) : (
@@ -0,0 +1,156 @@
+import React from 'react';
+import { StudySession, ExamBlueprint, ExamSection, ExamItem, QuizDifficulty } from '../types';
+import { blueprintMarks } from '../services/questionSchema';
+import { Plus, Trash2 } from 'lucide-react';
+
+interface ExamBlueprintEditorProps {
+  blueprint: ExamBlueprint;
+  sessions: StudySession[]; // The sessions the exam draws on
+  onChange: (blueprint: ExamBlueprint) => void;
+}
+
+const TYPE_CHIPS: { type: ExamItem['type']; label: string }[] = [
+  { type: 'mcq', label: 'MCQ' },
+  { type: 'true_false', label: 'True/False' },
+  { type: 'fill_blank', label: 'Fill blank' },
+  { type: 'multi_select', label: 'Multi-select' },
+  { type: 'matching', label: 'Matching' },
+  { type: 'ordering', label: 'Ordering' },
+  { type: 'numeric', label: 'Numeric' },
+  { type: 'short_answer', label: 'Short answer' },
+  { type: 'long_answer', label: 'Long answer' }
+];
+
+const DIFFICULTY_OPTIONS: (QuizDifficulty | 'mixed')[] = ['mixed', 'easy', 'medium', 'hard'];
+
+const inputClass = "w-full p-2 rounded-lg border border-gray-300 dark:border-slate-600 bg-white dark:bg-slate-800 text-sm text-slate-900 dark:text-white outline-none focus:ring-2 focus:ring-indigo-500";
+
+// Sections are lettered by position, so removing one re-letters the ones after it
+const relabel = (sections: ExamSection[]) => sections.map((s, i) => ({ ...s, id: String.fromCharCode(65 + i) }));
+
+export const ExamBlueprintEditor: React.FC<ExamBlueprintEditorProps> = ({ blueprint, sessions, onChange }) => {
+  const updateSection = (id: string, changes: Partial<ExamSection>) =>
+    onChange({ ...blueprint, sections: blueprint.sections.map(s => (s.id === id ? { ...s, ...changes } : s)) });
+
+  const toggleType = (section: ExamSection, type: ExamItem['type']) => {
+    const types = section.types.includes(type) ? section.types.filter(t => t !== type) : [...section.types, type];
+    if (types.length > 0) updateSection(section.id, { types });
+  };
+
+  const addSection = () => onChange({
+    ...blueprint,
+    sections: relabel([...blueprint.sections, { id: '', title: 'Extended Response', instructions: '', types: ['long_answer'], marks: 10 }])
+  });
+
+  const removeSection = (id: string) => onChange({ ...blueprint, sections: relabel(blueprint.sections.filter(s => s.id !== id)) });
+
+  const weightOf = (session: StudySession) => blueprint.topicWeights[session.id] ?? 1;
+  const totalWeight = sessions.reduce((acc, s) => acc + weightOf(s), 0);
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-4">
+        {blueprint.sections.map(section => (
+          <div key={section.id} className="p-4 rounded-xl border border-gray-200 dark:border-slate-700 space-y-3">
+            <div className="flex items-center gap-3">
+              <span className="flex-shrink-0 w-8 h-8 bg-indigo-100 dark:bg-indigo-900/30 text-indigo-600 dark:text-indigo-400 rounded-full flex items-center justify-center font-bold text-sm">
+                {section.id}
+              </span>
+              <input
+                value={section.title}
+                onChange={(e) => updateSection(section.id, { title: e.target.value })}
+                placeholder="Section title"
+                className={inputClass}
+              />
+              <input
+                type="number" min={1} max={50}
+                value={section.marks}
+                onChange={(e) => updateSection(section.id, { marks: Math.min(50, Math.max(1, parseInt(e.target.value) || 1)) })}
+                className={`${inputClass} w-20 flex-shrink-0`}
+                title="Marks"
+              />
+              {blueprint.sections.length > 1 && (
+                <button onClick={() => removeSection(section.id)} className="p-1 text-gray-400 hover:text-red-500" title="Remove section">
+                  <Trash2 size={16} />
+                </button>
+              )}
+            </div>
+            <input
+              value={section.instructions}
+              onChange={(e) => updateSection(section.id, { instructions: e.target.value })}
+              placeholder="Instructions for students (optional)"
+              className={inputClass}
+            />
+            <div className="flex flex-wrap gap-2">
+              {TYPE_CHIPS.map(({ type, label }) => (
+                <button
+                  key={type}
+                  type="button"
+                  onClick={() => toggleType(section, type)}
+                  className={`px-2.5 py-1 rounded-full text-xs font-semibold border transition-colors ${
+                    section.types.includes(type)
+                      ? 'bg-indigo-50 dark:bg-indigo-900/30 border-indigo-500 text-indigo-700 dark:text-indigo-300'
+                      : 'border-gray-200 dark:border-slate-700 text-gray-500 dark:text-slate-400 hover:border-gray-300 dark:hover:border-slate-600'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+        ))}
+
+        <div className="flex items-center justify-between">
+          <button onClick={addSection} className="flex items-center gap-1 text-sm font-semibold text-indigo-600 dark:text-indigo-400 hover:underline">
+            <Plus size={16} /> Add Section
+          </button>
+          <span className="text-sm text-gray-500 dark:text-slate-400">
+            Total: <span className="font-bold text-slate-900 dark:text-white">{blueprintMarks(blueprint)}</span> marks
+          </span>
+        </div>
+      </div>
+
+      {sessions.length > 1 && (
+        <div>
+          <label className="block text-sm font-bold text-slate-700 dark:text-slate-300 mb-2">Topic Weighting</label>
+          <div className="space-y-2">
+            {sessions.map(session => (
+              <div key={session.id} className="flex items-center gap-3 text-sm">
+                <span className="w-40 truncate text-slate-700 dark:text-slate-300" title={session.title}>{session.title}</span>
+                <input
+                  type="range" min="0" max="5" step="1"
+                  value={weightOf(session)}
+                  onChange={(e) => onChange({ ...blueprint, topicWeights: { ...blueprint.topicWeights, [session.id]: parseInt(e.target.value) } })}
+                  className="flex-1 h-2 bg-gray-200 dark:bg-slate-700 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+                />
+                <span className="w-12 text-right font-semibold text-indigo-600 dark:text-indigo-400">
+                  {totalWeight > 0 ? Math.round((weightOf(session) / totalWeight) * 100) : 0}%
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div>
+        <label className="block text-sm font-bold text-slate-700 dark:text-slate-300 mb-2">Difficulty</label>
+        <div className="grid grid-cols-4 gap-2">
+          {DIFFICULTY_OPTIONS.map(difficulty => (
+            <button
+              key={difficulty}
+              type="button"
+              onClick={() => onChange({ ...blueprint, difficulty })}
+              className={`p-2 rounded-xl border text-sm font-semibold capitalize transition-all ${
+                blueprint.difficulty === difficulty
+                  ? 'bg-indigo-50 dark:bg-indigo-900/30 border-indigo-500 text-indigo-700 dark:text-indigo-300'
+                  : 'border-gray-200 dark:border-slate-700 text-slate-700 dark:text-slate-300 hover:border-gray-300 dark:hover:border-slate-600'
+              }`}
+            >
+              {difficulty}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,91 @@
+import React from 'react';
+import { ExamPaper, ExamAttempt, GradeResult } from '../types';
+import { gradeQuestion, ruleFor, answerText, isAnswered } from '../services/gradingService';
+import { ArrowLeft, ArrowUp, ArrowDown, Minus } from 'lucide-react';
+
+interface ExamCompareProps {
+  paper: ExamPaper;
+  first: ExamAttempt; // Older attempt
+  second: ExamAttempt;
+  onBack: () => void;
+}
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleDateString('en-US', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+const scoreStyle = (grade: GradeResult) =>
+  grade.status === 'correct'
+    ? 'text-green-600 dark:text-green-400'
+    : grade.status === 'partial'
+      ? 'text-amber-600 dark:text-amber-400'
+      : 'text-red-600 dark:text-red-400';
+
+const AnswerCell: React.FC<{ attempt: ExamAttempt; grade: GradeResult; questionId: number }> = ({ attempt, grade, questionId }) => (
+  <div className="min-w-0">
+    <p className={`text-sm font-bold ${scoreStyle(grade)}`}>{grade.score} / {grade.maxScore}</p>
+    <p className="text-sm text-slate-700 dark:text-slate-300 break-words">
+      {isAnswered(attempt.answers[questionId]) ? answerText(attempt.answers[questionId]) : <span className="italic text-gray-400 dark:text-slate-500">Not attempted</span>}
+    </p>
+  </div>
+);
+
+export const ExamCompare: React.FC<ExamCompareProps> = ({ paper, first, second, onBack }) => {
+  const delta = Math.round((second.score - first.score) * 100) / 100;
+
+  return (
+    <div className="max-w-4xl mx-auto pb-20">
+      <button onClick={onBack} className="text-gray-500 hover:text-slate-900 dark:text-slate-400 dark:hover:text-white mb-6 flex items-center text-sm">
+        <ArrowLeft size={16} className="mr-1" /> Back to attempt
+      </button>
+
+      <h1 className="text-2xl font-bold text-slate-900 dark:text-white mb-1">{paper.title}</h1>
+      <p className="text-sm text-gray-500 dark:text-slate-400 mb-6">Comparing two attempts of the same paper</p>
+
+      <div className="grid grid-cols-3 gap-4 mb-8">
+        {[first, second].map((attempt, i) => (
+          <div key={attempt.id} className="p-4 bg-white dark:bg-slate-800 rounded-xl border border-gray-200 dark:border-slate-700 text-center">
+            <p className="text-xs font-bold uppercase tracking-wider text-gray-500 dark:text-slate-400">{i === 0 ? 'Earlier' : 'Later'}</p>
+            <p className="text-2xl font-bold text-slate-900 dark:text-white">{attempt.score} <span className="text-base text-gray-400">/ {attempt.totalMarks}</span></p>
+            <p className="text-xs text-gray-500 dark:text-slate-400">{formatDate(attempt.completedAt)}</p>
+          </div>
+        ))}
+        <div className="p-4 bg-white dark:bg-slate-800 rounded-xl border border-gray-200 dark:border-slate-700 text-center">
+          <p className="text-xs font-bold uppercase tracking-wider text-gray-500 dark:text-slate-400">Change</p>
+          <p className={`text-2xl font-bold ${delta > 0 ? 'text-green-600 dark:text-green-400' : delta < 0 ? 'text-red-600 dark:text-red-400' : 'text-slate-900 dark:text-white'}`}>
+            {delta > 0 ? '+' : ''}{delta}
+          </p>
+          <p className="text-xs text-gray-500 dark:text-slate-400">marks</p>
+        </div>
+      </div>
+
+      <div className="space-y-4">
+        {paper.items.map((q, idx) => {
+          const before = gradeQuestion(q, first.answers[q.id], first.rubrics[q.id], ruleFor(q, first.markingScheme));
+          const after = gradeQuestion(q, second.answers[q.id], second.rubrics[q.id], ruleFor(q, second.markingScheme));
+          const change = Math.round((after.score - before.score) * 100) / 100;
+
+          return (
+            <div key={q.id} className="bg-white dark:bg-slate-800 rounded-xl border border-gray-200 dark:border-slate-700 p-5">
+              <div className="flex justify-between items-start gap-4 mb-4">
+                <p className="font-medium text-slate-900 dark:text-white">
+                  <span className="text-gray-400 dark:text-slate-500 mr-2">{idx + 1}.</span>{q.question}
+                </p>
+                <span className={`flex items-center gap-1 text-sm font-bold whitespace-nowrap ${change > 0 ? 'text-green-600 dark:text-green-400' : change < 0 ? 'text-red-600 dark:text-red-400' : 'text-gray-400 dark:text-slate-500'}`}>
+                  {change > 0 ? <ArrowUp size={16} /> : change < 0 ? <ArrowDown size={16} /> : <Minus size={16} />}
+                  {change !== 0 && Math.abs(change)}
+                </span>
+              </div>
+              <div className="grid grid-cols-2 gap-4 pt-4 border-t border-gray-50 dark:border-slate-700">
+                <AnswerCell attempt={first} grade={before} questionId={q.id} />
+                <AnswerCell attempt={second} grade={after} questionId={q.id} />
+              </div>
+              <p className="mt-3 text-sm text-gray-500 dark:text-slate-400">
+                <span className="font-bold">Correct answer:</span> {q.correctAnswer || q.modelAnswer}
+              </p>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
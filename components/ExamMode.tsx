@@ -1,37 +1,140 @@
-import React, { useState, useEffect } from 'react';
-import { StudySession, ExamItem, StudyEvent } from '../types';
-import { getSessions, logActivity, getActivities } from '../services/storageService';
-import { generateExam } from '../services/geminiService';
+import React, { useState, useEffect, useRef } from 'react';
+import { StudySession, ExamItem, StudyEvent, AnswerValue, ExamPaper, ExamAttempt, ExamBlueprint, ExamDraft, MarkingScheme, BankQuestion } from '../types';
+import { getSessions, logActivity, getActivities, saveQuestionAttempts, saveExamPaper, getExamPapers, saveExamAttempt, getExamAttempts, saveExamDraft, getExamDraft, clearExamDraft, getQuestionBank } from '../services/storageService';
+import { gradeWrittenAnswers, regenerateExamQuestion, isAbortError } from '../services/geminiService';
+import { blueprintMarks, sumMarks } from '../services/questionSchema';
+import { assembleExam, sessionFor, updateInBank, reportQuestion } from '../services/bankService';
+import { gradeQuestion, gradeAnswers, ruleFor, isWrittenQuestion, isAnswered, answerText, RubricSheet, AnswerSheet } from '../services/gradingService';
+import { recordAttempts, toAttempts, examItemToQuizItem } from '../services/mistakeService';
+import { startAnswerTimer, markAnswerTime, buildQuestionAttempts } from '../services/attemptService';
+import { QuestionInput, STRUCTURED_INPUT_TYPES } from './QuestionInput';
+import { ExamCompare } from './ExamCompare';
+import { ExamBlueprintEditor } from './ExamBlueprintEditor';
+import { ExamPrintDialog } from './ExamPrintDialog';
+import { MarkingSchemePicker } from './MarkingSchemePicker';
+import { QuestionEditor } from './QuestionEditor';
+import { ReportQuestionForm } from './ReportQuestionForm';
+import { VerificationBadge, SourceExcerpt } from './AnswerVerificationNote';
 import { Button } from './Button';
-import { GraduationCap, ArrowRight, BookOpen, RefreshCcw, ArrowLeft, PenTool, CheckCircle, XCircle, AlertCircle, FileText, History, Save, Check, Home, Loader2 } from 'lucide-react';
+import { EXAM_MINUTES_PER_MARK, EXAM_TIME_WARNINGS, DEFAULT_EXAM_BLUEPRINT, MARKING_PRESETS } from '../constants';
+import { GraduationCap, ArrowRight, BookOpen, RefreshCcw, ArrowLeft, PenTool, CheckCircle, XCircle, AlertCircle, FileText, History, Save, Check, Home, Loader2, Square, MinusCircle, ChevronRight, GitCompare, Clock, Pause, Play, Printer, Pencil, RefreshCw, Flag } from 'lucide-react';
+import { v4 as uuidv4 } from 'uuid';
 
 interface ExamModeProps {
   language: string;
+  userId?: string; // Stamped on autosaved drafts, so another account never resumes them
 }
 
-export const ExamMode: React.FC<ExamModeProps> = ({ language }) => {
+const subjectFor = (sessions: StudySession[]) => {
+  if (sessions.length === 1) return sessions[0].title;
+  if (sessions.length > 1) return `${sessions[0].title} + ${sessions.length - 1} others`;
+  return "General Knowledge";
+};
+
+type TimeMode = 'auto' | 'custom' | 'off';
+
+// "42:05", or "1:02:05" past an hour
+const formatClock = (ms: number) => {
+  const total = Math.ceil(ms / 1000);
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const sec = String(total % 60).padStart(2, '0');
+  return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${sec}` : `${m}:${sec}`;
+};
+
+const formatDuration = (seconds: number) => {
+  const m = Math.floor(seconds / 60);
+  return m > 0 ? `${m}m ${seconds % 60}s` : `${seconds}s`;
+};
+
+const formatAttemptDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleDateString('en-US', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+export const ExamMode: React.FC<ExamModeProps> = ({ language, userId }) => {
   const [sessions, setSessions] = useState<StudySession[]>([]);
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
   const [step, setStep] = useState<1 | 2 | 3>(1); // 1: Select, 2: Configure, 3: Exam
   const [totalMarks, setTotalMarks] = useState<number>(20);
+  const [useBlueprint, setUseBlueprint] = useState(false);
+  const [blueprint, setBlueprint] = useState<ExamBlueprint>(DEFAULT_EXAM_BLUEPRINT);
+  const [markingScheme, setMarkingScheme] = useState<MarkingScheme>(MARKING_PRESETS[0]);
+  const [useBank, setUseBank] = useState(true);
+  const [verify, setVerify] = useState(false);
+  const [bank, setBank] = useState<BankQuestion[]>([]);
   const [loading, setLoading] = useState(false);
   const [initializing, setInitializing] = useState(true);
   const [error, setError] = useState<string | null>(null);
   
   // History State
   const [examHistory, setExamHistory] = useState<StudyEvent[]>([]);
+  const [papers, setPapers] = useState<ExamPaper[]>([]);
+  const [attempts, setAttempts] = useState<ExamAttempt[]>([]);
+  const [reviewAttempt, setReviewAttempt] = useState<ExamAttempt | null>(null); // Set when reopening a past attempt
+  const [compareAttempt, setCompareAttempt] = useState<ExamAttempt | null>(null);
+  const [showPrint, setShowPrint] = useState(false);
+  const [draft, setDraft] = useState<ExamDraft | null>(null); // Autosaved exam offered for resuming
 
   // Exam State
+  const [paper, setPaper] = useState<ExamPaper | null>(null);
   const [examData, setExamData] = useState<ExamItem[]>([]);
-  const [userAnswers, setUserAnswers] = useState<{[key: number]: string}>({});
+  const [userAnswers, setUserAnswers] = useState<AnswerSheet>({});
   const [submittedQuestions, setSubmittedQuestions] = useState<{[key: number]: boolean}>({});
   const [isFinished, setIsFinished] = useState(false);
+  const generateAbortRef = useRef<AbortController | null>(null);
+  const answerTimerRef = useRef(startAnswerTimer());
+  const startedAtRef = useRef(Date.now());
+  const attemptIdRef = useRef(uuidv4());
+
+  // Timing: the clock runs on wall time, so it keeps going in a background tab.
+  // Pausing (when allowed) hides the questions until the exam is resumed.
+  const [timeMode, setTimeMode] = useState<TimeMode>('auto');
+  const [customMinutes, setCustomMinutes] = useState(30);
+  const [allowPause, setAllowPause] = useState(false);
+  const [timeWarnings, setTimeWarnings] = useState(true);
+  const [endsAt, setEndsAt] = useState<number | null>(null); // Null when untimed
+  const [pausedRemaining, setPausedRemaining] = useState<number | null>(null); // Set while paused
+  const [now, setNow] = useState(Date.now());
+  const [timeWarning, setTimeWarning] = useState<string | null>(null);
+  const [timedOut, setTimedOut] = useState(false);
+  const pausedAtRef = useRef<number | null>(null);
+  const pausedMsRef = useRef(0);
+  const warnedRef = useRef<Set<number>>(new Set());
+
+  const durationMinutes = timeMode === 'off' ? 0 : timeMode === 'auto' ? Math.ceil(totalMarks * EXAM_MINUTES_PER_MARK) : customMinutes;
+  // The limit of the sitting in progress (0 when untimed). Fixed when it starts, so retakes and
+  // resumed drafts don't pick up whatever the step 2 settings are now.
+  const [limitMinutes, setLimitMinutes] = useState(0);
+
+  // AI Grading State
+  const [aiGrading, setAiGrading] = useState(true);
+  const [rubricGrades, setRubricGrades] = useState<RubricSheet>({});
+  const [isGrading, setIsGrading] = useState(false);
+  const [gradingNote, setGradingNote] = useState<string | null>(null);
+  const gradeAbortRef = useRef<AbortController | null>(null);
+
+  // Per-question actions
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [regeneratingId, setRegeneratingId] = useState<number | null>(null);
+  const [reportedIds, setReportedIds] = useState<Set<number>>(new Set());
+  const [reportingId, setReportingId] = useState<number | null>(null);
+  const [questionError, setQuestionError] = useState<string | null>(null);
+  const regenerateAbortRef = useRef<AbortController | null>(null);
   
+  // Stop a running exam generation, regeneration or grading pass when leaving Exam Mode
+  useEffect(() => {
+    return () => {
+      generateAbortRef.current?.abort();
+      regenerateAbortRef.current?.abort();
+      gradeAbortRef.current?.abort();
+    };
+  }, []);
+
   useEffect(() => {
     const init = async () => {
       setInitializing(true);
-      const s = await getSessions();
+      const [s, saved] = await Promise.all([getSessions(), getExamDraft()]);
       setSessions(s);
+      setDraft(saved);
       await loadHistory();
       setInitializing(false);
     };
@@ -39,11 +142,25 @@ export const ExamMode: React.FC<ExamModeProps> = ({ language }) => {
   }, []);
 
   const loadHistory = async () => {
-    const allEvents = await getActivities();
+    const [allEvents, paperList, attemptList, bankList] = await Promise.all([getActivities(), getExamPapers(), getExamAttempts(), getQuestionBank()]);
     const history = allEvents
       .filter(e => e.action_type === 'exam_complete')
       .sort((a, b) => b.timestamp - a.timestamp); // Newest first
     setExamHistory(history);
+    setPapers(paperList);
+    setAttempts(attemptList);
+    setBank(bankList);
+  };
+
+  // With a blueprint, the total is whatever its sections add up to
+  const changeBlueprint = (next: ExamBlueprint) => {
+    setBlueprint(next);
+    setTotalMarks(blueprintMarks(next));
+  };
+
+  const chooseLayout = (blueprinted: boolean) => {
+    setUseBlueprint(blueprinted);
+    if (blueprinted) setTotalMarks(blueprintMarks(blueprint));
   };
 
   const toggleSession = (id: string) => {
@@ -60,128 +177,455 @@ export const ExamMode: React.FC<ExamModeProps> = ({ language }) => {
     setIsFinished(false);
     setUserAnswers({});
     setSubmittedQuestions({});
+    setRubricGrades({});
+    setReviewAttempt(null);
     
     const selectedSessions = sessions.filter(s => selectedIds.has(s.id));
+    const controller = new AbortController();
+    generateAbortRef.current = controller;
     
     try {
-      const content = await generateExam(selectedSessions, totalMarks, language);
-      try {
-        const parsed = JSON.parse(content);
-        if (Array.isArray(parsed)) {
-          setExamData(parsed);
-        } else {
-          throw new Error("Invalid format");
-        }
-      } catch (parseError) {
-        console.error("JSON Parse Error", parseError);
-        setError("Failed to process exam data. Please try again.");
-      }
+      const examBlueprint = useBlueprint ? blueprint : undefined;
+      const { items } = await assembleExam(selectedSessions, totalMarks, language, { signal: controller.signal, blueprint: examBlueprint, useBank, verify });
+      const newPaper: ExamPaper = {
+        id: uuidv4(),
+        title: subjectFor(selectedSessions),
+        sessionIds: selectedSessions.map(s => s.id),
+        totalMarks: sumMarks(items), // Can fall short of the request when a blueprint section came back empty
+        items,
+        blueprint: examBlueprint,
+        createdAt: Date.now()
+      };
+      saveExamPaper(newPaper);
+      setPaper(newPaper);
+      setExamData(items);
+      setTotalMarks(newPaper.totalMarks);
+      startClock(durationMinutes);
     } catch (e) {
+      if (isAbortError(e)) return;
       console.error(e);
       setError("We couldn't generate the exam. Please check your connection.");
     } finally {
-      setLoading(false);
+      if (generateAbortRef.current === controller) {
+        generateAbortRef.current = null;
+        setLoading(false);
+      }
     }
   };
 
+  const handleStopGenerating = () => {
+    generateAbortRef.current?.abort();
+    generateAbortRef.current = null;
+    setLoading(false);
+    setStep(2);
+  };
+
   const resetExam = async () => {
+    // Leaving a live exam abandons it (and one whose grading was cut short)
+    if (paper && !reviewAttempt && !error) {
+      clearExamDraft();
+      setDraft(null);
+    }
+    gradeAbortRef.current?.abort();
+    gradeAbortRef.current = null;
+    regenerateAbortRef.current?.abort();
+    regenerateAbortRef.current = null;
+    setRegeneratingId(null);
+    setIsGrading(false);
+    setRubricGrades({});
+    setGradingNote(null);
     setStep(1);
     setSelectedIds(new Set());
+    setPaper(null);
+    setReviewAttempt(null);
+    setCompareAttempt(null);
+    setEndsAt(null);
+    setPausedRemaining(null);
+    setTimeWarning(null);
     setExamData([]);
     setUserAnswers({});
     setSubmittedQuestions({});
     setIsFinished(false);
     setError(null);
+    setEditingId(null);
+    setQuestionError(null);
     await loadHistory();
   };
 
-  const handleAnswerChange = (id: number, val: string) => {
+  // Starts answer timing and, for timed exams, the countdown
+  const startClock = (minutes: number) => {
+    const start = Date.now();
+    attemptIdRef.current = uuidv4();
+    answerTimerRef.current = startAnswerTimer(start);
+    startedAtRef.current = start;
+    pausedAtRef.current = null;
+    pausedMsRef.current = 0;
+    warnedRef.current = new Set();
+    setPausedRemaining(null);
+    setTimeWarning(null);
+    setTimedOut(false);
+    setLimitMinutes(minutes);
+    setEndsAt(minutes > 0 ? start + minutes * 60000 : null);
+    setNow(start);
+    setEditingId(null);
+    setReportedIds(new Set());
+    setQuestionError(null);
+  };
+
+  const togglePause = () => {
+    if (!endsAt || isFinished) return;
+    const current = Date.now();
+    if (pausedRemaining === null) {
+      pausedAtRef.current = current;
+      setPausedRemaining(Math.max(0, endsAt - current));
+    } else {
+      pausedMsRef.current += current - (pausedAtRef.current ?? current);
+      pausedAtRef.current = null;
+      answerTimerRef.current.last = current; // The pause isn't time spent on a question
+      setEndsAt(current + pausedRemaining);
+      setPausedRemaining(null);
+      setNow(current);
+    }
+  };
+
+  // Pick up an autosaved exam where it was left. Time spent away counts as paused.
+  const resumeDraft = (saved: ExamDraft) => {
+    const current = Date.now();
+    setPaper(saved.paper);
+    setSelectedIds(new Set(saved.paper.sessionIds));
+    setExamData(saved.paper.items);
+    setTotalMarks(saved.paper.totalMarks);
+    setUserAnswers(saved.answers);
+    setSubmittedQuestions(Object.fromEntries(saved.checkedQuestions.map(id => [id, true])));
+    setRubricGrades({});
+    setIsFinished(false);
+    setGradingNote(null);
+    setError(null);
+    setReviewAttempt(null);
+    setCompareAttempt(null);
+    setAiGrading(saved.aiGrading);
+    setMarkingScheme(saved.markingScheme || MARKING_PRESETS[0]);
+    setAllowPause(saved.allowPause);
+    setTimeWarnings(saved.timeWarnings);
+    setLimitMinutes(saved.timeLimitMinutes || 0);
+
+    const remaining = saved.remainingMs;
+    attemptIdRef.current = saved.attemptId;
+    answerTimerRef.current = { last: current, spent: { ...saved.answerTimes } };
+    startedAtRef.current = saved.startedAt;
+    pausedAtRef.current = null;
+    pausedMsRef.current = Math.max(0, current - saved.startedAt - saved.timeUsedMs);
+    warnedRef.current = new Set(remaining !== undefined ? EXAM_TIME_WARNINGS.filter(m => remaining <= m * 60000) : []);
+    setPausedRemaining(null);
+    setTimeWarning(null);
+    setTimedOut(false);
+    setEndsAt(remaining !== undefined ? current + remaining : null);
+    setNow(current);
+    setDraft(null);
+    setStep(3);
+    window.scrollTo({ top: 0 });
+  };
+
+  const discardDraft = () => {
+    if (!confirm('Discard the exam in progress? Your answers will be lost.')) return;
+    clearExamDraft();
+    setDraft(null);
+  };
+
+  // Reopen a past attempt read-only, with its answers and marks
+  const openAttempt = (attempt: ExamAttempt) => {
+    const attemptPaper = papers.find(p => p.id === attempt.paperId);
+    if (!attemptPaper) return;
+    setPaper(attemptPaper);
+    setExamData(attemptPaper.items);
+    setTotalMarks(attemptPaper.totalMarks);
+    setUserAnswers(attempt.answers);
+    setRubricGrades(attempt.rubrics);
+    setMarkingScheme(attempt.markingScheme || MARKING_PRESETS[0]);
+    setSubmittedQuestions({});
+    setIsFinished(true);
+    setGradingNote(null);
+    setError(null);
+    setReviewAttempt(attempt);
+    setCompareAttempt(null);
+    setEndsAt(null);
+    setPausedRemaining(null);
+    setTimedOut(false);
+    setStep(3);
+  };
+
+  // Sit the same paper again from scratch, with the time limit of its first sitting.
+  // Papers that were never sat get the default limit for their marks.
+  const retakePaper = (target: ExamPaper) => {
+    const first = attempts.filter(a => a.paperId === target.id).sort((a, b) => a.startedAt - b.startedAt)[0];
+    const minutes = first ? first.timeLimitMinutes || 0 : Math.ceil(target.totalMarks * EXAM_MINUTES_PER_MARK);
+    gradeAbortRef.current?.abort();
+    gradeAbortRef.current = null;
+    setIsGrading(false);
+    setPaper(target);
+    setSelectedIds(new Set(target.sessionIds));
+    setExamData(target.items);
+    setTotalMarks(target.totalMarks);
+    setUserAnswers({});
+    setRubricGrades({});
+    setSubmittedQuestions({});
+    setIsFinished(false);
+    setGradingNote(null);
+    setError(null);
+    setReviewAttempt(null);
+    setCompareAttempt(null);
+    startClock(minutes);
+    setStep(3);
+    window.scrollTo({ top: 0 });
+  };
+
+  const handleAnswerChange = (id: number, val: AnswerValue) => {
     if (!isFinished) {
+      markAnswerTime(answerTimerRef.current, id);
       setUserAnswers(prev => ({ ...prev, [id]: val }));
     }
   };
 
   const checkAnswer = (id: number) => {
-    if (!userAnswers[id] || isFinished) return;
+    if (!isAnswered(userAnswers[id]) || isFinished) return;
     setSubmittedQuestions(prev => ({ ...prev, [id]: true }));
   };
 
-  const isCorrect = (q: ExamItem) => {
-    const ans = userAnswers[q.id]?.trim().toLowerCase();
-    if (!ans) return false;
+  // --- QUESTION ACTIONS ---
 
-    if (q.type === 'mcq') {
-      return ans === q.correctAnswer?.toLowerCase();
-    }
-    
-    if (q.type === 'fill_blank') {
-       return ans === q.correctAnswer?.toLowerCase();
-    }
-    
-    if (q.type === 'short_answer' || q.type === 'long_answer') {
-      if (!q.keywords) return true; // Loose grading
-      // Check for at least 50% keyword match
-      const hits = q.keywords.reduce((acc, k) => ans.includes(k.toLowerCase()) ? acc + 1 : acc, 0);
-      return hits >= Math.ceil(q.keywords.length / 2);
+  // The session an exam question was drawn from, for its source material and bank copy
+  const questionSession = (q: ExamItem) => {
+    const paperSessions = sessions.filter(s => paper?.sessionIds.includes(s.id));
+    return paperSessions.length > 0 ? sessionFor(q, paperSessions) : undefined;
+  };
+
+  // Only unchecked questions in a live sitting can change; the paper is saved with the change
+  const replaceQuestion = (original: ExamItem, item: ExamItem) => {
+    if (!paper) return;
+    const items = examData.map(q => (q.id === original.id ? item : q));
+    // Earlier sittings are reviewed against the questions they answered, so a paper that has
+    // already been sat is copied to a new one, which only this sitting uses
+    const sat = attempts.some(a => a.paperId === paper.id);
+    const updatedPaper = { ...paper, id: sat ? uuidv4() : paper.id, items, createdAt: sat ? Date.now() : paper.createdAt };
+    setExamData(items);
+    setPaper(updatedPaper);
+    saveExamPaper(updatedPaper);
+    setUserAnswers(prev => {
+      const { [original.id]: _, ...rest } = prev;
+      return rest;
+    });
+    const session = questionSession(original);
+    if (session) updateInBank(session.id, original.question, { item });
+  };
+
+  const handleEditQuestion = (original: ExamItem, item: ExamItem) => {
+    replaceQuestion(original, item);
+    setEditingId(null);
+  };
+
+  const handleRegenerateQuestion = async (original: ExamItem) => {
+    const session = questionSession(original);
+    if (!session) return;
+    regenerateAbortRef.current?.abort();
+    const controller = new AbortController();
+    regenerateAbortRef.current = controller;
+    setRegeneratingId(original.id);
+    setQuestionError(null);
+    try {
+      const others = examData.filter(q => q.id !== original.id).map(q => q.question);
+      const item = await regenerateExamQuestion(original, { text: session.originalText, files: session.files }, others, language, { signal: controller.signal });
+      replaceQuestion(original, item);
+    } catch (e) {
+      if (isAbortError(e)) return;
+      setQuestionError("We couldn't regenerate that question. Please try again.");
+    } finally {
+      if (regenerateAbortRef.current === controller) {
+        regenerateAbortRef.current = null;
+        setRegeneratingId(null);
+      }
     }
-    
-    return false;
+  };
+
+  const handleReportQuestion = async (q: ExamItem, note: string) => {
+    setReportingId(null);
+    setReportedIds(prev => new Set(prev).add(q.id));
+    const session = questionSession(q);
+    await reportQuestion({ sessionId: session?.id, topic: session?.title || paper?.title || 'Exam', origin: 'exam' }, q, note);
   };
 
   const getCurrentScore = () => {
-    return examData.reduce((score, q) => {
-      // Only count if submitted or exam is finished
-      if ((submittedQuestions[q.id] || isFinished) && isCorrect(q)) {
-        return score + q.marks;
-      }
-      return score;
-    }, 0);
+    // Only count if submitted or exam is finished
+    const checked = examData.filter(q => submittedQuestions[q.id] || isFinished);
+    return gradeAnswers(checked, userAnswers, rubricGrades, markingScheme).score;
   };
 
   const finishExam = async () => {
     if (isFinished) return;
 
+    const completedAt = Date.now();
+    if (pausedAtRef.current !== null) pausedMsRef.current += completedAt - pausedAtRef.current;
+    pausedAtRef.current = null;
+    setPausedRemaining(null);
+    const timeUsedSeconds = Math.round((completedAt - startedAtRef.current - pausedMsRef.current) / 1000);
+
     // 1. Mark all as submitted so users see results
     const allSubmitted: {[key: number]: boolean} = {};
     examData.forEach(q => allSubmitted[q.id] = true);
     setSubmittedQuestions(allSubmitted);
     setIsFinished(true);
 
-    // 2. Calculate final score
-    const finalScore = examData.reduce((score, q) => {
-       const ans = userAnswers[q.id]?.trim().toLowerCase();
-       if (!ans) return score;
-       
-       let correct = false;
-       if (q.type === 'mcq') correct = ans === q.correctAnswer?.toLowerCase();
-       else if (q.type === 'fill_blank') correct = ans === q.correctAnswer?.toLowerCase();
-       else if ((q.type === 'short_answer' || q.type === 'long_answer') && q.keywords) {
-         const hits = q.keywords.reduce((acc, k) => ans.includes(k.toLowerCase()) ? acc + 1 : acc, 0);
-         correct = hits >= Math.ceil(q.keywords.length / 2);
-       }
-       
-       return correct ? score + q.marks : score;
-    }, 0);
-
-    // 3. Determine Subject Name
-    const selectedSessions = sessions.filter(s => selectedIds.has(s.id));
-    let subjectName = "General Knowledge";
-    if (selectedSessions.length === 1) {
-      subjectName = selectedSessions[0].title;
-    } else if (selectedSessions.length > 1) {
-      subjectName = `${selectedSessions[0].title} + ${selectedSessions.length - 1} others`;
+    // 2. Mark written answers against a rubric (falls back to keyword grading if this fails)
+    let rubrics: RubricSheet = {};
+    if (aiGrading && examData.some(q => isWrittenQuestion(q) && isAnswered(userAnswers[q.id]))) {
+      const controller = new AbortController();
+      gradeAbortRef.current = controller;
+      setIsGrading(true);
+      setGradingNote(null);
+      try {
+        rubrics = await gradeWrittenAnswers(examData, userAnswers, language, { signal: controller.signal });
+        setRubricGrades(rubrics);
+      } catch (e) {
+        if (isAbortError(e)) return; // Exam was reset or closed mid-grading
+        setGradingNote("AI grading is unavailable right now, so written answers were marked by keywords.");
+      } finally {
+        if (gradeAbortRef.current === controller) {
+          gradeAbortRef.current = null;
+          setIsGrading(false);
+        }
+      }
     }
 
-    // 4. Log to Storage
-    await logActivity('exam_complete', 'Completed Exam Mode', {
+    // 3. Calculate final score
+    const summary = gradeAnswers(examData, userAnswers, rubrics, markingScheme);
+    const finalScore = summary.score;
+
+    // 4. Determine Subject Name
+    const subjectName = paper?.title || subjectFor(sessions.filter(s => selectedIds.has(s.id)));
+
+    // 5. Log to Storage, with a record per question and the attempt itself
+    const sessionId = paper?.sessionIds.length === 1 ? paper.sessionIds[0] : undefined;
+    const activityId = await logActivity('exam_complete', 'Completed Exam Mode', {
       exam_score: finalScore,
-      exam_total: totalMarks,
-      exam_subject: subjectName
+      exam_total: sumMarks(examData),
+      exam_subject: subjectName,
+      exam_time_seconds: timeUsedSeconds
     });
+    await saveQuestionAttempts(buildQuestionAttempts(
+      { activityId, sessionId, origin: 'exam', topic: subjectName },
+      examData,
+      summary,
+      userAnswers,
+      answerTimerRef.current
+    ));
+    if (paper) {
+      await saveExamAttempt({
+        id: attemptIdRef.current,
+        paperId: paper.id,
+        activityId,
+        answers: userAnswers,
+        rubrics,
+        score: finalScore,
+        totalMarks: sumMarks(examData),
+        timeLimitMinutes: endsAt ? limitMinutes : undefined,
+        timeUsedSeconds,
+        markingScheme,
+        startedAt: startedAtRef.current,
+        completedAt
+      });
+    }
+
+    // 6. Keep the questions that lost marks in the mistake notebook
+    await recordAttempts(toAttempts(
+      { sessionId, topic: subjectName, origin: 'exam' },
+      examData.map(examItemToQuizItem),
+      summary,
+      userAnswers
+    ));
 
-    // 5. Refresh History
+    // 7. Refresh History. The draft goes last, so an exam closed mid-grading can still be resumed.
     await loadHistory();
+    await clearExamDraft();
+  };
+
+  // The live sitting as an autosave, or null when there is nothing to resume
+  const buildDraft = (): ExamDraft | null => {
+    if (step !== 3 || loading || !paper || isFinished || reviewAttempt) return null;
+    const current = Date.now();
+    const pausedMs = pausedMsRef.current + (pausedAtRef.current !== null ? current - pausedAtRef.current : 0);
+    return {
+      attemptId: attemptIdRef.current,
+      userId,
+      paper,
+      answers: userAnswers,
+      checkedQuestions: examData.filter(q => submittedQuestions[q.id]).map(q => q.id),
+      answerTimes: answerTimerRef.current.spent,
+      aiGrading,
+      markingScheme,
+      timeLimitMinutes: endsAt ? limitMinutes : undefined,
+      remainingMs: pausedRemaining ?? (endsAt ? Math.max(0, endsAt - current) : undefined),
+      allowPause,
+      timeWarnings,
+      timeUsedMs: current - startedAtRef.current - pausedMs,
+      startedAt: startedAtRef.current,
+      savedAt: current
+    };
   };
+  const buildDraftRef = useRef(buildDraft);
+  buildDraftRef.current = buildDraft;
+
+  const persistDraft = () => {
+    const current = buildDraftRef.current();
+    if (current) saveExamDraft(current);
+  };
+
+  // Autosave shortly after every change to the sitting
+  useEffect(() => {
+    if (!paper || isFinished || reviewAttempt) return;
+    const timeout = setTimeout(persistDraft, 1000);
+    return () => clearTimeout(timeout);
+  }, [paper, userAnswers, submittedQuestions, pausedRemaining, isFinished, reviewAttempt]);
+
+  // ...and every 30s so the saved clock stays current, and when the page or Exam Mode is left
+  useEffect(() => {
+    const interval = setInterval(persistDraft, 30000);
+    window.addEventListener('beforeunload', persistDraft);
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener('beforeunload', persistDraft);
+      persistDraft();
+    };
+  }, []);
+
+  // Countdown tick, stopped while paused and once the exam is finished
+  useEffect(() => {
+    if (!endsAt || isFinished || pausedRemaining !== null) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [endsAt, isFinished, pausedRemaining]);
+
+  // Auto-submit at zero, and warn as thresholds pass
+  useEffect(() => {
+    if (!endsAt || isFinished || pausedRemaining !== null) return;
+    const remaining = endsAt - now;
+    if (remaining <= 0) {
+      setTimedOut(true);
+      setTimeWarning(null);
+      finishExam();
+      return;
+    }
+    if (!timeWarnings) return;
+    const passed = EXAM_TIME_WARNINGS.filter(m => m < limitMinutes && remaining <= m * 60000 && !warnedRef.current.has(m));
+    if (passed.length === 0) return;
+    passed.forEach(m => warnedRef.current.add(m));
+    const minutes = Math.min(...passed);
+    setTimeWarning(`${minutes} minute${minutes === 1 ? '' : 's'} left`);
+  }, [now, endsAt]);
+
+  useEffect(() => {
+    if (!timeWarning) return;
+    const timeout = setTimeout(() => setTimeWarning(null), 6000);
+    return () => clearTimeout(timeout);
+  }, [timeWarning]);
 
   if (initializing) {
     return <div className="flex justify-center p-20"><Loader2 className="animate-spin text-indigo-500" /></div>;
@@ -203,6 +647,28 @@ export const ExamMode: React.FC<ExamModeProps> = ({ language }) => {
            </p>
         </div>
 
+        {draft && (
+          <div className="mb-8 p-5 bg-indigo-50 dark:bg-indigo-900/20 border border-indigo-200 dark:border-indigo-800/50 rounded-2xl flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+            <div className="min-w-0">
+              <p className="text-xs font-bold uppercase tracking-wider text-indigo-600 dark:text-indigo-400 mb-1">Exam in progress</p>
+              <h2 className="font-bold text-slate-900 dark:text-white truncate">{draft.paper.title}</h2>
+              <p className="text-sm text-gray-600 dark:text-slate-400">
+                {draft.paper.items.filter(q => isAnswered(draft.answers[q.id])).length} of {draft.paper.items.length} answered
+                {' · '}{draft.remainingMs !== undefined ? `${formatClock(draft.remainingMs)} left` : 'Untimed'}
+                {' · '}Saved {formatAttemptDate(draft.savedAt)}
+              </p>
+            </div>
+            <div className="flex gap-2 flex-shrink-0">
+              <Button variant="outline" size="sm" onClick={discardDraft} className="dark:text-slate-300 dark:border-slate-600 dark:hover:bg-slate-800">
+                Discard
+              </Button>
+              <Button size="sm" onClick={() => resumeDraft(draft)} icon={<Play size={16} />}>
+                Resume exam
+              </Button>
+            </div>
+          </div>
+        )}
+
         {sessions.length === 0 ? (
           <div className="text-center py-16 bg-white dark:bg-slate-800 rounded-2xl border border-dashed border-gray-300 dark:border-slate-700">
              <p className="text-gray-500 dark:text-slate-400">No study sessions found.</p>
@@ -266,6 +732,7 @@ export const ExamMode: React.FC<ExamModeProps> = ({ language }) => {
                         <th className="px-6 py-4">Score</th>
                         <th className="px-6 py-4">Accuracy</th>
                         <th className="px-6 py-4">Date</th>
+                        <th className="px-6 py-4"></th>
                       </tr>
                     </thead>
                     <tbody className="divide-y divide-gray-100 dark:divide-slate-700">
@@ -273,9 +740,16 @@ export const ExamMode: React.FC<ExamModeProps> = ({ language }) => {
                         const score = exam.exam_score || 0;
                         const total = exam.exam_total_marks || 1;
                         const percentage = Math.round((score / total) * 100);
+                        // Exams taken before papers were saved can't be reopened
+                        const attempt = attempts.find(a => a.activityId === exam.id && papers.some(p => p.id === a.paperId));
                         
                         return (
-                          <tr key={exam.id} className="hover:bg-gray-50 dark:hover:bg-slate-700/50 transition-colors">
+                          <tr
+                            key={exam.id}
+                            onClick={attempt ? () => openAttempt(attempt) : undefined}
+                            className={`hover:bg-gray-50 dark:hover:bg-slate-700/50 transition-colors ${attempt ? 'cursor-pointer' : ''}`}
+                            title={attempt ? 'Review this attempt' : undefined}
+                          >
                             <td className="px-6 py-4">
                                <div className="flex items-center gap-2">
                                   <div className={`w-2 h-2 rounded-full ${percentage >= 70 ? 'bg-green-500' : percentage >= 40 ? 'bg-yellow-500' : 'bg-red-500'}`}></div>
@@ -300,6 +774,9 @@ export const ExamMode: React.FC<ExamModeProps> = ({ language }) => {
                             <td className="px-6 py-4 text-sm text-gray-500 dark:text-slate-400">
                                {new Date(Number(exam.timestamp)).toLocaleDateString('en-US', { day: 'numeric', month: 'short' })}
                             </td>
+                            <td className="px-6 py-4 text-gray-400 dark:text-slate-500">
+                               {attempt && <ChevronRight size={18} />}
+                            </td>
                           </tr>
                         );
                       })}
@@ -315,6 +792,7 @@ export const ExamMode: React.FC<ExamModeProps> = ({ language }) => {
 
   // Step 2: Configure
   if (step === 2) {
+    const bankAvailable = bank.filter(q => selectedIds.has(q.sessionId) && !q.flagged).length;
     return (
       <div className="max-w-xl mx-auto pt-10">
         <button onClick={() => setStep(1)} className="text-gray-500 hover:text-slate-900 dark:text-slate-400 dark:hover:text-white mb-6 flex items-center text-sm">
@@ -329,18 +807,151 @@ export const ExamMode: React.FC<ExamModeProps> = ({ language }) => {
            <p className="text-gray-600 dark:text-slate-400 mb-8">Selected {selectedIds.size} topics.</p>
 
            <div className="mb-8">
-             <label className="block text-sm font-bold text-slate-700 dark:text-slate-300 mb-2">Total Marks</label>
-             <div className="flex items-center gap-4">
-               <input 
-                 type="range" min="10" max="50" step="5"
-                 value={totalMarks}
-                 onChange={(e) => setTotalMarks(parseInt(e.target.value))}
-                 className="w-full h-2 bg-gray-200 dark:bg-slate-700 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+             <label className="block text-sm font-bold text-slate-700 dark:text-slate-300 mb-2">Paper Layout</label>
+             <div className="grid grid-cols-2 gap-2 mb-4">
+               {[
+                 { value: false, label: 'Standard', hint: 'Mixed questions, one section' },
+                 { value: true, label: 'Blueprint', hint: 'Sections, topic weights, difficulty' }
+               ].map(option => (
+                 <button
+                   key={option.label}
+                   type="button"
+                   onClick={() => chooseLayout(option.value)}
+                   className={`p-3 rounded-xl border text-left transition-all ${
+                     useBlueprint === option.value
+                       ? 'bg-indigo-50 dark:bg-indigo-900/30 border-indigo-500 text-indigo-700 dark:text-indigo-300'
+                       : 'border-gray-200 dark:border-slate-700 text-slate-700 dark:text-slate-300 hover:border-gray-300 dark:hover:border-slate-600'
+                   }`}
+                 >
+                   <p className="text-sm font-semibold">{option.label}</p>
+                   <p className="text-[11px] text-gray-500 dark:text-slate-400">{option.hint}</p>
+                 </button>
+               ))}
+             </div>
+
+             {useBlueprint ? (
+               <ExamBlueprintEditor
+                 blueprint={blueprint}
+                 sessions={sessions.filter(s => selectedIds.has(s.id))}
+                 onChange={changeBlueprint}
                />
-               <span className="text-2xl font-bold text-indigo-600 dark:text-indigo-400 w-16 text-center">{totalMarks}</span>
+             ) : (
+               <>
+                 <label className="block text-sm font-bold text-slate-700 dark:text-slate-300 mb-2">Total Marks</label>
+                 <div className="flex items-center gap-4">
+                   <input 
+                     type="range" min="10" max="50" step="5"
+                     value={totalMarks}
+                     onChange={(e) => setTotalMarks(parseInt(e.target.value))}
+                     className="w-full h-2 bg-gray-200 dark:bg-slate-700 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+                   />
+                   <span className="text-2xl font-bold text-indigo-600 dark:text-indigo-400 w-16 text-center">{totalMarks}</span>
+                 </div>
+               </>
+             )}
+           </div>
+
+           <label className="flex items-start gap-3 mb-4 cursor-pointer">
+             <input
+               type="checkbox"
+               checked={useBank}
+               onChange={(e) => setUseBank(e.target.checked)}
+               className="mt-1 w-4 h-4 accent-indigo-600"
+             />
+             <span>
+               <span className="block text-sm font-bold text-slate-700 dark:text-slate-300">Reuse questions from my question bank</span>
+               <span className="block text-xs text-gray-500 dark:text-slate-400">
+                 {bankAvailable} saved question{bankAvailable === 1 ? '' : 's'} for these topics. Only the marks the bank can't cover are generated.
+               </span>
+             </span>
+           </label>
+
+           <label className="flex items-start gap-3 mb-8 cursor-pointer">
+             <input
+               type="checkbox"
+               checked={verify}
+               onChange={(e) => setVerify(e.target.checked)}
+               className="mt-1 w-4 h-4 accent-indigo-600"
+             />
+             <span>
+               <span className="block text-sm font-bold text-slate-700 dark:text-slate-300">Verify answers against my notes</span>
+               <span className="block text-xs text-gray-500 dark:text-slate-400">
+                 Checks the answer key before the exam starts. Answers your notes don't back up are flagged.
+               </span>
+             </span>
+           </label>
+
+           <div className="mb-8">
+             <label className="block text-sm font-bold text-slate-700 dark:text-slate-300 mb-2">Marking Scheme</label>
+             <MarkingSchemePicker
+               scheme={markingScheme}
+               sections={useBlueprint ? blueprint.sections : []}
+               onChange={setMarkingScheme}
+             />
+           </div>
+
+           <div className="mb-8">
+             <label className="block text-sm font-bold text-slate-700 dark:text-slate-300 mb-2">Time Limit</label>
+             <div className="grid grid-cols-3 gap-2 mb-3">
+               {([
+                 { value: 'auto', label: `${Math.ceil(totalMarks * EXAM_MINUTES_PER_MARK)} min`, hint: 'From marks' },
+                 { value: 'custom', label: 'Custom', hint: 'Set minutes' },
+                 { value: 'off', label: 'Untimed', hint: 'No countdown' }
+               ] as { value: TimeMode; label: string; hint: string }[]).map(option => (
+                 <button
+                   key={option.value}
+                   type="button"
+                   onClick={() => setTimeMode(option.value)}
+                   className={`p-3 rounded-xl border text-left transition-all ${
+                     timeMode === option.value
+                       ? 'bg-indigo-50 dark:bg-indigo-900/30 border-indigo-500 text-indigo-700 dark:text-indigo-300'
+                       : 'border-gray-200 dark:border-slate-700 text-slate-700 dark:text-slate-300 hover:border-gray-300 dark:hover:border-slate-600'
+                   }`}
+                 >
+                   <p className="text-sm font-semibold">{option.label}</p>
+                   <p className="text-[11px] text-gray-500 dark:text-slate-400">{option.hint}</p>
+                 </button>
+               ))}
              </div>
+             {timeMode === 'custom' && (
+               <div className="flex items-center gap-2 mb-3">
+                 <input
+                   type="number" min={1} max={300}
+                   value={customMinutes}
+                   onChange={(e) => setCustomMinutes(Math.min(300, Math.max(1, parseInt(e.target.value) || 1)))}
+                   className="w-24 p-2 rounded-lg border border-gray-300 dark:border-slate-600 bg-white dark:bg-slate-800 text-slate-900 dark:text-white outline-none focus:ring-2 focus:ring-indigo-500"
+                 />
+                 <span className="text-sm text-gray-500 dark:text-slate-400">minutes</span>
+               </div>
+             )}
+             {timeMode !== 'off' && (
+               <div className="space-y-2">
+                 <label className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300 cursor-pointer">
+                   <input type="checkbox" checked={timeWarnings} onChange={(e) => setTimeWarnings(e.target.checked)} className="w-4 h-4 accent-indigo-600" />
+                   Warn me at {EXAM_TIME_WARNINGS.join(', ')} minutes left
+                 </label>
+                 <label className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300 cursor-pointer">
+                   <input type="checkbox" checked={allowPause} onChange={(e) => setAllowPause(e.target.checked)} className="w-4 h-4 accent-indigo-600" />
+                   Allow pausing (questions are hidden while paused)
+                 </label>
+                 <p className="text-xs text-gray-500 dark:text-slate-400">The exam is submitted automatically when time runs out.</p>
+               </div>
+             )}
            </div>
 
+           <label className="flex items-start gap-3 mb-8 cursor-pointer">
+             <input
+               type="checkbox"
+               checked={aiGrading}
+               onChange={(e) => setAiGrading(e.target.checked)}
+               className="mt-1 w-4 h-4 accent-indigo-600"
+             />
+             <span>
+               <span className="block text-sm font-bold text-slate-700 dark:text-slate-300">AI grading for written answers</span>
+               <span className="block text-xs text-gray-500 dark:text-slate-400">Short and long answers are marked against a rubric, with partial marks and feedback, instead of by keyword matching.</span>
+             </span>
+           </label>
+
            <Button onClick={handleGenerateExam} className="w-full py-3 text-lg" isLoading={loading}>
              Start Exam
            </Button>
@@ -360,6 +971,14 @@ export const ExamMode: React.FC<ExamModeProps> = ({ language }) => {
         </div>
         <h2 className="text-2xl font-bold text-slate-900 dark:text-white mb-2">Generating Exam...</h2>
         <p className="text-gray-500 dark:text-slate-400 animate-pulse">Designing questions based on your notes in {language}.</p>
+        <Button 
+          variant="outline" 
+          onClick={handleStopGenerating} 
+          className="mt-8 text-red-600 border-red-200 hover:bg-red-50 dark:text-red-400 dark:border-red-900/50 dark:hover:bg-red-900/20"
+          icon={<Square size={16} fill="currentColor" />}
+        >
+          Stop generating
+        </Button>
       </div>
     );
   }
@@ -377,154 +996,354 @@ export const ExamMode: React.FC<ExamModeProps> = ({ language }) => {
     );
   }
 
+  if (paper && reviewAttempt && compareAttempt) {
+    const [first, second] = [reviewAttempt, compareAttempt].sort((a, b) => a.completedAt - b.completedAt);
+    return <ExamCompare paper={paper} first={first} second={second} onBack={() => setCompareAttempt(null)} />;
+  }
+
+  // Other sittings of the paper being reviewed, newest first
+  const otherAttempts = reviewAttempt ? attempts.filter(a => a.paperId === reviewAttempt.paperId && a.id !== reviewAttempt.id) : [];
+  const remainingMs = pausedRemaining ?? (endsAt ? Math.max(0, endsAt - now) : null);
+
   return (
     <div className="max-w-4xl mx-auto pb-20">
       <div className="flex items-center justify-between mb-6 sticky top-0 bg-gray-50 dark:bg-slate-900 py-4 z-10 backdrop-blur-sm transition-colors duration-300">
         <div>
           <h1 className="text-2xl font-bold text-slate-900 dark:text-white flex items-center gap-2">
-            <FileText className="text-indigo-600 dark:text-indigo-400" /> Comprehensive Exam
+            <FileText className="text-indigo-600 dark:text-indigo-400" /> {reviewAttempt && paper ? paper.title : 'Comprehensive Exam'}
           </h1>
           <p className="text-sm text-gray-500 dark:text-slate-400">
-             Current Score: <span className="font-bold text-slate-900 dark:text-white">{getCurrentScore()}</span> / {totalMarks}
+             {reviewAttempt
+               ? `Attempt from ${formatAttemptDate(reviewAttempt.completedAt)}${reviewAttempt.timeUsedSeconds !== undefined ? ` · ${formatDuration(reviewAttempt.timeUsedSeconds)}` : ''} · Score: `
+               : 'Current Score: '}
+             <span className="font-bold text-slate-900 dark:text-white">{getCurrentScore()}</span> / {totalMarks}
+             {markingScheme.name !== MARKING_PRESETS[0].name && ` · ${markingScheme.name} marking`}
           </p>
         </div>
         <div className="flex items-center gap-2">
-           {!isFinished && (
+           {remainingMs !== null && !isFinished && (
+             <div className={`flex items-center gap-1.5 px-3 py-1.5 rounded-xl font-mono font-bold text-sm tabular-nums ${
+               remainingMs <= 60000
+                 ? 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300 animate-pulse'
+                 : remainingMs <= 5 * 60000
+                   ? 'bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300'
+                   : 'bg-white dark:bg-slate-800 border border-gray-200 dark:border-slate-700 text-slate-700 dark:text-slate-300'
+             }`}>
+               <Clock size={16} /> {formatClock(remainingMs)}
+               {allowPause && (
+                 <button onClick={togglePause} className="ml-1 hover:opacity-70" title={pausedRemaining !== null ? 'Resume' : 'Pause'}>
+                   {pausedRemaining !== null ? <Play size={16} /> : <Pause size={16} />}
+                 </button>
+               )}
+             </div>
+           )}
+           {paper && pausedRemaining === null && (
+             <Button variant="outline" onClick={() => setShowPrint(true)} size="sm" className="dark:text-slate-300 dark:border-slate-600 dark:hover:bg-slate-800" title="Print or export">
+               <Printer size={16} />
+             </Button>
+           )}
+           {!isFinished && pausedRemaining === null && (
              <Button variant="primary" onClick={finishExam} size="sm" className="bg-indigo-600 hover:bg-indigo-700">
                <Save size={16} className="mr-2" /> Finish Exam
              </Button>
            )}
-           <Button variant="outline" onClick={resetExam} size="sm" className="dark:text-slate-300 dark:border-slate-600 dark:hover:bg-slate-800">
-             <RefreshCcw size={16} className="mr-2" /> Restart
-           </Button>
+           {reviewAttempt ? (
+             <Button variant="outline" onClick={resetExam} size="sm" className="dark:text-slate-300 dark:border-slate-600 dark:hover:bg-slate-800">
+               <ArrowLeft size={16} className="mr-2" /> Back
+             </Button>
+           ) : (
+             <Button variant="outline" onClick={resetExam} size="sm" className="dark:text-slate-300 dark:border-slate-600 dark:hover:bg-slate-800">
+               <RefreshCcw size={16} className="mr-2" /> Restart
+             </Button>
+           )}
         </div>
       </div>
 
-      <div className="space-y-8">
-        {examData.map((q, idx) => {
-          // If exam is finished, show result for all. If not, only for submitted.
-          const isSubmitted = submittedQuestions[q.id] || isFinished;
-          const correct = isCorrect(q);
-
-          return (
-            <div key={q.id} className="bg-white dark:bg-slate-800 rounded-2xl shadow-sm border border-gray-200 dark:border-slate-700 overflow-hidden">
-              <div className="p-6 border-b border-gray-50 dark:border-slate-700 flex justify-between items-start">
-                 <div className="flex gap-4">
-                    <span className="flex-shrink-0 w-8 h-8 bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300 rounded-full flex items-center justify-center font-bold text-sm">
-                      {idx + 1}
-                    </span>
-                    <div>
-                      <h3 className="text-lg font-medium text-slate-900 dark:text-white">{q.question}</h3>
-                      <div className="flex gap-2 mt-2">
-                        <span className="text-xs font-semibold text-gray-500 dark:text-slate-400 bg-gray-100 dark:bg-slate-700 px-2 py-0.5 rounded uppercase">
-                          {q.type.replace('_', ' ')}
-                        </span>
-                        <span className="text-xs font-semibold text-indigo-600 dark:text-indigo-300 bg-indigo-50 dark:bg-indigo-900/30 px-2 py-0.5 rounded uppercase">
-                          {q.marks} Mark{q.marks > 1 ? 's' : ''}
-                        </span>
-                      </div>
-                    </div>
-                 </div>
-                 {isSubmitted && (
-                   correct 
-                    ? <CheckCircle className="text-green-500" size={24} /> 
-                    : <XCircle className="text-red-500" size={24} />
-                 )}
-              </div>
+      {timeWarning && (
+        <div className="sticky top-24 z-10 mb-4 mx-auto w-fit flex items-center gap-2 px-4 py-2 rounded-full bg-amber-500 text-white text-sm font-bold shadow-lg animate-in fade-in slide-in-from-top-2">
+          <Clock size={16} /> {timeWarning}
+        </div>
+      )}
 
-              <div className="p-6 bg-gray-50/50 dark:bg-slate-900/50">
-                {/* MCQ */}
-                {q.type === 'mcq' && q.options && (
-                  <div className="grid gap-3">
-                    {q.options.map((opt) => {
-                      const selected = userAnswers[q.id] === opt;
-                      const isRight = opt === q.correctAnswer;
-                      
-                      let style = "bg-white dark:bg-slate-800 border-gray-200 dark:border-slate-600 hover:border-gray-300 dark:hover:border-slate-500 dark:text-white";
-                      if (isSubmitted) {
-                        if (isRight) style = "bg-green-50 dark:bg-green-900/20 border-green-500 text-green-800 dark:text-green-300";
-                        else if (selected && !isRight) style = "bg-red-50 dark:bg-red-900/20 border-red-500 text-red-800 dark:text-red-300";
-                        else style = "opacity-50 dark:opacity-50 dark:bg-slate-800 dark:border-slate-700 dark:text-slate-400";
-                      } else if (selected) {
-                        style = "bg-slate-900 dark:bg-indigo-600 border-slate-900 dark:border-indigo-600 text-white";
-                      }
-
-                      return (
-                        <button
-                          key={opt}
-                          onClick={() => handleAnswerChange(q.id, opt)}
-                          disabled={isFinished}
-                          className={`w-full text-left p-4 rounded-xl border transition-all ${style}`}
-                        >
-                          {opt}
-                        </button>
-                      );
-                    })}
-                  </div>
-                )}
+      {pausedRemaining !== null ? (
+        <div className="p-12 bg-white dark:bg-slate-800 rounded-2xl text-center border border-gray-200 dark:border-slate-700 shadow-sm">
+          <Pause className="mx-auto mb-3 text-indigo-500" size={36} />
+          <h2 className="text-xl font-bold text-slate-900 dark:text-white mb-1">Exam paused</h2>
+          <p className="text-gray-500 dark:text-slate-400 mb-6">The questions are hidden and the clock is stopped at {formatClock(pausedRemaining)}.</p>
+          <Button onClick={togglePause} icon={<Play size={18} />}>Resume</Button>
+        </div>
+      ) : (
+        <div className="space-y-8">
+          {questionError && (
+            <div className="p-3 bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-300 rounded-lg border border-red-100 dark:border-red-900/30 text-sm flex items-center gap-2">
+              <AlertCircle size={16} /> {questionError}
+            </div>
+          )}
+          {examData.map((q, idx) => {
+            // If exam is finished, show result for all. If not, only for submitted.
+            const isSubmitted = submittedQuestions[q.id] || isFinished;
+            const grade = gradeQuestion(q, userAnswers[q.id], rubricGrades[q.id], ruleFor(q, markingScheme));
+            const correct = grade.status === 'correct';
+            const awaitingGrade = isGrading && isWrittenQuestion(q) && grade.status !== 'unanswered';
+            const section = paper?.blueprint?.sections.find(s => s.id === q.section);
 
-                {/* Fill Blank */}
-                {q.type === 'fill_blank' && (
-                  <div className="flex gap-2">
-                    <input
-                      type="text"
-                      value={userAnswers[q.id] || ''}
-                      onChange={(e) => handleAnswerChange(q.id, e.target.value)}
-                      disabled={isFinished}
-                      placeholder="Type the missing word..."
-                      className="flex-1 p-3 rounded-xl border border-gray-300 dark:border-slate-600 bg-white dark:bg-slate-800 text-slate-900 dark:text-white focus:ring-2 focus:ring-slate-900 dark:focus:ring-indigo-500 outline-none"
-                    />
+            return (
+              <React.Fragment key={q.id}>
+                {section && (idx === 0 || examData[idx - 1].section !== q.section) && (
+                  <div className="pt-2">
+                    <div className="flex items-baseline justify-between gap-4">
+                      <h2 className="text-lg font-bold text-slate-900 dark:text-white">Section {section.id}: {section.title}</h2>
+                      <span className="text-sm font-semibold text-gray-500 dark:text-slate-400 whitespace-nowrap">{section.marks} marks</span>
+                    </div>
+                    {section.instructions && <p className="text-sm text-gray-600 dark:text-slate-400 mt-1">{section.instructions}</p>}
                   </div>
                 )}
+                <div className="bg-white dark:bg-slate-800 rounded-2xl shadow-sm border border-gray-200 dark:border-slate-700 overflow-hidden">
+                  <div className="p-6 border-b border-gray-50 dark:border-slate-700 flex justify-between items-start">
+                     <div className="flex gap-4">
+                        <span className="flex-shrink-0 w-8 h-8 bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300 rounded-full flex items-center justify-center font-bold text-sm">
+                          {idx + 1}
+                        </span>
+                        <div>
+                          <h3 className="text-lg font-medium text-slate-900 dark:text-white">{q.question}</h3>
+                          <div className="flex gap-2 mt-2">
+                            <span className="text-xs font-semibold text-gray-500 dark:text-slate-400 bg-gray-100 dark:bg-slate-700 px-2 py-0.5 rounded uppercase">
+                              {q.type.replace('_', ' ')}
+                            </span>
+                            <span className="text-xs font-semibold text-indigo-600 dark:text-indigo-300 bg-indigo-50 dark:bg-indigo-900/30 px-2 py-0.5 rounded uppercase">
+                              {q.marks} Mark{q.marks > 1 ? 's' : ''}
+                            </span>
+                            <VerificationBadge verification={q.verification} />
+                          </div>
+                          <div className="flex flex-wrap gap-3 mt-2 text-xs font-semibold text-gray-400 dark:text-slate-500">
+                            {!isSubmitted && !reviewAttempt && (
+                              <>
+                                <button onClick={() => setEditingId(q.id)} disabled={regeneratingId !== null} className="flex items-center gap-1 hover:text-indigo-600 dark:hover:text-indigo-400 disabled:opacity-50">
+                                  <Pencil size={12} /> Edit
+                                </button>
+                                {questionSession(q) && (
+                                  <button onClick={() => handleRegenerateQuestion(q)} disabled={regeneratingId !== null} className="flex items-center gap-1 hover:text-indigo-600 dark:hover:text-indigo-400 disabled:opacity-50">
+                                    {regeneratingId === q.id ? <Loader2 size={12} className="animate-spin" /> : <RefreshCw size={12} />} Regenerate this question
+                                  </button>
+                                )}
+                              </>
+                            )}
+                            {reportedIds.has(q.id) ? (
+                              <span className="flex items-center gap-1 text-amber-600 dark:text-amber-400"><Flag size={12} fill="currentColor" /> Reported</span>
+                            ) : (
+                              <button onClick={() => setReportingId(q.id)} className="flex items-center gap-1 hover:text-amber-600 dark:hover:text-amber-400">
+                                <Flag size={12} /> Report wrong answer
+                              </button>
+                            )}
+                          </div>
+                        </div>
+                     </div>
+                     {isSubmitted && awaitingGrade && (
+                       <span className="flex items-center gap-1 text-gray-500 dark:text-slate-400 text-sm whitespace-nowrap">
+                         <Loader2 size={18} className="animate-spin" /> Grading
+                       </span>
+                     )}
+                     {isSubmitted && !awaitingGrade && (
+                       correct 
+                        ? <CheckCircle className="text-green-500" size={24} /> 
+                        : grade.status === 'partial'
+                          ? <span className="flex items-center gap-1 text-amber-600 dark:text-amber-400 font-bold text-sm whitespace-nowrap">
+                              <MinusCircle size={22} /> {grade.score} / {grade.maxScore}
+                            </span>
+                          : grade.score < 0
+                            ? <span className="flex items-center gap-1 text-red-600 dark:text-red-400 font-bold text-sm whitespace-nowrap">
+                                <XCircle size={22} /> {grade.score}
+                              </span>
+                            : <XCircle className="text-red-500" size={24} />
+                     )}
+                  </div>
 
-                {/* Text Answers */}
-                {(q.type === 'short_answer' || q.type === 'long_answer') && (
-                  <textarea
-                    value={userAnswers[q.id] || ''}
-                    onChange={(e) => handleAnswerChange(q.id, e.target.value)}
-                    disabled={isFinished}
-                    placeholder="Type your answer here..."
-                    rows={q.type === 'long_answer' ? 5 : 2}
-                    className="w-full p-4 rounded-xl border border-gray-300 dark:border-slate-600 bg-white dark:bg-slate-800 text-slate-900 dark:text-white focus:ring-2 focus:ring-slate-900 dark:focus:ring-indigo-500 outline-none resize-none"
-                  />
-                )}
+                  {reportingId === q.id && (
+                    <div className="p-6 border-b border-gray-100 dark:border-slate-700">
+                      <ReportQuestionForm onReport={(note) => handleReportQuestion(q, note)} onCancel={() => setReportingId(null)} />
+                    </div>
+                  )}
+                  {editingId === q.id && (
+                    <div className="p-6 bg-gray-50/50 dark:bg-slate-900/50">
+                      <QuestionEditor item={q} lockMarks onSave={(item) => handleEditQuestion(q, item)} onCancel={() => setEditingId(null)} />
+                    </div>
+                  )}
+                  <div className={`p-6 bg-gray-50/50 dark:bg-slate-900/50 ${editingId === q.id ? 'hidden' : ''}`}>
+                    {/* MCQ / True-False */}
+                    {(q.type === 'mcq' || q.type === 'true_false') && q.options && (
+                      <div className="grid gap-3">
+                        {q.options.map((opt) => {
+                          const selected = userAnswers[q.id] === opt;
+                          const isRight = opt === q.correctAnswer;
+                          
+                          let style = "bg-white dark:bg-slate-800 border-gray-200 dark:border-slate-600 hover:border-gray-300 dark:hover:border-slate-500 dark:text-white";
+                          if (isSubmitted) {
+                            if (isRight) style = "bg-green-50 dark:bg-green-900/20 border-green-500 text-green-800 dark:text-green-300";
+                            else if (selected && !isRight) style = "bg-red-50 dark:bg-red-900/20 border-red-500 text-red-800 dark:text-red-300";
+                            else style = "opacity-50 dark:opacity-50 dark:bg-slate-800 dark:border-slate-700 dark:text-slate-400";
+                          } else if (selected) {
+                            style = "bg-slate-900 dark:bg-indigo-600 border-slate-900 dark:border-indigo-600 text-white";
+                          }
+
+                          return (
+                            <button
+                              key={opt}
+                              onClick={() => handleAnswerChange(q.id, opt)}
+                              disabled={isFinished}
+                              className={`w-full text-left p-4 rounded-xl border transition-all ${style}`}
+                            >
+                              {opt}
+                            </button>
+                          );
+                        })}
+                      </div>
+                    )}
 
-                {/* Submit / Feedback */}
-                <div className="mt-4 flex justify-end">
-                   {!isSubmitted ? (
-                     <Button 
-                       onClick={() => checkAnswer(q.id)} 
-                       disabled={!userAnswers[q.id]}
-                       size="sm"
-                     >
-                       Check Answer
-                     </Button>
-                   ) : (
-                     <div className="w-full">
-                       {!correct && (
-                         <div className="bg-white dark:bg-slate-800 p-4 rounded-xl border border-red-100 dark:border-red-900/30 mb-2 animate-in fade-in">
-                           <p className="text-sm font-bold text-red-600 dark:text-red-400 mb-1">Correct Answer:</p>
-                           <p className="text-slate-800 dark:text-slate-200">
-                             {q.correctAnswer || q.modelAnswer}
-                           </p>
+                    {/* Multi-select, Matching, Ordering, Numeric */}
+                    {STRUCTURED_INPUT_TYPES.includes(q.type) && (
+                      <QuestionInput
+                        question={q}
+                        value={userAnswers[q.id]}
+                        onChange={(val) => handleAnswerChange(q.id, val)}
+                        disabled={isFinished}
+                        showResult={isSubmitted && grade.status !== 'unanswered'}
+                        correct={correct}
+                      />
+                    )}
+
+                    {/* Fill Blank */}
+                    {q.type === 'fill_blank' && (
+                      <div className="flex gap-2">
+                        <input
+                          type="text"
+                          value={answerText(userAnswers[q.id])}
+                          onChange={(e) => handleAnswerChange(q.id, e.target.value)}
+                          disabled={isFinished}
+                          placeholder="Type the missing word..."
+                          className="flex-1 p-3 rounded-xl border border-gray-300 dark:border-slate-600 bg-white dark:bg-slate-800 text-slate-900 dark:text-white focus:ring-2 focus:ring-slate-900 dark:focus:ring-indigo-500 outline-none"
+                        />
+                      </div>
+                    )}
+
+                    {/* Text Answers */}
+                    {(q.type === 'short_answer' || q.type === 'long_answer') && (
+                      <textarea
+                        value={answerText(userAnswers[q.id])}
+                        onChange={(e) => handleAnswerChange(q.id, e.target.value)}
+                        disabled={isFinished}
+                        placeholder="Type your answer here..."
+                        rows={q.type === 'long_answer' ? 5 : 2}
+                        className="w-full p-4 rounded-xl border border-gray-300 dark:border-slate-600 bg-white dark:bg-slate-800 text-slate-900 dark:text-white focus:ring-2 focus:ring-slate-900 dark:focus:ring-indigo-500 outline-none resize-none"
+                      />
+                    )}
+
+                    {/* Submit / Feedback */}
+                    <div className="mt-4 flex justify-end">
+                       {!isSubmitted ? (
+                         <Button 
+                           onClick={() => checkAnswer(q.id)} 
+                           disabled={!isAnswered(userAnswers[q.id])}
+                           size="sm"
+                         >
+                           Check Answer
+                         </Button>
+                       ) : (
+                         <div className="w-full">
+                           {!correct && (
+                             <div className="bg-white dark:bg-slate-800 p-4 rounded-xl border border-red-100 dark:border-red-900/30 mb-2 animate-in fade-in">
+                               <p className="text-sm font-bold text-red-600 dark:text-red-400 mb-1">Correct Answer:</p>
+                               <p className="text-slate-800 dark:text-slate-200">
+                                 {q.correctAnswer || q.modelAnswer}
+                               </p>
+                               {!grade.rubric && grade.missedKeywords.length > 0 && grade.status !== 'unanswered' && (
+                                 <p className="text-sm text-amber-600 dark:text-amber-400 mt-2">
+                                   <span className="font-bold">Missing key points:</span> {grade.missedKeywords.join(', ')}
+                                 </p>
+                               )}
+                             </div>
+                           )}
+                           {grade.rubric && (
+                             <div className="bg-white dark:bg-slate-800 p-4 rounded-xl border border-gray-200 dark:border-slate-700 mb-2 animate-in fade-in">
+                               <div className="flex justify-between items-center mb-3">
+                                 <p className="text-sm font-bold text-slate-800 dark:text-slate-200">Examiner Feedback</p>
+                                 <span className="text-sm font-bold text-indigo-600 dark:text-indigo-400">{grade.score} / {grade.maxScore}</span>
+                               </div>
+                               <ul className="space-y-2 mb-3">
+                                 {grade.rubric.criteria.map((c, i) => (
+                                   <li key={i} className="text-sm">
+                                     <div className="flex justify-between gap-4">
+                                       <span className="font-medium text-slate-800 dark:text-slate-200">{c.criterion}</span>
+                                       <span className="text-gray-500 dark:text-slate-400 whitespace-nowrap">{c.awarded} / {c.max}</span>
+                                     </div>
+                                     {c.feedback && <p className="text-gray-600 dark:text-slate-400">{c.feedback}</p>}
+                                   </li>
+                                 ))}
+                               </ul>
+                               {grade.rubric.missing.length > 0 && (
+                                 <p className="text-sm text-amber-600 dark:text-amber-400">
+                                   <span className="font-bold">What was missing:</span> {grade.rubric.missing.join('; ')}
+                                 </p>
+                               )}
+                               {grade.rubric.summary && (
+                                 <p className="text-sm text-gray-600 dark:text-slate-400 mt-2 italic">{grade.rubric.summary}</p>
+                               )}
+                             </div>
+                           )}
+                           <div className="bg-indigo-50 dark:bg-indigo-900/20 p-4 rounded-xl border border-indigo-100 dark:border-indigo-900/30">
+                             <p className="text-sm font-bold text-indigo-800 dark:text-indigo-300 mb-1">Explanation:</p>
+                             <p className="text-sm text-indigo-700 dark:text-indigo-200">{q.explanation}</p>
+                             <SourceExcerpt verification={q.verification} />
+                           </div>
                          </div>
                        )}
-                       <div className="bg-indigo-50 dark:bg-indigo-900/20 p-4 rounded-xl border border-indigo-100 dark:border-indigo-900/30">
-                         <p className="text-sm font-bold text-indigo-800 dark:text-indigo-300 mb-1">Explanation:</p>
-                         <p className="text-sm text-indigo-700 dark:text-indigo-200">{q.explanation}</p>
-                       </div>
-                     </div>
-                   )}
+                    </div>
+                  </div>
                 </div>
-              </div>
-            </div>
-          );
-        })}
-      </div>
+              </React.Fragment>
+            );
+          })}
+        </div>
+      )}
       
       {/* Footer / Completion Banner */}
       <div className="mt-8 pb-8">
-        {!isFinished ? (
+        {reviewAttempt && paper ? (
+          <div className="p-6 bg-white dark:bg-slate-800 rounded-2xl border border-gray-200 dark:border-slate-700 shadow-sm">
+            <div className="flex flex-wrap gap-3 justify-center mb-2">
+              <Button onClick={() => retakePaper(paper)} icon={<RefreshCcw size={18} />}>
+                Retake This Paper
+              </Button>
+              <Button variant="outline" onClick={resetExam} className="dark:text-slate-300 dark:border-slate-600 dark:hover:bg-slate-800" icon={<Home size={18} />}>
+                Back to Exam Menu
+              </Button>
+            </div>
+            {otherAttempts.length > 0 && (
+              <div className="mt-6 pt-4 border-t border-gray-100 dark:border-slate-700">
+                <p className="text-xs font-bold uppercase tracking-wider text-gray-500 dark:text-slate-400 mb-2">Compare with another attempt</p>
+                <ul className="divide-y divide-gray-100 dark:divide-slate-700">
+                  {otherAttempts.map(a => (
+                    <li key={a.id}>
+                      <button
+                        onClick={() => setCompareAttempt(a)}
+                        className="w-full flex items-center justify-between gap-4 py-2.5 text-sm text-left hover:text-indigo-600 dark:hover:text-indigo-400"
+                      >
+                        <span className="text-slate-700 dark:text-slate-300">{formatAttemptDate(a.completedAt)}</span>
+                        <span className="flex items-center gap-2 font-semibold text-slate-900 dark:text-white">
+                          {a.score} / {a.totalMarks} <GitCompare size={16} className="text-indigo-500" />
+                        </span>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        ) : isGrading ? (
+          <div className="p-8 bg-white dark:bg-slate-800 rounded-2xl text-center border border-gray-200 dark:border-slate-700">
+            <Loader2 className="animate-spin text-indigo-500 mx-auto mb-3" size={28} />
+            <p className="font-bold text-slate-900 dark:text-white">Grading your written answers...</p>
+          </div>
+        ) : pausedRemaining !== null ? null : !isFinished ? (
            <Button onClick={finishExam} className="w-full py-4 text-lg bg-indigo-600 hover:bg-indigo-700 shadow-xl shadow-indigo-200 dark:shadow-none">
              Finish & Submit Exam
            </Button>
@@ -535,10 +1354,26 @@ export const ExamMode: React.FC<ExamModeProps> = ({ language }) => {
               <h2 className="text-2xl font-bold">Exam Completed!</h2>
             </div>
             <p className="text-lg opacity-80 mb-6">You scored {getCurrentScore()} out of {totalMarks}</p>
+            {timedOut && (
+              <p className="text-sm text-amber-300 mb-4">Time ran out, so your exam was submitted automatically.</p>
+            )}
+            {gradingNote && (
+              <p className="text-sm text-amber-300 mb-4">{gradingNote}</p>
+            )}
             <div className="inline-flex items-center gap-2 px-4 py-2 bg-white/10 rounded-full text-sm text-indigo-100 mb-6">
               <Check size={14} /> Results saved successfully to history & analytics.
             </div>
-            <div className="block">
+            <div className="flex flex-wrap gap-3 justify-center">
+              {paper && (
+                <Button 
+                  onClick={() => retakePaper(paper)} 
+                  variant="secondary"
+                  className="bg-white/10 text-white hover:bg-white/20 border-none px-6"
+                  icon={<RefreshCcw size={18} />}
+                >
+                  Retake This Paper
+                </Button>
+              )}
               <Button 
                 onClick={resetExam} 
                 variant="secondary"
@@ -551,6 +1386,15 @@ export const ExamMode: React.FC<ExamModeProps> = ({ language }) => {
           </div>
         )}
       </div>
+
+      {showPrint && paper && (
+        <ExamPrintDialog
+          paper={paper}
+          timeLimitMinutes={reviewAttempt ? reviewAttempt.timeLimitMinutes : limitMinutes || undefined}
+          allowKey={isFinished || !!reviewAttempt}
+          onClose={() => setShowPrint(false)}
+        />
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import { ExamPaper } from '../types';
+import { buildExamHtml, examPrintFileName, printHtml, PrintDocument, AnswerSpace } from '../services/examPrintService';
+import { downloadBlob } from '../services/exportService';
+import { Button } from './Button';
+import { Printer, Download, X } from 'lucide-react';
+
+interface ExamPrintDialogProps {
+  paper: ExamPaper;
+  timeLimitMinutes?: number;
+  allowKey?: boolean; // Off while the exam is being sat, so only the questions can be printed
+  onClose: () => void;
+}
+
+const DOCUMENT_OPTIONS: { value: PrintDocument; label: string; hint: string }[] = [
+  { value: 'paper', label: 'Exam Paper', hint: 'Questions and answer space' },
+  { value: 'key', label: 'Answer Key', hint: 'Answers and explanations' },
+  { value: 'both', label: 'Both', hint: 'Key on a new page' }
+];
+
+const SPACE_OPTIONS: { value: AnswerSpace; label: string }[] = [
+  { value: 'lines', label: 'Ruled lines' },
+  { value: 'boxes', label: 'Answer boxes' }
+];
+
+export const ExamPrintDialog: React.FC<ExamPrintDialogProps> = ({ paper, timeLimitMinutes, allowKey = false, onClose }) => {
+  const documentOptions = allowKey ? DOCUMENT_OPTIONS : DOCUMENT_OPTIONS.filter(o => o.value === 'paper');
+  const [printDocument, setPrintDocument] = useState<PrintDocument>('paper');
+  const [answerSpace, setAnswerSpace] = useState<AnswerSpace>('lines');
+
+  const html = () => buildExamHtml(paper, { document: printDocument, answerSpace, timeLimitMinutes });
+
+  const handleDownload = () => {
+    downloadBlob(new Blob([html()], { type: 'text/html;charset=utf-8' }), examPrintFileName(paper, printDocument));
+    onClose();
+  };
+
+  const optionClass = (selected: boolean) => `p-3 rounded-xl border text-left transition-all ${
+    selected
+      ? 'bg-indigo-50 dark:bg-indigo-900/30 border-indigo-500 text-indigo-700 dark:text-indigo-300'
+      : 'border-gray-200 dark:border-slate-700 text-slate-700 dark:text-slate-300 hover:border-gray-300 dark:hover:border-slate-600'
+  }`;
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-end sm:items-center justify-center bg-slate-900/40 backdrop-blur-sm p-0 sm:p-4"
+      onClick={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+    >
+      <div className="bg-white dark:bg-slate-900 w-full max-w-lg rounded-t-3xl sm:rounded-3xl shadow-2xl animate-in slide-in-from-bottom duration-300 flex flex-col max-h-[85vh]">
+        <div className="p-6 border-b border-gray-100 dark:border-slate-800 flex items-center justify-between">
+          <div className="flex items-center gap-2 min-w-0">
+            <div className="p-2 bg-slate-900 dark:bg-slate-800 dark:border dark:border-slate-700 text-white dark:text-slate-200 rounded-lg"><Printer size={20} /></div>
+            <span className="font-bold text-slate-900 dark:text-white text-lg truncate">Print "{paper.title}"</span>
+          </div>
+          <button onClick={onClose} className="p-2 text-gray-400 hover:text-slate-900 dark:hover:text-white bg-gray-50 dark:bg-slate-800 rounded-full"><X size={20} /></button>
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-5">
+          <div>
+            <p className="text-sm font-bold text-slate-700 dark:text-slate-300 mb-2">Document</p>
+            <div className={`grid gap-2 ${documentOptions.length > 1 ? 'grid-cols-3' : 'grid-cols-1'}`}>
+              {documentOptions.map(({ value, label, hint }) => (
+                <button key={value} type="button" onClick={() => setPrintDocument(value)} className={optionClass(printDocument === value)}>
+                  <p className="text-sm font-semibold">{label}</p>
+                  <p className="text-[11px] text-gray-500 dark:text-slate-400">{hint}</p>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {printDocument !== 'key' && (
+            <div>
+              <p className="text-sm font-bold text-slate-700 dark:text-slate-300 mb-2">Written answers</p>
+              <div className="grid grid-cols-2 gap-2">
+                {SPACE_OPTIONS.map(({ value, label }) => (
+                  <button key={value} type="button" onClick={() => setAnswerSpace(value)} className={optionClass(answerSpace === value)}>
+                    <p className="text-sm font-semibold">{label}</p>
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <p className="text-sm text-gray-500 dark:text-slate-400">
+            {paper.items.length} questions, {paper.totalMarks} marks. To get a PDF, choose "Save as PDF" in the print dialog.
+          </p>
+
+          <div className="grid grid-cols-2 gap-2">
+            <Button variant="outline" onClick={handleDownload} className="py-3 dark:text-slate-300 dark:border-slate-600 dark:hover:bg-slate-800" icon={<Download size={18} />}>
+              Download HTML
+            </Button>
+            <Button onClick={() => printHtml(html())} className="py-3" icon={<Printer size={18} />}>
+              Print / PDF
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
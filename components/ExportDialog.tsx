@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { StudySession } from '../types';
+import { exportSessions, exportFileName, downloadBlob, countExportNotes, ExportFormat, QuizNoteStyle } from '../services/exportService';
+import { Button } from './Button';
+import { Download, X } from 'lucide-react';
+
+interface ExportDialogProps {
+  sessions: StudySession[];
+  onClose: () => void;
+}
+
+const FORMAT_OPTIONS: { value: ExportFormat; label: string; hint: string }[] = [
+  { value: 'apkg', label: 'Anki Package', hint: '.apkg, opens straight into Anki' },
+  { value: 'csv', label: 'CSV', hint: 'Anki import, spreadsheets' },
+  { value: 'tsv', label: 'TSV', hint: 'Tab-separated, Anki import' }
+];
+
+const QUIZ_OPTIONS: { value: QuizNoteStyle; label: string }[] = [
+  { value: 'none', label: 'Flashcards only' },
+  { value: 'basic', label: 'Quiz as Q&A' },
+  { value: 'cloze', label: 'Quiz as cloze' }
+];
+
+export const ExportDialog: React.FC<ExportDialogProps> = ({ sessions, onClose }) => {
+  const [format, setFormat] = useState<ExportFormat>('apkg');
+  const [quizStyle, setQuizStyle] = useState<QuizNoteStyle>('none');
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const noteCount = countExportNotes(sessions, quizStyle);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setError(null);
+    try {
+      const blob = await exportSessions(sessions, { format, quizStyle });
+      downloadBlob(blob, exportFileName(sessions, format));
+      onClose();
+    } catch (e: any) {
+      setError(e.message || "Export failed. Please try again.");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const optionClass = (selected: boolean) => `p-3 rounded-xl border text-left transition-all ${
+    selected
+      ? 'bg-indigo-50 dark:bg-indigo-900/30 border-indigo-500 text-indigo-700 dark:text-indigo-300'
+      : 'border-gray-200 dark:border-slate-700 text-slate-700 dark:text-slate-300 hover:border-gray-300 dark:hover:border-slate-600'
+  }`;
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-end sm:items-center justify-center bg-slate-900/40 backdrop-blur-sm p-0 sm:p-4"
+      onClick={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+    >
+      <div className="bg-white dark:bg-slate-900 w-full max-w-lg rounded-t-3xl sm:rounded-3xl shadow-2xl animate-in slide-in-from-bottom duration-300 flex flex-col max-h-[85vh]">
+        <div className="p-6 border-b border-gray-100 dark:border-slate-800 flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <div className="p-2 bg-slate-900 dark:bg-slate-800 dark:border dark:border-slate-700 text-white dark:text-slate-200 rounded-lg"><Download size={20} /></div>
+            <span className="font-bold text-slate-900 dark:text-white text-lg">
+              Export {sessions.length === 1 ? `"${sessions[0].title}"` : `${sessions.length} sessions`}
+            </span>
+          </div>
+          <button onClick={onClose} className="p-2 text-gray-400 hover:text-slate-900 dark:hover:text-white bg-gray-50 dark:bg-slate-800 rounded-full"><X size={20} /></button>
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-5">
+          <div>
+            <p className="text-sm font-bold text-slate-700 dark:text-slate-300 mb-2">Format</p>
+            <div className="grid grid-cols-3 gap-2">
+              {FORMAT_OPTIONS.map(({ value, label, hint }) => (
+                <button key={value} type="button" onClick={() => setFormat(value)} className={optionClass(format === value)}>
+                  <p className="text-sm font-semibold">{label}</p>
+                  <p className="text-[11px] text-gray-500 dark:text-slate-400">{hint}</p>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <p className="text-sm font-bold text-slate-700 dark:text-slate-300 mb-2">Include</p>
+            <div className="grid grid-cols-3 gap-2">
+              {QUIZ_OPTIONS.map(({ value, label }) => (
+                <button key={value} type="button" onClick={() => setQuizStyle(value)} className={optionClass(quizStyle === value)}>
+                  <p className="text-sm font-semibold">{label}</p>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <p className="text-sm text-gray-500 dark:text-slate-400">
+            {noteCount} note{noteCount === 1 ? '' : 's'}, tagged with the session title and topic keywords.
+          </p>
+
+          {error && (
+            <p className="text-sm text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/20 p-3 rounded-xl">{error}</p>
+          )}
+
+          <Button onClick={handleExport} isLoading={isExporting} disabled={noteCount === 0} className="w-full py-3" icon={<Download size={18} />}>
+            Download
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
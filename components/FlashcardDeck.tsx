@@ -0,0 +1,219 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { Flashcard } from '../types';
+import { parseFlashcards, shuffleCards } from '../services/flashcardService';
+import { MarkdownRenderer } from './MarkdownRenderer';
+import { Button } from './Button';
+import { ChevronLeft, ChevronRight, Shuffle, RotateCcw, Check, X, Tag, BookOpen, Keyboard } from 'lucide-react';
+
+interface FlashcardDeckProps {
+  content: string; // JSON Flashcard[] or a legacy Markdown list
+  isDark?: boolean;
+}
+
+type CardMark = 'known' | 'unknown';
+
+export const FlashcardDeck: React.FC<FlashcardDeckProps> = ({ content, isDark }) => {
+  const cards = useMemo(() => parseFlashcards(content), [content]);
+
+  const [order, setOrder] = useState<Flashcard[]>([]);
+  const [position, setPosition] = useState(0);
+  const [flipped, setFlipped] = useState(false);
+  const [marks, setMarks] = useState<{ [cardId: number]: CardMark }>({});
+
+  const shownCards = useRef<Flashcard[]>([]);
+
+  // A new deck (or a regenerated one) starts from the top. Cards still streaming in are
+  // added to the end, so the student can start on the first ones without losing their place.
+  useEffect(() => {
+    const previous = shownCards.current;
+    shownCards.current = cards;
+    const grew = previous.length > 0 && cards.length > previous.length
+      && previous.every((c, i) => c.id === cards[i].id && c.front === cards[i].front && c.back === cards[i].back);
+    if (grew) {
+      setOrder(current => [...current, ...cards.slice(previous.length)]);
+      return;
+    }
+    setOrder(cards);
+    setPosition(0);
+    setFlipped(false);
+    setMarks({});
+  }, [cards]);
+
+  const card = order[position];
+  const markedCount = order.filter(c => marks[c.id]).length;
+  const knownCount = order.filter(c => marks[c.id] === 'known').length;
+  const isComplete = order.length > 0 && markedCount === order.length;
+
+  const goTo = (index: number) => {
+    if (index < 0 || index >= order.length) return;
+    setPosition(index);
+    setFlipped(false);
+  };
+
+  // Moves on to the next card still unmarked, wrapping round to any that were skipped
+  const mark = (value: CardMark) => {
+    if (!card) return;
+    const next = { ...marks, [card.id]: value };
+    setMarks(next);
+    const ahead = order.findIndex((c, i) => i > position && !next[c.id]);
+    const skipped = order.findIndex(c => !next[c.id]);
+    goTo(ahead !== -1 ? ahead : skipped !== -1 ? skipped : position);
+  };
+
+  const restart = (deck: Flashcard[]) => {
+    setOrder(deck);
+    setPosition(0);
+    setFlipped(false);
+    setMarks({});
+  };
+
+  // Keyboard: arrows to move, space/enter to flip, K / D to mark
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName) || target.isContentEditable) return;
+      // A focused button already handles its own Space/Enter
+      if (target.tagName === 'BUTTON' && (e.key === ' ' || e.key === 'Enter')) return;
+
+      if (e.key === 'ArrowRight') goTo(position + 1);
+      else if (e.key === 'ArrowLeft') goTo(position - 1);
+      else if (e.key === ' ' || e.key === 'Enter') setFlipped(f => !f);
+      else if (e.key.toLowerCase() === 'k') mark('known');
+      else if (e.key.toLowerCase() === 'd') mark('unknown');
+      else return;
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  });
+
+  // Nothing recognisable as a card: show the content as it was saved
+  if (cards.length === 0) return <MarkdownRenderer content={content} isDark={isDark} />;
+  if (!card && !isComplete) return <div className="p-8 text-center animate-pulse">Loading Flashcards...</div>;
+
+  return (
+    <div className="space-y-5">
+      {/* Progress */}
+      <div>
+        <div className="flex justify-between text-xs font-semibold text-gray-500 dark:text-slate-400 mb-1.5">
+          <span>{isComplete ? 'Deck complete' : `Card ${position + 1} of ${order.length}`}</span>
+          <span>
+            <span className="text-emerald-600 dark:text-emerald-400">{knownCount} known</span>
+            {' · '}
+            <span className="text-red-500 dark:text-red-400">{markedCount - knownCount} to review</span>
+          </span>
+        </div>
+        <div className="h-2 bg-gray-100 dark:bg-slate-700 rounded-full overflow-hidden">
+          <div
+            className="h-full bg-indigo-500 transition-all duration-300"
+            style={{ width: `${(markedCount / order.length) * 100}%` }}
+          />
+        </div>
+      </div>
+
+      {isComplete ? (
+        <div className="p-8 bg-gray-50 dark:bg-slate-900/50 rounded-2xl text-center border border-gray-100 dark:border-slate-700">
+          <h3 className="text-xl font-bold text-slate-900 dark:text-white mb-1">
+            You knew {knownCount} of {order.length}
+          </h3>
+          <p className="text-sm text-gray-500 dark:text-slate-400 mb-6">
+            {knownCount === order.length ? 'Every card, nice work.' : 'Go again on the ones you missed while they are fresh.'}
+          </p>
+          <div className="flex flex-wrap justify-center gap-3">
+            {knownCount < order.length && (
+              <Button onClick={() => restart(order.filter(c => marks[c.id] === 'unknown'))} icon={<RotateCcw size={16} />}>
+                Review Missed
+              </Button>
+            )}
+            <Button variant="outline" onClick={() => restart(cards)} className="dark:text-slate-300 dark:border-slate-600 dark:hover:bg-slate-700">
+              Start Over
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <>
+          {/* Card */}
+          <div className="[perspective:1200px]">
+            <button
+              type="button"
+              onClick={() => setFlipped(f => !f)}
+              className={`relative w-full h-64 transition-transform duration-500 [transform-style:preserve-3d] ${flipped ? '[transform:rotateY(180deg)]' : ''}`}
+            >
+              <div className="absolute inset-0 [backface-visibility:hidden] flex flex-col items-center justify-center p-6 rounded-2xl border border-gray-200 dark:border-slate-600 bg-white dark:bg-slate-800 shadow-sm">
+                <span className="text-[10px] font-bold uppercase tracking-wider text-gray-400 mb-3">Front</span>
+                <p className="text-xl font-bold text-slate-900 dark:text-white text-center">{card.front}</p>
+                <span className="absolute bottom-4 text-xs text-gray-400">Click or press Space to flip</span>
+              </div>
+              <div className="absolute inset-0 [backface-visibility:hidden] [transform:rotateY(180deg)] flex flex-col items-center justify-center p-6 rounded-2xl border border-indigo-200 dark:border-indigo-800 bg-indigo-50 dark:bg-indigo-900/20 shadow-sm overflow-y-auto">
+                <span className="text-[10px] font-bold uppercase tracking-wider text-indigo-400 mb-3">Back</span>
+                <p className="text-base text-slate-800 dark:text-slate-200 text-center leading-relaxed">{card.back}</p>
+                {card.source && (
+                  <span className="mt-4 flex items-center gap-1 text-xs text-indigo-500 dark:text-indigo-300">
+                    <BookOpen size={12} /> {card.source}
+                  </span>
+                )}
+              </div>
+            </button>
+          </div>
+
+          {card.tags.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {card.tags.map(tag => (
+                <span key={tag} className="flex items-center gap-1 text-[10px] font-bold uppercase tracking-wide px-2 py-0.5 rounded bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300">
+                  <Tag size={10} /> {tag}
+                </span>
+              ))}
+            </div>
+          )}
+
+          {/* Controls */}
+          <div className="flex items-center gap-3">
+            <button
+              onClick={() => goTo(position - 1)}
+              disabled={position === 0}
+              className="p-2.5 rounded-xl border border-gray-200 dark:border-slate-600 text-slate-600 dark:text-slate-300 hover:bg-gray-50 dark:hover:bg-slate-700 disabled:opacity-30"
+              title="Previous (←)"
+            >
+              <ChevronLeft size={18} />
+            </button>
+            <Button
+              variant="outline"
+              onClick={() => mark('unknown')}
+              className="flex-1 border-red-200 dark:border-red-900/50 text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20"
+              icon={<X size={16} />}
+            >
+              Didn't Know
+            </Button>
+            <Button
+              onClick={() => mark('known')}
+              className="flex-1 bg-emerald-600 hover:bg-emerald-700"
+              icon={<Check size={16} />}
+            >
+              Knew It
+            </Button>
+            <button
+              onClick={() => goTo(position + 1)}
+              disabled={position === order.length - 1}
+              className="p-2.5 rounded-xl border border-gray-200 dark:border-slate-600 text-slate-600 dark:text-slate-300 hover:bg-gray-50 dark:hover:bg-slate-700 disabled:opacity-30"
+              title="Next (→)"
+            >
+              <ChevronRight size={18} />
+            </button>
+          </div>
+
+          <div className="flex justify-between items-center text-xs text-gray-400 dark:text-slate-500">
+            <span className="hidden sm:flex items-center gap-1">
+              <Keyboard size={12} /> ← → move · Space flip · K knew it · D didn't
+            </span>
+            <button
+              onClick={() => restart(shuffleCards(cards))}
+              className="ml-auto flex items-center gap-1 font-semibold text-indigo-600 dark:text-indigo-400 hover:underline"
+            >
+              <Shuffle size={12} /> Shuffle
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
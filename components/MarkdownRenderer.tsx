@@ -1,7 +1,32 @@
-import React from 'react';
+import React, { useMemo } from 'react';
 import ReactMarkdown from 'react-markdown';
+import { Citation, StudyFile } from '../types';
+import { parseCitations, citationLabel, CITATION_LINK_PREFIX } from '../services/citationService';
+
+interface MarkdownRendererProps {
+  content: string;
+  isDark?: boolean;
+  files?: StudyFile[]; // The session's attachments, to name cited sources
+  onCitationClick?: (citation: Citation) => void; // Without it citation markers are shown but not clickable
+}
+
+export const MarkdownRenderer: React.FC<MarkdownRendererProps> = ({ content, isDark = false, files, onCitationClick }) => {
+  const { markdown, citations } = useMemo(() => parseCitations(content), [content]);
+
+  const renderCitation = (index: number) => {
+    const citation = citations[index];
+    if (!citation) return null;
+    const title = `${citationLabel(citation, files)}: “${citation.quote}”`;
+    const markerClass = `inline-flex items-center justify-center min-w-[1.25rem] h-5 px-1 rounded text-[10px] font-bold no-underline align-super ${isDark ? 'bg-slate-700 text-indigo-300' : 'bg-indigo-50 text-indigo-600'}`;
+    return onCitationClick ? (
+      <button type="button" onClick={() => onCitationClick(citation)} title={title} className={`${markerClass} hover:ring-1 hover:ring-indigo-400`}>
+        {index + 1}
+      </button>
+    ) : (
+      <span title={title} className={markerClass}>{index + 1}</span>
+    );
+  };
 
-export const MarkdownRenderer: React.FC<{ content: string; isDark?: boolean }> = ({ content, isDark = false }) => {
   return (
     <div className={`prose prose-sm md:prose-base max-w-none ${isDark ? 'prose-invert' : 'prose-slate'}`}>
       <ReactMarkdown
@@ -17,10 +42,13 @@ export const MarkdownRenderer: React.FC<{ content: string; isDark?: boolean }> =
           blockquote: ({node, ...props}) => <blockquote className={`border-l-4 pl-4 italic my-4 ${isDark ? 'border-indigo-500 text-slate-400' : 'border-indigo-200 text-slate-600'}`} {...props} />,
           code: ({node, ...props}) => <code className={`px-1 py-0.5 rounded text-sm font-mono ${isDark ? 'bg-slate-800 text-indigo-300' : 'bg-slate-100 text-indigo-600'}`} {...props} />,
           hr: ({node, ...props}) => <hr className={`my-6 ${isDark ? 'border-slate-700' : 'border-slate-200'}`} {...props} />,
+          a: ({node, href, ...props}) => href?.startsWith(CITATION_LINK_PREFIX)
+            ? renderCitation(parseInt(href.slice(CITATION_LINK_PREFIX.length), 10))
+            : <a href={href} {...props} />,
         }}
       >
-        {content}
+        {markdown}
       </ReactMarkdown>
     </div>
   );
-};
\ No newline at end of file
+};
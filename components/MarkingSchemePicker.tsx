@@ -0,0 +1,105 @@
+import React from 'react';
+import { MarkingScheme, MarkingRule, ExamSection } from '../types';
+import { MARKING_PRESETS } from '../constants';
+
+interface MarkingSchemePickerProps {
+  scheme: MarkingScheme;
+  sections?: ExamSection[]; // Blueprint sections, which can have their own rules
+  onChange: (scheme: MarkingScheme) => void;
+}
+
+const PENALTY_OPTIONS = [
+  { value: 0, label: 'No penalty' },
+  { value: 0.25, label: '-1/4 of the marks' },
+  { value: 1 / 3, label: '-1/3 of the marks' },
+  { value: 0.5, label: '-1/2 of the marks' },
+  { value: 1, label: '-All of the marks' }
+];
+
+const selectClass = "w-full p-2 rounded-lg border border-gray-300 dark:border-slate-600 bg-white dark:bg-slate-800 text-sm text-slate-900 dark:text-white outline-none focus:ring-2 focus:ring-indigo-500";
+
+export const describeRule = (rule: MarkingRule) => {
+  const penalty = PENALTY_OPTIONS.find(o => o.value > 0 && Math.abs(o.value - rule.wrongPenalty) < 1e-6);
+  return [
+    penalty ? `${penalty.label} for wrong answers` : rule.wrongPenalty > 0 ? `-${Math.round(rule.wrongPenalty * 100)}% for wrong answers` : 'No negative marking',
+    rule.multiSelect === 'all_or_nothing' ? 'all-or-nothing multi-select' : ''
+  ].filter(Boolean).join(', ');
+};
+
+const RuleFields: React.FC<{ rule: MarkingRule; onChange: (rule: MarkingRule) => void }> = ({ rule, onChange }) => (
+  <div className="grid grid-cols-2 gap-2">
+    <select
+      value={PENALTY_OPTIONS.findIndex(o => Math.abs(o.value - rule.wrongPenalty) < 1e-6)}
+      onChange={(e) => onChange({ ...rule, wrongPenalty: PENALTY_OPTIONS[parseInt(e.target.value)].value })}
+      className={selectClass}
+      title="Wrong mcq, true/false and multi-select answers"
+    >
+      {PENALTY_OPTIONS.map((option, i) => <option key={option.label} value={i}>{option.label}</option>)}
+    </select>
+    <select
+      value={rule.multiSelect}
+      onChange={(e) => onChange({ ...rule, multiSelect: e.target.value as MarkingRule['multiSelect'] })}
+      className={selectClass}
+      title="Multi-select questions"
+    >
+      <option value="partial">Multi-select: partial credit</option>
+      <option value="all_or_nothing">Multi-select: all or nothing</option>
+    </select>
+  </div>
+);
+
+export const MarkingSchemePicker: React.FC<MarkingSchemePickerProps> = ({ scheme, sections = [], onChange }) => {
+  const perSection = !!scheme.sectionRules;
+
+  const togglePerSection = (enabled: boolean) => onChange({
+    ...scheme,
+    name: 'Custom',
+    sectionRules: enabled ? Object.fromEntries(sections.map(s => [s.id, scheme.rule])) : undefined
+  });
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-3 gap-2">
+        {MARKING_PRESETS.map(preset => (
+          <button
+            key={preset.name}
+            type="button"
+            onClick={() => onChange(preset)}
+            className={`p-3 rounded-xl border text-left transition-all ${
+              scheme.name === preset.name
+                ? 'bg-indigo-50 dark:bg-indigo-900/30 border-indigo-500 text-indigo-700 dark:text-indigo-300'
+                : 'border-gray-200 dark:border-slate-700 text-slate-700 dark:text-slate-300 hover:border-gray-300 dark:hover:border-slate-600'
+            }`}
+          >
+            <p className="text-sm font-semibold">{preset.name}</p>
+            <p className="text-[11px] text-gray-500 dark:text-slate-400">{describeRule(preset.rule)}</p>
+          </button>
+        ))}
+      </div>
+
+      {perSection ? (
+        <div className="space-y-2">
+          {sections.map(section => (
+            <div key={section.id}>
+              <p className="text-xs font-semibold text-gray-500 dark:text-slate-400 mb-1">Section {section.id}: {section.title}</p>
+              <RuleFields
+                rule={scheme.sectionRules?.[section.id] || scheme.rule}
+                onChange={(rule) => onChange({ ...scheme, name: 'Custom', sectionRules: { ...scheme.sectionRules, [section.id]: rule } })}
+              />
+            </div>
+          ))}
+        </div>
+      ) : (
+        <RuleFields rule={scheme.rule} onChange={(rule) => onChange({ name: 'Custom', rule })} />
+      )}
+
+      {sections.length > 1 && (
+        <label className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300 cursor-pointer">
+          <input type="checkbox" checked={perSection} onChange={(e) => togglePerSection(e.target.checked)} className="w-4 h-4 accent-indigo-600" />
+          Different rules for each section
+        </label>
+      )}
+      <p className="text-xs text-gray-500 dark:text-slate-400">Penalties apply to wrong mcq, true/false and multi-select answers. Unattempted questions score zero.</p>
+    </div>
+  );
+};
@@ -0,0 +1,190 @@
+import React, { useState, useEffect } from 'react';
+import { Mistake, QuizItem, GradeSummary } from '../types';
+import { getMistakes, deleteMistake } from '../services/storageService';
+import { groupMistakes, recordAttempts, MISTAKE_RETIRE_AFTER, MistakeAttempt } from '../services/mistakeService';
+import { answerText, isAnswered, AnswerSheet } from '../services/gradingService';
+import { QuizRunner } from './QuizRunner';
+import { Button } from './Button';
+import { NotebookPen, Loader2, CheckCircle, RotateCcw, ArrowLeft, Trash2, GraduationCap, HelpCircle } from 'lucide-react';
+
+interface MistakeNotebookProps {
+  isDark?: boolean;
+}
+
+interface RetryRound {
+  title: string;
+  mistakes: Mistake[];
+}
+
+export const MistakeNotebook: React.FC<MistakeNotebookProps> = ({ isDark }) => {
+  const [mistakes, setMistakes] = useState<Mistake[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [retry, setRetry] = useState<RetryRound | null>(null);
+
+  useEffect(() => {
+    loadMistakes();
+  }, []);
+
+  const loadMistakes = async () => {
+    setLoading(true);
+    setMistakes(await getMistakes());
+    setLoading(false);
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm('Remove this question from your mistake notebook?')) return;
+    await deleteMistake(id);
+    setMistakes(prev => prev.filter(m => m.id !== id));
+  };
+
+  // Retry questions are numbered by their position in the round
+  const handleRetryGraded = (questions: QuizItem[], summary: GradeSummary, answers: AnswerSheet) => {
+    if (!retry) return;
+    const attempts: MistakeAttempt[] = questions.map((question, i) => {
+      const mistake = retry.mistakes[question.id - 1];
+      return {
+        source: { sessionId: mistake.sessionId, topic: mistake.topic, origin: mistake.origin },
+        question,
+        answer: answers[question.id],
+        status: summary.results[i]?.status || 'unanswered'
+      };
+    });
+    recordAttempts(attempts);
+  };
+
+  const closeRetry = () => {
+    setRetry(null);
+    loadMistakes();
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <Loader2 className="animate-spin text-indigo-500" size={32} />
+      </div>
+    );
+  }
+
+  if (retry) {
+    const content = JSON.stringify(retry.mistakes.map((m, i) => ({ ...m.question, id: i + 1 })));
+    return (
+      <div className="max-w-3xl mx-auto pb-12">
+        <div className="flex items-center justify-between mb-6">
+          <button onClick={closeRetry} className="flex items-center gap-1 text-sm font-semibold text-gray-500 dark:text-slate-400 hover:text-slate-900 dark:hover:text-white">
+            <ArrowLeft size={16} /> Back to notebook
+          </button>
+          <span className="text-sm font-semibold text-slate-700 dark:text-slate-300 truncate">{retry.title}</span>
+        </div>
+        <QuizRunner content={content} title={`Mistakes: ${retry.title}`} isDark={isDark} onGraded={handleRetryGraded} />
+      </div>
+    );
+  }
+
+  const groups = groupMistakes(mistakes);
+  const activeCount = groups.reduce((sum, g) => sum + g.mistakes.length, 0);
+  const retiredCount = mistakes.length - activeCount;
+
+  return (
+    <div className="max-w-4xl mx-auto pb-12">
+      <div className="mb-8 text-center">
+        <div className="inline-flex items-center justify-center p-3 bg-indigo-100 dark:bg-indigo-900/30 text-indigo-600 dark:text-indigo-400 rounded-full mb-4">
+          <NotebookPen size={32} />
+        </div>
+        <h1 className="text-3xl font-bold text-slate-900 dark:text-white mb-2">Mistake Notebook</h1>
+        <p className="text-gray-600 dark:text-slate-400 max-w-lg mx-auto">
+          Questions you missed in quizzes and exams. Answer one correctly {MISTAKE_RETIRE_AFTER} times in a row to retire it.
+        </p>
+      </div>
+
+      {activeCount === 0 ? (
+        <div className="p-8 bg-white dark:bg-slate-800 rounded-2xl text-center border border-gray-200 dark:border-slate-700 shadow-sm">
+          <CheckCircle className="text-green-500 mx-auto mb-3" size={36} />
+          <h2 className="text-xl font-bold text-slate-900 dark:text-white mb-1">Nothing to fix</h2>
+          <p className="text-gray-500 dark:text-slate-400">
+            {retiredCount > 0
+              ? `You've retired ${retiredCount} mistake${retiredCount === 1 ? '' : 's'}. New ones from quizzes and exams will show up here.`
+              : 'Wrong or skipped answers from your quizzes and exams will show up here.'}
+          </p>
+        </div>
+      ) : (
+        <>
+          <div className="flex items-center justify-between gap-4 mb-6">
+            <p className="text-sm text-gray-500 dark:text-slate-400">
+              {activeCount} to fix{retiredCount > 0 ? ` · ${retiredCount} retired` : ''}
+            </p>
+            <Button size="sm" onClick={() => setRetry({ title: 'All topics', mistakes: groups.flatMap(g => g.mistakes) })} icon={<RotateCcw size={16} />}>
+              Retry All
+            </Button>
+          </div>
+
+          <div className="space-y-6">
+            {groups.map(group => (
+              <div key={group.topic} className="bg-white dark:bg-slate-800 rounded-2xl border border-gray-200 dark:border-slate-700 shadow-sm overflow-hidden">
+                <div className="p-4 border-b border-gray-100 dark:border-slate-700 flex items-center justify-between gap-4">
+                  <div className="min-w-0">
+                    <h2 className="font-bold text-slate-900 dark:text-white truncate">{group.topic}</h2>
+                    <p className="text-xs text-gray-500 dark:text-slate-400">{group.mistakes.length} question{group.mistakes.length === 1 ? '' : 's'}</p>
+                  </div>
+                  <button
+                    onClick={() => setRetry({ title: group.topic, mistakes: group.mistakes })}
+                    className="flex items-center gap-1 text-sm font-semibold text-indigo-600 dark:text-indigo-400 hover:underline whitespace-nowrap"
+                  >
+                    <RotateCcw size={14} /> Retry
+                  </button>
+                </div>
+
+                <ul className="divide-y divide-gray-100 dark:divide-slate-700">
+                  {group.mistakes.map(m => (
+                    <li key={m.id} className="group p-4">
+                      <div className="flex justify-between items-start gap-4">
+                        <p className="font-medium text-slate-900 dark:text-white leading-relaxed">{m.question.question}</p>
+                        <div className="flex items-center gap-2 flex-shrink-0">
+                          <span className="flex items-center gap-1 text-[10px] font-bold uppercase tracking-wide px-2 py-0.5 rounded bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300">
+                            {m.origin === 'exam' ? <GraduationCap size={12} /> : <HelpCircle size={12} />} {m.origin}
+                          </span>
+                          <button
+                            onClick={() => handleDelete(m.id)}
+                            className="p-1 text-gray-400 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-opacity"
+                            title="Remove"
+                          >
+                            <Trash2 size={16} />
+                          </button>
+                        </div>
+                      </div>
+
+                      <div className="mt-3 space-y-1 text-sm">
+                        <p>
+                          <span className="font-bold text-slate-700 dark:text-slate-300">Your answer: </span>
+                          {isAnswered(m.userAnswer)
+                            ? <span className="text-red-600 dark:text-red-400">{answerText(m.userAnswer)}</span>
+                            : <span className="text-amber-600 dark:text-amber-400">Not attempted</span>}
+                        </p>
+                        <p>
+                          <span className="font-bold text-slate-700 dark:text-slate-300">Correct answer: </span>
+                          <span className="text-green-600 dark:text-green-400">{m.question.correctAnswer}</span>
+                        </p>
+                      </div>
+
+                      {m.question.explanation && (
+                        <div className="mt-3 p-3 bg-indigo-50 dark:bg-indigo-900/20 rounded-lg text-sm text-indigo-700 dark:text-indigo-300 border border-indigo-100 dark:border-indigo-800/50">
+                          <span className="font-bold">Explanation: </span>
+                          {m.question.explanation}
+                        </div>
+                      )}
+
+                      {m.correctStreak > 0 && (
+                        <p className="mt-2 text-xs font-semibold text-emerald-600 dark:text-emerald-400">
+                          {m.correctStreak} / {MISTAKE_RETIRE_AFTER} correct in a row
+                        </p>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -3,7 +3,7 @@ import { MOCK_USER } from '../constants';
 import { Button } from './Button';
 import { User, Shield, Zap, Check, Flame, Trophy, Clock, BookOpen, Brain, TrendingUp, Activity, Target, BarChart2, Calendar, FileText, Calculator, Loader2, LogIn, AlertTriangle } from 'lucide-react';
 import { getUserStats } from '../services/storageService';
-import { generateProgressInsights } from '../services/geminiService';
+import { generateProgressInsights, isAbortError } from '../services/geminiService';
 import { UserStats } from '../types';
 import { supabase } from '../services/supabase';
 
@@ -28,6 +28,10 @@ const EMPTY_STATS: UserStats = {
   totalQuizQuestions: 0,
   totalQuizCorrect: 0,
   totalQuizzesTaken: 0,
+  quizAccuracyByDifficulty: {},
+  quizAccuracyByLevel: {},
+  accuracyByQuestionType: {},
+  weakestTopics: [],
   totalExamsTaken: 0,
   examAverageAccuracy: 0,
   examAverageScore: 0,
@@ -35,6 +39,18 @@ const EMPTY_STATS: UserStats = {
   topTopics: []
 };
 
+const QUESTION_TYPE_LABELS: Record<string, string> = {
+  mcq: 'Multiple Choice',
+  true_false: 'True / False',
+  multi_select: 'Multi-Select',
+  matching: 'Matching',
+  ordering: 'Ordering',
+  numeric: 'Numeric',
+  fill_blank: 'Fill in the Blank',
+  short_answer: 'Short Answer',
+  long_answer: 'Long Answer'
+};
+
 export const Profile: React.FC<ProfileProps> = ({ user, onAuthRequest }) => {
   const [stats, setStats] = useState<UserStats | null>(null);
   const [insights, setInsights] = useState<string>('');
@@ -49,6 +65,7 @@ export const Profile: React.FC<ProfileProps> = ({ user, onAuthRequest }) => {
     }
 
     setUserEmail(user.email);
+    const controller = new AbortController();
 
     const loadData = async () => {
       try {
@@ -58,9 +75,9 @@ export const Profile: React.FC<ProfileProps> = ({ user, onAuthRequest }) => {
         // Generate insights if we have data
         if (data && data.totalSessions > 0) {
           setLoadingInsights(true);
-          generateProgressInsights(data)
+          generateProgressInsights(data, { signal: controller.signal })
             .then(text => setInsights(text))
-            .catch(err => console.error(err))
+            .catch(err => { if (!isAbortError(err)) console.error(err); })
             .finally(() => setLoadingInsights(false));
         }
       } catch (e) {
@@ -70,6 +87,7 @@ export const Profile: React.FC<ProfileProps> = ({ user, onAuthRequest }) => {
     };
     
     loadData();
+    return () => controller.abort();
   }, [user]);
 
   const formatTime = (minutes: number) => {
@@ -246,6 +264,33 @@ export const Profile: React.FC<ProfileProps> = ({ user, onAuthRequest }) => {
                   <p className="text-lg font-semibold text-emerald-600 dark:text-emerald-400">{stats.totalQuizCorrect}</p>
                </div>
             </div>
+
+            {(Object.keys(stats.quizAccuracyByDifficulty).length > 0 || Object.keys(stats.quizAccuracyByLevel).length > 0) && (
+              <div className="mt-4 pt-4 border-t border-gray-50 dark:border-slate-700 space-y-4">
+                {[
+                  { label: 'By Difficulty', values: stats.quizAccuracyByDifficulty, order: ['easy', 'medium', 'hard'] },
+                  { label: 'By Cognitive Level', values: stats.quizAccuracyByLevel, order: ['recall', 'application', 'analysis'] }
+                ].map(group => (
+                  <div key={group.label}>
+                    <p className="text-xs text-gray-500 dark:text-slate-400 uppercase font-bold tracking-wide mb-2">{group.label}</p>
+                    <div className="space-y-1.5">
+                      {group.order.filter(key => (group.values as Record<string, number>)[key] !== undefined).map(key => {
+                        const accuracy = (group.values as Record<string, number>)[key];
+                        return (
+                          <div key={key} className="flex items-center gap-3 text-sm">
+                            <span className="w-24 capitalize text-slate-700 dark:text-slate-300">{key}</span>
+                            <div className="flex-1 bg-gray-100 dark:bg-slate-700 rounded-full h-1.5">
+                              <div className="bg-emerald-500 h-1.5 rounded-full" style={{ width: `${accuracy}%` }}></div>
+                            </div>
+                            <span className="w-10 text-right font-semibold text-slate-800 dark:text-white">{accuracy}%</span>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
          </div>
 
          {/* Exam Analytics Section */}
@@ -293,6 +338,53 @@ export const Profile: React.FC<ProfileProps> = ({ user, onAuthRequest }) => {
          </div>
       </div>
          
+      {/* Per-question analytics: where answers go wrong */}
+      {Object.keys(stats.accuracyByQuestionType).length > 0 && (
+        <div className="bg-white dark:bg-slate-800 p-6 rounded-xl border border-gray-100 dark:border-slate-700 shadow-sm mb-8">
+          <div className="flex items-center gap-3 mb-6">
+            <div className="p-2 bg-amber-50 dark:bg-amber-900/20 text-amber-600 dark:text-amber-400 rounded-lg">
+              <BarChart2 size={20} />
+            </div>
+            <h3 className="font-bold text-slate-900 dark:text-white">Question Insights</h3>
+          </div>
+
+          <div className="grid md:grid-cols-2 gap-8">
+            <div>
+              <p className="text-xs text-gray-500 dark:text-slate-400 uppercase font-bold tracking-wide mb-2">By Question Type</p>
+              <div className="space-y-1.5">
+                {Object.keys(QUESTION_TYPE_LABELS).filter(type => (stats.accuracyByQuestionType as Record<string, number>)[type] !== undefined).map(type => {
+                  const accuracy = (stats.accuracyByQuestionType as Record<string, number>)[type];
+                  return (
+                    <div key={type} className="flex items-center gap-3 text-sm">
+                      <span className="w-32 text-slate-700 dark:text-slate-300">{QUESTION_TYPE_LABELS[type]}</span>
+                      <div className="flex-1 bg-gray-100 dark:bg-slate-700 rounded-full h-1.5">
+                        <div className="bg-amber-500 h-1.5 rounded-full" style={{ width: `${accuracy}%` }}></div>
+                      </div>
+                      <span className="w-10 text-right font-semibold text-slate-800 dark:text-white">{accuracy}%</span>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+
+            <div>
+              <p className="text-xs text-gray-500 dark:text-slate-400 uppercase font-bold tracking-wide mb-2">Weakest Topics</p>
+              <ul className="divide-y divide-gray-50 dark:divide-slate-700">
+                {stats.weakestTopics.map(({ topic, attempted, accuracy }) => (
+                  <li key={topic} className="flex items-center justify-between gap-3 py-1.5 text-sm">
+                    <span className="text-slate-700 dark:text-slate-300 truncate">{topic}</span>
+                    <span className="whitespace-nowrap">
+                      <span className="font-semibold text-slate-800 dark:text-white">{accuracy}%</span>
+                      <span className="text-xs text-gray-400 dark:text-slate-500"> of {attempted}</span>
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* AI Insights Section */}
       <div className="bg-gradient-to-r from-indigo-50 to-white dark:from-slate-800 dark:to-slate-900 rounded-2xl border border-indigo-100 dark:border-slate-700 p-6 relative overflow-hidden flex flex-col mb-8">
         <div className="flex items-center gap-3 mb-4">
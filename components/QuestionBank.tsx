@@ -0,0 +1,164 @@
+import React, { useState, useEffect } from 'react';
+import { BankQuestion, StudySession, ExamItem } from '../types';
+import { getQuestionBank, saveBankQuestions, deleteBankQuestion, getSessions } from '../services/storageService';
+import { questionKeyFor } from '../services/mistakeService';
+import { QuestionEditor } from './QuestionEditor';
+import { VerificationBadge } from './AnswerVerificationNote';
+import { Archive, Loader2, Pencil, Flag, Trash2, GraduationCap, HelpCircle } from 'lucide-react';
+
+type BankFilter = 'all' | 'flagged';
+
+const TYPE_LABELS: { [type in ExamItem['type']]: string } = {
+  mcq: 'MCQ',
+  true_false: 'True/False',
+  fill_blank: 'Fill blank',
+  multi_select: 'Multi-select',
+  matching: 'Matching',
+  ordering: 'Ordering',
+  numeric: 'Numeric',
+  short_answer: 'Short answer',
+  long_answer: 'Long answer'
+};
+
+const selectClass = "p-2 rounded-lg border border-gray-300 dark:border-slate-600 bg-white dark:bg-slate-800 text-sm text-slate-900 dark:text-white outline-none focus:ring-2 focus:ring-indigo-500";
+
+export const QuestionBank: React.FC = () => {
+  const [questions, setQuestions] = useState<BankQuestion[]>([]);
+  const [sessions, setSessions] = useState<StudySession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [sessionId, setSessionId] = useState<string>('');
+  const [filter, setFilter] = useState<BankFilter>('all');
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    const load = async () => {
+      setLoading(true);
+      const [bank, s] = await Promise.all([getQuestionBank(), getSessions()]);
+      setQuestions(bank);
+      setSessions(s);
+      setLoading(false);
+    };
+    load();
+  }, []);
+
+  const updateQuestion = (question: BankQuestion) => {
+    const updated = { ...question, updatedAt: Date.now() };
+    setQuestions(prev => prev.map(q => (q.id === updated.id ? updated : q)));
+    saveBankQuestions([updated]);
+  };
+
+  const handleEdit = (question: BankQuestion, item: ExamItem) => {
+    updateQuestion({ ...question, item, questionKey: questionKeyFor(item.question) });
+    setEditingId(null);
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!confirm('Delete this question from your question bank?')) return;
+    await deleteBankQuestion(id);
+    setQuestions(prev => prev.filter(q => q.id !== id));
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center h-64">
+        <Loader2 className="animate-spin text-indigo-500" size={32} />
+      </div>
+    );
+  }
+
+  // Questions from deleted sessions stay in the bank but can't be used in exams
+  const titleOf = (id: string) => sessions.find(s => s.id === id)?.title || 'Deleted session';
+  const bankSessions = sessions.filter(s => questions.some(q => q.sessionId === s.id));
+  const visible = questions.filter(q => (!sessionId || q.sessionId === sessionId) && (filter === 'all' || q.flagged));
+  const flaggedCount = questions.filter(q => q.flagged).length;
+
+  return (
+    <div className="max-w-4xl mx-auto pb-12">
+      <div className="mb-8 text-center">
+        <div className="inline-flex items-center justify-center p-3 bg-indigo-100 dark:bg-indigo-900/30 text-indigo-600 dark:text-indigo-400 rounded-full mb-4">
+          <Archive size={32} />
+        </div>
+        <h1 className="text-3xl font-bold text-slate-900 dark:text-white mb-2">Question Bank</h1>
+        <p className="text-gray-600 dark:text-slate-400 max-w-lg mx-auto">
+          Questions from your quizzes and exams. Exams are assembled from here first; flagged questions are left out.
+        </p>
+      </div>
+
+      {questions.length === 0 ? (
+        <div className="p-8 bg-white dark:bg-slate-800 rounded-2xl text-center border border-gray-200 dark:border-slate-700 shadow-sm">
+          <HelpCircle className="text-indigo-500 mx-auto mb-3" size={36} />
+          <h2 className="text-xl font-bold text-slate-900 dark:text-white mb-1">No questions yet</h2>
+          <p className="text-gray-500 dark:text-slate-400">Questions from the quizzes and exams you generate will show up here.</p>
+        </div>
+      ) : (
+        <>
+          <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+            <div className="flex items-center gap-2">
+              <select value={sessionId} onChange={(e) => setSessionId(e.target.value)} className={selectClass}>
+                <option value="">All sessions</option>
+                {bankSessions.map(s => <option key={s.id} value={s.id}>{s.title}</option>)}
+              </select>
+              <select value={filter} onChange={(e) => setFilter(e.target.value as BankFilter)} className={selectClass}>
+                <option value="all">All questions</option>
+                <option value="flagged">Flagged ({flaggedCount})</option>
+              </select>
+            </div>
+            <p className="text-sm text-gray-500 dark:text-slate-400">{visible.length} question{visible.length === 1 ? '' : 's'}</p>
+          </div>
+
+          <ul className="space-y-3">
+            {visible.map(q => (
+              <li key={q.id} className={`group p-4 bg-white dark:bg-slate-800 rounded-2xl border shadow-sm ${q.flagged ? 'border-amber-300 dark:border-amber-700' : 'border-gray-200 dark:border-slate-700'}`}>
+                {editingId === q.id ? (
+                  <QuestionEditor item={q.item} onSave={(item) => handleEdit(q, item)} onCancel={() => setEditingId(null)} />
+                ) : (
+                  <>
+                    <div className="flex justify-between items-start gap-4">
+                      <p className="font-medium text-slate-900 dark:text-white leading-relaxed">{q.item.question}</p>
+                      <div className="flex items-center gap-1 flex-shrink-0">
+                        <button onClick={() => setEditingId(q.id)} className="p-1 text-gray-400 hover:text-indigo-500" title="Edit">
+                          <Pencil size={16} />
+                        </button>
+                        <button
+                          onClick={() => updateQuestion({ ...q, flagged: !q.flagged })}
+                          className={`p-1 ${q.flagged ? 'text-amber-500' : 'text-gray-400 hover:text-amber-500'}`}
+                          title={q.flagged ? 'Unflag' : 'Flag (leave out of exams)'}
+                        >
+                          <Flag size={16} fill={q.flagged ? 'currentColor' : 'none'} />
+                        </button>
+                        <button onClick={() => handleDelete(q.id)} className="p-1 text-gray-400 hover:text-red-500" title="Delete">
+                          <Trash2 size={16} />
+                        </button>
+                      </div>
+                    </div>
+
+                    <p className="mt-2 text-sm">
+                      <span className="font-bold text-slate-700 dark:text-slate-300">Answer: </span>
+                      <span className="text-green-600 dark:text-green-400">{q.item.correctAnswer || q.item.modelAnswer}</span>
+                    </p>
+
+                    <div className="mt-3 flex flex-wrap items-center gap-2 text-[10px] font-bold uppercase tracking-wide">
+                      <span className="flex items-center gap-1 px-2 py-0.5 rounded bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300">
+                        {q.origin === 'exam' ? <GraduationCap size={12} /> : <HelpCircle size={12} />} {q.origin}
+                      </span>
+                      <span className="px-2 py-0.5 rounded bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300">{TYPE_LABELS[q.item.type]}</span>
+                      <span className="px-2 py-0.5 rounded bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300">{q.item.marks} mark{q.item.marks === 1 ? '' : 's'}</span>
+                      {q.item.difficulty && (
+                        <span className="px-2 py-0.5 rounded bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300">{q.item.difficulty}</span>
+                      )}
+                      <VerificationBadge verification={q.item.verification} />
+                      {!sessionId && <span className="normal-case font-semibold text-gray-500 dark:text-slate-400 truncate">{titleOf(q.sessionId)}</span>}
+                      <span className="ml-auto normal-case font-semibold text-gray-400 dark:text-slate-500">
+                        {q.timesUsed > 0 ? `Used in ${q.timesUsed} exam${q.timesUsed === 1 ? '' : 's'}` : 'Not used yet'}
+                      </span>
+                    </div>
+                  </>
+                )}
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+};
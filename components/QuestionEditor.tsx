@@ -0,0 +1,248 @@
+import React, { useState } from 'react';
+import { QuizItem, ExamItem, QuizDifficulty } from '../types';
+import { checkQuizItem, checkExamItem } from '../services/questionSchema';
+import { Button } from './Button';
+import { AlertCircle, Save } from 'lucide-react';
+
+// Quiz questions have no marks, and a short answer's answer is its correctAnswer.
+// onSave gets the validated item, of the same kind.
+type QuestionEditorProps = {
+  lockMarks?: boolean; // For questions on a paper, whose marks must keep adding up
+  onCancel: () => void;
+} & (
+  | { kind: 'quiz'; item: QuizItem; onSave: (item: QuizItem) => void }
+  | { kind?: 'exam'; item: ExamItem; onSave: (item: ExamItem) => void }
+);
+
+// The form keeps lists as one entry per line; matching pairs are written "left | right"
+interface QuestionForm {
+  question: string;
+  marks: string;
+  difficulty: QuizDifficulty | '';
+  options: string;
+  correctAnswer: string;
+  correctAnswers: string[];
+  pairs: string;
+  sequence: string;
+  numericAnswer: string;
+  tolerance: string;
+  unit: string;
+  modelAnswer: string;
+  keywords: string;
+  explanation: string;
+}
+
+const inputClass = "w-full p-2 rounded-lg border border-gray-300 dark:border-slate-600 bg-white dark:bg-slate-800 text-sm text-slate-900 dark:text-white outline-none focus:ring-2 focus:ring-indigo-500";
+const labelClass = "block text-xs font-bold text-slate-700 dark:text-slate-300 mb-1";
+
+const lines = (text: string) => text.split('\n').map(l => l.trim()).filter(Boolean);
+
+const toForm = (item: QuizItem | ExamItem): QuestionForm => ({
+  question: item.question,
+  marks: 'marks' in item ? String(item.marks) : '1',
+  difficulty: item.difficulty || '',
+  options: (item.options || []).join('\n'),
+  correctAnswer: item.correctAnswer || '',
+  correctAnswers: item.correctAnswers || [],
+  pairs: (item.pairs || []).map(p => `${p.left} | ${p.right}`).join('\n'),
+  sequence: (item.sequence || []).join('\n'),
+  numericAnswer: item.numericAnswer !== undefined ? String(item.numericAnswer) : '',
+  tolerance: item.tolerance ? String(item.tolerance) : '',
+  unit: item.unit || '',
+  modelAnswer: ('modelAnswer' in item && item.modelAnswer) || '',
+  keywords: (item.keywords || []).join(', '),
+  explanation: item.explanation || ''
+});
+
+// Shaped like model output, so edits go through the same validation as generated questions
+const toRaw = (item: QuizItem | ExamItem, form: QuestionForm) => ({
+  ...item,
+  question: form.question,
+  marks: parseInt(form.marks),
+  difficulty: form.difficulty || undefined,
+  options: lines(form.options),
+  correctAnswer: form.correctAnswer,
+  correctAnswers: form.correctAnswers,
+  pairs: lines(form.pairs).map(line => {
+    const [left, ...right] = line.split('|');
+    return { left: left.trim(), right: right.join('|').trim() };
+  }),
+  sequence: lines(form.sequence),
+  numericAnswer: form.numericAnswer.trim() === '' ? undefined : parseFloat(form.numericAnswer),
+  tolerance: form.tolerance,
+  unit: form.unit,
+  modelAnswer: form.modelAnswer,
+  keywords: form.keywords.split(',').map(k => k.trim()).filter(Boolean),
+  explanation: form.explanation,
+  verification: undefined // The old verdict was about the old answer
+});
+
+export const QuestionEditor: React.FC<QuestionEditorProps> = (props) => {
+  const { item, kind = 'exam', lockMarks, onCancel } = props;
+  const [form, setForm] = useState<QuestionForm>(() => toForm(item));
+  const [problems, setProblems] = useState<string[]>([]);
+
+  const update = (changes: Partial<QuestionForm>) => setForm(prev => ({ ...prev, ...changes }));
+
+  const handleSave = () => {
+    const raw = toRaw(item, form);
+    if (props.kind === 'quiz') {
+      const check = checkQuizItem(raw);
+      if (check.item) return props.onSave(check.item);
+      setProblems(check.problems);
+    } else {
+      const check = checkExamItem(raw);
+      if (check.item) return props.onSave(check.item);
+      setProblems(check.problems);
+    }
+  };
+
+  const options = lines(form.options);
+  const toggleCorrect = (option: string) => update({
+    correctAnswers: form.correctAnswers.includes(option) ? form.correctAnswers.filter(o => o !== option) : [...form.correctAnswers, option]
+  });
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <label className={labelClass}>Question</label>
+        <textarea value={form.question} onChange={(e) => update({ question: e.target.value })} rows={3} className={inputClass} />
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        {kind === 'exam' && (
+          <div>
+            <label className={labelClass}>Marks</label>
+            <input
+              type="number" min={1} max={50}
+              value={form.marks}
+              onChange={(e) => update({ marks: e.target.value })}
+              disabled={lockMarks}
+              title={lockMarks ? 'Marks are fixed so the paper keeps its total' : undefined}
+              className={`${inputClass} disabled:opacity-60`}
+            />
+          </div>
+        )}
+        <div>
+          <label className={labelClass}>Difficulty</label>
+          <select value={form.difficulty} onChange={(e) => update({ difficulty: e.target.value as QuestionForm['difficulty'] })} className={inputClass}>
+            <option value="">Not set</option>
+            <option value="easy">Easy</option>
+            <option value="medium">Medium</option>
+            <option value="hard">Hard</option>
+          </select>
+        </div>
+      </div>
+
+      {(item.type === 'mcq' || item.type === 'multi_select') && (
+        <div>
+          <label className={labelClass}>Options (one per line)</label>
+          <textarea value={form.options} onChange={(e) => update({ options: e.target.value })} rows={4} className={inputClass} />
+        </div>
+      )}
+
+      {item.type === 'mcq' && (
+        <div>
+          <label className={labelClass}>Correct answer</label>
+          <select value={form.correctAnswer} onChange={(e) => update({ correctAnswer: e.target.value })} className={inputClass}>
+            {!options.includes(form.correctAnswer) && <option value={form.correctAnswer}>{form.correctAnswer || 'Choose an option'}</option>}
+            {options.map(option => <option key={option} value={option}>{option}</option>)}
+          </select>
+        </div>
+      )}
+
+      {item.type === 'true_false' && (
+        <div>
+          <label className={labelClass}>Correct answer</label>
+          <select value={form.correctAnswer} onChange={(e) => update({ correctAnswer: e.target.value })} className={inputClass}>
+            <option value="True">True</option>
+            <option value="False">False</option>
+          </select>
+        </div>
+      )}
+
+      {item.type === 'multi_select' && (
+        <div>
+          <label className={labelClass}>Correct options</label>
+          <div className="space-y-1">
+            {options.map(option => (
+              <label key={option} className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300 cursor-pointer">
+                <input type="checkbox" checked={form.correctAnswers.includes(option)} onChange={() => toggleCorrect(option)} className="w-4 h-4 accent-indigo-600" />
+                {option}
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {(item.type === 'fill_blank' || (kind === 'quiz' && item.type === 'short_answer')) && (
+        <div>
+          <label className={labelClass}>{item.type === 'fill_blank' ? 'Answer for the blank' : 'Correct answer'}</label>
+          <input value={form.correctAnswer} onChange={(e) => update({ correctAnswer: e.target.value })} className={inputClass} />
+        </div>
+      )}
+
+      {item.type === 'matching' && (
+        <div>
+          <label className={labelClass}>Pairs (one per line, "left | right")</label>
+          <textarea value={form.pairs} onChange={(e) => update({ pairs: e.target.value })} rows={4} className={inputClass} />
+        </div>
+      )}
+
+      {item.type === 'ordering' && (
+        <div>
+          <label className={labelClass}>Items in the correct order (one per line)</label>
+          <textarea value={form.sequence} onChange={(e) => update({ sequence: e.target.value })} rows={4} className={inputClass} />
+        </div>
+      )}
+
+      {item.type === 'numeric' && (
+        <div className="grid grid-cols-3 gap-3">
+          <div>
+            <label className={labelClass}>Answer</label>
+            <input type="number" value={form.numericAnswer} onChange={(e) => update({ numericAnswer: e.target.value })} className={inputClass} />
+          </div>
+          <div>
+            <label className={labelClass}>Tolerance (±)</label>
+            <input type="number" min={0} value={form.tolerance} onChange={(e) => update({ tolerance: e.target.value })} className={inputClass} />
+          </div>
+          <div>
+            <label className={labelClass}>Unit</label>
+            <input value={form.unit} onChange={(e) => update({ unit: e.target.value })} className={inputClass} />
+          </div>
+        </div>
+      )}
+
+      {kind === 'exam' && (item.type === 'short_answer' || item.type === 'long_answer') && (
+        <div>
+          <label className={labelClass}>Model answer</label>
+          <textarea value={form.modelAnswer} onChange={(e) => update({ modelAnswer: e.target.value })} rows={4} className={inputClass} />
+        </div>
+      )}
+
+      {(item.type === 'fill_blank' || item.type === 'short_answer' || item.type === 'long_answer') && (
+        <div>
+          <label className={labelClass}>Grading keywords (comma separated)</label>
+          <input value={form.keywords} onChange={(e) => update({ keywords: e.target.value })} className={inputClass} />
+        </div>
+      )}
+
+      <div>
+        <label className={labelClass}>Explanation</label>
+        <textarea value={form.explanation} onChange={(e) => update({ explanation: e.target.value })} rows={2} className={inputClass} />
+      </div>
+
+      {problems.length > 0 && (
+        <div className="p-3 bg-red-50 dark:bg-red-900/20 rounded-lg text-sm text-red-700 dark:text-red-300 border border-red-100 dark:border-red-800/50 flex gap-2">
+          <AlertCircle size={16} className="flex-shrink-0 mt-0.5" />
+          <ul>{problems.map(p => <li key={p}>{p}</li>)}</ul>
+        </div>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" size="sm" onClick={onCancel} className="dark:text-slate-300 dark:border-slate-600 dark:hover:bg-slate-800">Cancel</Button>
+        <Button size="sm" onClick={handleSave} icon={<Save size={16} />}>Save</Button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,179 @@
+import React from 'react';
+import { AnswerValue, QuizItem, ExamItem } from '../types';
+import { ArrowUp, ArrowDown, Check } from 'lucide-react';
+
+// Inputs for the structured question types (multi-select, matching, ordering, numeric).
+// Shared by QuizRunner and ExamMode; MCQ, true/false and free-text answers stay in those screens.
+
+interface QuestionInputProps {
+  question: QuizItem | ExamItem;
+  value?: AnswerValue;
+  onChange: (value: AnswerValue) => void;
+  disabled?: boolean;
+  showResult?: boolean; // Colour each part right/wrong once the answer has been checked
+  correct?: boolean;
+}
+
+export const STRUCTURED_INPUT_TYPES = ['multi_select', 'matching', 'ordering', 'numeric'];
+
+// --- HELPERS ---
+
+const hash = (text: string) => {
+  let h = 0;
+  for (let i = 0; i < text.length; i++) h = (h * 31 + text.charCodeAt(i)) | 0;
+  return h;
+};
+
+// Stable shuffle keyed on the question, so the order doesn't jump around between renders
+const seededShuffle = (items: string[], seed: number) =>
+  [...items].sort((a, b) => hash(`${seed}:${a}`) - hash(`${seed}:${b}`));
+
+const asList = (value?: AnswerValue) => (Array.isArray(value) ? value : value ? [value] : []);
+
+const RIGHT_STYLE = 'bg-green-50 dark:bg-green-900/20 border-green-500 text-green-800 dark:text-green-300';
+const WRONG_STYLE = 'bg-red-50 dark:bg-red-900/20 border-red-500 text-red-800 dark:text-red-300';
+const IDLE_STYLE = 'bg-white dark:bg-slate-800 border-gray-200 dark:border-slate-600 text-slate-700 dark:text-slate-300';
+
+export const QuestionInput: React.FC<QuestionInputProps> = ({ question, value, onChange, disabled, showResult, correct }) => {
+  const same = (a?: string, b?: string) => !!a && !!b && a.trim().toLowerCase() === b.trim().toLowerCase();
+
+  // --- MULTI-SELECT ---
+  if (question.type === 'multi_select') {
+    const selected = asList(value);
+    const correctAnswers = question.correctAnswers || [];
+    const toggle = (option: string) =>
+      onChange(selected.includes(option) ? selected.filter(o => o !== option) : [...selected, option]);
+
+    return (
+      <div className="grid gap-2">
+        <p className="text-xs font-semibold text-gray-500 dark:text-slate-400 uppercase tracking-wide">Select all that apply</p>
+        {(question.options || []).map(option => {
+          const isSelected = selected.includes(option);
+          const isRight = correctAnswers.some(c => same(c, option));
+          let style = isSelected ? 'bg-indigo-50 dark:bg-indigo-900/30 border-indigo-500 text-indigo-800 dark:text-indigo-200' : IDLE_STYLE;
+          if (showResult) style = isRight ? RIGHT_STYLE : isSelected ? WRONG_STYLE : `opacity-60 ${IDLE_STYLE}`;
+
+          return (
+            <label key={option} className={`flex items-center gap-3 px-4 py-3 rounded-lg border text-sm transition-all ${disabled ? '' : 'cursor-pointer'} ${style}`}>
+              <input
+                type="checkbox"
+                checked={isSelected}
+                onChange={() => toggle(option)}
+                disabled={disabled}
+                className="w-4 h-4 accent-indigo-600"
+              />
+              {option}
+            </label>
+          );
+        })}
+      </div>
+    );
+  }
+
+  // --- MATCHING ---
+  if (question.type === 'matching') {
+    const pairs = question.pairs || [];
+    const answers = asList(value);
+    const choices = seededShuffle(pairs.map(p => p.right), question.id);
+    const setMatch = (index: number, right: string) => {
+      const next = pairs.map((_, i) => answers[i] || '');
+      next[index] = right;
+      onChange(next);
+    };
+
+    return (
+      <div className="grid gap-2">
+        {pairs.map((pair, i) => {
+          const style = showResult ? (same(answers[i], pair.right) ? RIGHT_STYLE : WRONG_STYLE) : IDLE_STYLE;
+          return (
+            <div key={pair.left} className={`flex flex-col sm:flex-row sm:items-center gap-2 px-4 py-3 rounded-lg border text-sm ${style}`}>
+              <span className="sm:w-1/2 font-medium">{pair.left}</span>
+              <select
+                value={answers[i] || ''}
+                onChange={(e) => setMatch(i, e.target.value)}
+                disabled={disabled}
+                className="sm:w-1/2 p-2 rounded-lg border border-gray-200 dark:border-slate-600 bg-white dark:bg-slate-900 text-slate-800 dark:text-slate-200 outline-none"
+              >
+                <option value="">Choose a match...</option>
+                {choices.map(choice => <option key={choice} value={choice}>{choice}</option>)}
+              </select>
+            </div>
+          );
+        })}
+      </div>
+    );
+  }
+
+  // --- ORDERING ---
+  if (question.type === 'ordering') {
+    const sequence = question.sequence || [];
+    let initial = seededShuffle(sequence, question.id);
+    // A shuffle that lands on the answer gives the question away
+    if (initial.every((item, i) => item === sequence[i])) initial = [...initial.slice(1), initial[0]];
+    const order = Array.isArray(value) && value.length === sequence.length ? value : initial;
+    const touched = Array.isArray(value) && value.length > 0;
+
+    const move = (index: number, offset: number) => {
+      const next = [...order];
+      [next[index], next[index + offset]] = [next[index + offset], next[index]];
+      onChange(next);
+    };
+
+    return (
+      <div className="grid gap-2">
+        {order.map((item, i) => {
+          const style = showResult ? (same(item, sequence[i]) ? RIGHT_STYLE : WRONG_STYLE) : IDLE_STYLE;
+          return (
+            <div key={item} className={`flex items-center gap-3 px-4 py-2.5 rounded-lg border text-sm ${style}`}>
+              <span className="w-5 text-xs font-bold text-gray-400">{i + 1}.</span>
+              <span className="flex-1">{item}</span>
+              {!disabled && (
+                <div className="flex gap-1">
+                  <button type="button" onClick={() => move(i, -1)} disabled={i === 0} className="p-1 rounded hover:bg-gray-100 dark:hover:bg-slate-700 disabled:opacity-30">
+                    <ArrowUp size={16} />
+                  </button>
+                  <button type="button" onClick={() => move(i, 1)} disabled={i === order.length - 1} className="p-1 rounded hover:bg-gray-100 dark:hover:bg-slate-700 disabled:opacity-30">
+                    <ArrowDown size={16} />
+                  </button>
+                </div>
+              )}
+            </div>
+          );
+        })}
+        {!disabled && !touched && (
+          <button
+            type="button"
+            onClick={() => onChange(order)}
+            className="self-start flex items-center gap-1 text-xs font-semibold text-indigo-600 dark:text-indigo-400 hover:underline"
+          >
+            <Check size={14} /> Keep this order
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  // --- NUMERIC ---
+  if (question.type === 'numeric') {
+    const style = showResult
+      ? correct ? 'border-green-500 ring-1 ring-green-500 text-green-700 dark:text-green-300' : 'border-red-300 text-red-700 dark:text-red-300'
+      : 'border-gray-200 dark:border-slate-600 focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 dark:text-white';
+
+    return (
+      <div className="flex items-center gap-3">
+        <input
+          type="text"
+          inputMode="decimal"
+          value={typeof value === 'string' ? value : ''}
+          onChange={(e) => onChange(e.target.value)}
+          disabled={disabled}
+          placeholder="Enter a number..."
+          className={`w-48 p-3 rounded-lg border bg-white dark:bg-slate-800 outline-none text-sm transition-all ${style}`}
+        />
+        {question.unit && <span className="text-sm font-medium text-gray-500 dark:text-slate-400">{question.unit}</span>}
+      </div>
+    );
+  }
+
+  return null;
+};
@@ -1,7 +1,7 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { StudySession } from '../types';
 import { getSessions, saveSession } from '../services/storageService';
-import { generateRevision } from '../services/geminiService';
+import { generateRevision, isAbortError } from '../services/geminiService';
 import { MarkdownRenderer } from './MarkdownRenderer';
 import { Button } from './Button';
 import { Zap, Clock, ArrowLeft, RefreshCw, CheckCircle, History, Calendar, Loader2 } from 'lucide-react';
@@ -17,11 +17,20 @@ export const QuickRevision: React.FC<QuickRevisionProps> = ({ isDarkMode = false
   const [revisionContent, setRevisionContent] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
   const [initializing, setInitializing] = useState(true);
+  const abortRef = useRef<AbortController | null>(null);
 
   useEffect(() => {
     loadSessions();
+    return () => abortRef.current?.abort();
   }, []);
 
+  // Starts a fresh cancellable request, cancelling any guide still being written
+  const startRequest = () => {
+    abortRef.current?.abort();
+    abortRef.current = new AbortController();
+    return abortRef.current.signal;
+  };
+
   const loadSessions = async () => {
     setInitializing(true);
     const data = await getSessions();
@@ -39,9 +48,11 @@ export const QuickRevision: React.FC<QuickRevisionProps> = ({ isDarkMode = false
     }
 
     // If not, generate new
+    const signal = startRequest();
     setLoading(true);
+    setRevisionContent(null);
     try {
-      const content = await generateRevision(session, language);
+      const content = await generateRevision(session, language, { onProgress: setRevisionContent, signal });
       setRevisionContent(content);
       
       // Save to session
@@ -56,20 +67,27 @@ export const QuickRevision: React.FC<QuickRevisionProps> = ({ isDarkMode = false
       setSessions(prev => prev.map(s => s.id === session.id ? updatedSession : s));
       setSelectedSession(updatedSession);
       
-    } catch (e) {
+    } catch (e: any) {
+      if (isAbortError(e)) return;
       console.error(e);
-      setRevisionContent("Sorry, we couldn't generate a revision guide at this moment. Please check your connection.");
+      // Keep a partially streamed guide readable; it only gets saved once complete
+      setRevisionContent(e.partialText
+        ? `${e.partialText}\n\n> ⚠️ Generation was interrupted. Regenerate to get the full guide.`
+        : "Sorry, we couldn't generate a revision guide at this moment. Please check your connection.");
     } finally {
-      setLoading(false);
+      if (!signal.aborted) setLoading(false);
     }
   };
   
   const handleRegenerate = async () => {
     if (!selectedSession) return;
     
+    const previousContent = revisionContent;
+    const signal = startRequest();
     setLoading(true);
+    setRevisionContent(null);
     try {
-      const content = await generateRevision(selectedSession, language);
+      const content = await generateRevision(selectedSession, language, { onProgress: setRevisionContent, signal });
       setRevisionContent(content);
       
       // Save updated revision
@@ -83,14 +101,20 @@ export const QuickRevision: React.FC<QuickRevisionProps> = ({ isDarkMode = false
       setSessions(prev => prev.map(s => s.id === updatedSession.id ? updatedSession : s));
       setSelectedSession(updatedSession);
       
-    } catch (e) {
+    } catch (e: any) {
+      if (isAbortError(e)) return;
       console.error(e);
+      setRevisionContent(e.partialText
+        ? `${e.partialText}\n\n> ⚠️ Generation was interrupted. Regenerate to get the full guide.`
+        : previousContent);
     } finally {
-      setLoading(false);
+      if (!signal.aborted) setLoading(false);
     }
   };
 
   const handleBack = () => {
+    abortRef.current?.abort();
+    setLoading(false);
     setSelectedSession(null);
     setRevisionContent(null);
     loadSessions(); // Refresh list to ensure order/data is correct
@@ -219,8 +243,8 @@ export const QuickRevision: React.FC<QuickRevisionProps> = ({ isDarkMode = false
     );
   }
 
-  // View 2: Loading State
-  if (loading) {
+  // View 2: Loading State (until the first streamed chunk arrives)
+  if (loading && !revisionContent) {
     return (
       <div className="max-w-2xl mx-auto text-center pt-20">
         <div className="relative w-24 h-24 mx-auto mb-8">
@@ -248,7 +272,7 @@ export const QuickRevision: React.FC<QuickRevisionProps> = ({ isDarkMode = false
            <div className="flex items-center gap-2 px-3 py-1 bg-amber-50 dark:bg-amber-900/20 text-amber-700 dark:text-amber-300 rounded-full text-sm font-medium border border-amber-100 dark:border-amber-800/50">
              <Zap size={14} /> Quick Revision Mode
            </div>
-           <Button onClick={handleRegenerate} size="sm" variant="outline" className="dark:text-slate-300 dark:border-slate-600 dark:hover:bg-slate-800" icon={<RefreshCw size={14} />}>
+           <Button onClick={handleRegenerate} size="sm" variant="outline" isLoading={loading} className="dark:text-slate-300 dark:border-slate-600 dark:hover:bg-slate-800" icon={<RefreshCw size={14} />}>
              Regenerate
            </Button>
         </div>
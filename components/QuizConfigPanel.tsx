@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { QuizConfig, QuizItem, QuizDifficulty, CognitiveLevel } from '../types';
+import { DEFAULT_QUIZ_CONFIG } from '../constants';
+import { Button } from './Button';
+import { SlidersHorizontal, Sparkles } from 'lucide-react';
+
+interface QuizConfigPanelProps {
+  initialConfig?: QuizConfig;
+  onGenerate: (config: QuizConfig) => void;
+  onCancel: () => void;
+}
+
+const TYPE_OPTIONS: { value: QuizItem['type']; label: string }[] = [
+  { value: 'mcq', label: 'Multiple Choice' },
+  { value: 'short_answer', label: 'Short Answer' },
+  { value: 'true_false', label: 'True / False' },
+  { value: 'multi_select', label: 'Multi-Select' },
+  { value: 'matching', label: 'Matching' },
+  { value: 'ordering', label: 'Ordering' },
+  { value: 'numeric', label: 'Numeric' }
+];
+
+const DIFFICULTY_OPTIONS: (QuizDifficulty | 'mixed')[] = ['mixed', 'easy', 'medium', 'hard'];
+const LEVEL_OPTIONS: (CognitiveLevel | 'mixed')[] = ['mixed', 'recall', 'application', 'analysis'];
+
+// Segmented control shared by the difficulty and level pickers
+const Segmented = <T extends string>({ options, value, onChange }: { options: T[]; value: T; onChange: (v: T) => void }) => (
+  <div className="grid grid-cols-4 gap-1 p-1 bg-gray-100 dark:bg-slate-900 rounded-xl">
+    {options.map(option => (
+      <button
+        key={option}
+        type="button"
+        onClick={() => onChange(option)}
+        className={`py-1.5 rounded-lg text-xs font-semibold capitalize transition-all ${
+          value === option
+            ? 'bg-white dark:bg-slate-700 text-indigo-600 dark:text-indigo-300 shadow-sm'
+            : 'text-gray-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-200'
+        }`}
+      >
+        {option}
+      </button>
+    ))}
+  </div>
+);
+
+export const QuizConfigPanel: React.FC<QuizConfigPanelProps> = ({ initialConfig = DEFAULT_QUIZ_CONFIG, onGenerate, onCancel }) => {
+  const [config, setConfig] = useState<QuizConfig>(initialConfig);
+
+  const toggleType = (type: QuizItem['type']) => {
+    const types = config.types.includes(type)
+      ? config.types.filter(t => t !== type)
+      : [...config.types, type];
+    setConfig({ ...config, types });
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-2xl border border-gray-200 dark:border-slate-700 p-6 shadow-sm animate-in fade-in">
+      <div className="flex items-center gap-2 mb-5 pb-3 border-b border-gray-100 dark:border-slate-700">
+        <div className="p-1.5 bg-indigo-50 dark:bg-indigo-900/50 text-indigo-600 dark:text-indigo-400 rounded-lg">
+          <SlidersHorizontal size={16} />
+        </div>
+        <h3 className="font-bold text-slate-900 dark:text-white text-sm">Quiz Settings</h3>
+      </div>
+
+      <div className="space-y-5">
+        <div>
+          <label className="flex justify-between text-sm font-bold text-slate-700 dark:text-slate-300 mb-2">
+            Questions
+            <span className="text-indigo-600 dark:text-indigo-400">{config.questionCount}</span>
+          </label>
+          <input
+            type="range" min="3" max="20" step="1"
+            value={config.questionCount}
+            onChange={(e) => setConfig({ ...config, questionCount: parseInt(e.target.value) })}
+            className="w-full h-2 bg-gray-200 dark:bg-slate-700 rounded-lg appearance-none cursor-pointer accent-indigo-600"
+          />
+        </div>
+
+        <div>
+          <p className="text-sm font-bold text-slate-700 dark:text-slate-300 mb-2">Question Types</p>
+          <div className="flex flex-wrap gap-2">
+            {TYPE_OPTIONS.map(({ value, label }) => {
+              const selected = config.types.includes(value);
+              return (
+                <button
+                  key={value}
+                  type="button"
+                  onClick={() => toggleType(value)}
+                  className={`px-3 py-1.5 rounded-full text-xs font-semibold border transition-all ${
+                    selected
+                      ? 'bg-indigo-50 dark:bg-indigo-900/30 border-indigo-500 text-indigo-700 dark:text-indigo-300'
+                      : 'border-gray-200 dark:border-slate-600 text-gray-500 dark:text-slate-400 hover:border-gray-300'
+                  }`}
+                >
+                  {label}
+                </button>
+              );
+            })}
+          </div>
+        </div>
+
+        <div>
+          <p className="text-sm font-bold text-slate-700 dark:text-slate-300 mb-2">Difficulty</p>
+          <Segmented options={DIFFICULTY_OPTIONS} value={config.difficulty} onChange={(difficulty) => setConfig({ ...config, difficulty })} />
+        </div>
+
+        <div>
+          <p className="text-sm font-bold text-slate-700 dark:text-slate-300 mb-2">Cognitive Level</p>
+          <Segmented options={LEVEL_OPTIONS} value={config.level} onChange={(level) => setConfig({ ...config, level })} />
+        </div>
+
+        <label className="flex items-start gap-2 text-sm text-slate-700 dark:text-slate-300 cursor-pointer">
+          <input type="checkbox" checked={!!config.verify} onChange={(e) => setConfig({ ...config, verify: e.target.checked })} className="w-4 h-4 mt-0.5 accent-indigo-600" />
+          <span>
+            Verify answers against my notes
+            <span className="block text-xs text-gray-500 dark:text-slate-400">Takes a little longer. Answers the notes don't back up are flagged.</span>
+          </span>
+        </label>
+      </div>
+
+      <div className="flex gap-3 mt-6">
+        <Button variant="outline" onClick={onCancel} className="flex-1 dark:text-slate-300 dark:border-slate-600 dark:hover:bg-slate-700">
+          Cancel
+        </Button>
+        <Button onClick={() => onGenerate(config)} disabled={config.types.length === 0} className="flex-1" icon={<Sparkles size={16} />}>
+          Generate Quiz
+        </Button>
+      </div>
+    </div>
+  );
+};
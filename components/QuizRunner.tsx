@@ -1,80 +1,151 @@
-import React, { useState, useEffect } from 'react';
-import { QuizItem } from '../types';
+import React, { useState, useEffect, useRef } from 'react';
+import { QuizItem, GradeSummary, QuizDifficulty, AnswerValue } from '../types';
 import { Button } from './Button';
-import { CheckCircle, XCircle, AlertCircle, Save, Check, CircleSlash, HelpCircle } from 'lucide-react';
-import { logActivity } from '../services/storageService';
+import { CheckCircle, XCircle, AlertCircle, Save, Check, CircleSlash, HelpCircle, MinusCircle, Pencil, RefreshCw, Flag, Loader2 } from 'lucide-react';
+import { logActivity, saveQuestionAttempts } from '../services/storageService';
+import { parseQuizItems, isLowConfidence } from '../services/questionSchema';
+import { gradeAnswers, breakdownQuizResults, isAnswered, AnswerSheet } from '../services/gradingService';
+import { recordAttempts, toAttempts } from '../services/mistakeService';
+import { regenerateQuizQuestion, isAbortError, QuestionSource } from '../services/geminiService';
+import { reportQuestion, updateInBank, quizItemToExamItem } from '../services/bankService';
+import { startAnswerTimer, markAnswerTime, buildQuestionAttempts } from '../services/attemptService';
+import { QuestionInput, STRUCTURED_INPUT_TYPES } from './QuestionInput';
+import { QuestionEditor } from './QuestionEditor';
+import { ReportQuestionForm } from './ReportQuestionForm';
+import { VerificationBadge, SourceExcerpt } from './AnswerVerificationNote';
 
 interface QuizRunnerProps {
   content: string; // JSON string from Gemini
   title: string;
+  sessionId?: string;
   isDark?: boolean;
+  // Replaces the default mistake-notebook update (used when retrying mistakes)
+  onGraded?: (questions: QuizItem[], summary: GradeSummary, answers: AnswerSheet) => void;
+  // Gets the quiz content after a question is edited or regenerated, for saving. Without it
+  // questions can only be reported; regenerating also needs the source material.
+  onQuestionsChange?: (content: string) => void;
+  source?: QuestionSource;
+  language?: string;
 }
 
-export const QuizRunner: React.FC<QuizRunnerProps> = ({ content, title, isDark }) => {
+const DIFFICULTY_STYLES: Record<QuizDifficulty, string> = {
+  easy: 'bg-emerald-50 dark:bg-emerald-900/20 text-emerald-700 dark:text-emerald-300',
+  medium: 'bg-amber-50 dark:bg-amber-900/20 text-amber-700 dark:text-amber-300',
+  hard: 'bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300'
+};
+
+export const QuizRunner: React.FC<QuizRunnerProps> = ({ content, title, sessionId, isDark, onGraded, onQuestionsChange, source, language = 'English' }) => {
   const [questions, setQuestions] = useState<QuizItem[]>([]);
-  const [userAnswers, setUserAnswers] = useState<{[key: number]: string}>({});
+  const [userAnswers, setUserAnswers] = useState<AnswerSheet>({});
   const [isSubmitted, setIsSubmitted] = useState(false);
-  const [score, setScore] = useState(0);
+  const [grades, setGrades] = useState<GradeSummary | null>(null);
   const [parseError, setParseError] = useState(false);
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [regeneratingId, setRegeneratingId] = useState<number | null>(null);
+  const [reportedIds, setReportedIds] = useState<Set<number>>(new Set());
+  const [reportingId, setReportingId] = useState<number | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const timerRef = useRef(startAnswerTimer());
+  const emittedRef = useRef<string | null>(null); // Content we passed up ourselves; it doesn't restart the quiz
+  const regenerateAbortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => regenerateAbortRef.current?.abort(), []);
 
   useEffect(() => {
+    if (content === emittedRef.current) return;
     try {
-      // Clean potential Markdown fencing from Gemini response
-      const cleanJson = content.replace(/```json/g, '').replace(/```/g, '').trim();
-      const parsed = JSON.parse(cleanJson);
-      
-      if (Array.isArray(parsed)) {
-        setQuestions(parsed);
-      } else {
-        throw new Error("Invalid format");
-      }
+      // Older saved quizzes were stored unvalidated, so check them again here
+      setQuestions(parseQuizItems(content));
+      setParseError(false);
+      // A regenerated quiz starts fresh
+      setUserAnswers({});
+      setIsSubmitted(false);
+      setGrades(null);
+      setEditingId(null);
+      setReportedIds(new Set());
+      timerRef.current = startAnswerTimer();
     } catch (e) {
       console.error("Quiz JSON Parse Error", e);
       setParseError(true);
     }
   }, [content]);
 
-  const handleAnswerChange = (id: number, val: string) => {
+  const handleAnswerChange = (id: number, val: AnswerValue) => {
     if (isSubmitted) return;
+    markAnswerTime(timerRef.current, id);
     setUserAnswers(prev => ({ ...prev, [id]: val }));
   };
 
-  const calculateResults = () => {
-    let correctCount = 0;
-    
-    questions.forEach(q => {
-      const userAns = userAnswers[q.id]?.trim().toLowerCase();
-      const correctAns = q.correctAnswer.toLowerCase();
-      
-      let isCorrect = false;
-      
-      // If user hasn't answered, it remains false (incorrect)
-      if (userAns) {
-        if (q.type === 'mcq') {
-          isCorrect = userAns === correctAns;
-        } else {
-          // For short answers, check if keywords exist or exact match
-          if (q.keywords && q.keywords.length > 0) {
-             // Loose match: User answer contains most keywords
-             const matches = q.keywords.filter(k => userAns?.includes(k.toLowerCase()));
-             isCorrect = matches.length >= Math.ceil(q.keywords.length / 2);
-          } else {
-             isCorrect = userAns === correctAns;
-          }
-        }
-      }
-      
-      if (isCorrect) correctCount++;
+  // --- QUESTION ACTIONS ---
+
+  // Questions can only be changed before submitting; a changed question starts unanswered
+  const replaceQuestion = (original: QuizItem, item: QuizItem) => {
+    const updated = questions.map(q => (q.id === original.id ? item : q));
+    setQuestions(updated);
+    setUserAnswers(prev => {
+      const { [original.id]: _, ...rest } = prev;
+      return rest;
     });
+    const nextContent = JSON.stringify(updated);
+    emittedRef.current = nextContent;
+    onQuestionsChange?.(nextContent);
+    if (sessionId) updateInBank(sessionId, original.question, { item: quizItemToExamItem(item, title) });
+  };
+
+  const handleEdit = (original: QuizItem, item: QuizItem) => {
+    replaceQuestion(original, item);
+    setEditingId(null);
+  };
+
+  const handleRegenerate = async (original: QuizItem) => {
+    if (!source) return;
+    regenerateAbortRef.current?.abort();
+    const controller = new AbortController();
+    regenerateAbortRef.current = controller;
+    setRegeneratingId(original.id);
+    setActionError(null);
+    try {
+      const others = questions.filter(q => q.id !== original.id).map(q => q.question);
+      const item = await regenerateQuizQuestion(original, source, others, language, { signal: controller.signal });
+      replaceQuestion(original, item);
+    } catch (e) {
+      if (isAbortError(e)) return;
+      setActionError("We couldn't regenerate that question. Please try again.");
+    } finally {
+      if (regenerateAbortRef.current === controller) {
+        regenerateAbortRef.current = null;
+        setRegeneratingId(null);
+      }
+    }
+  };
 
-    setScore(correctCount);
+  const handleReport = async (q: QuizItem, note: string) => {
+    setReportingId(null);
+    setReportedIds(prev => new Set(prev).add(q.id));
+    await reportQuestion({ sessionId, topic: title, origin: 'quiz' }, q, note);
+  };
+
+  const calculateResults = async () => {
+    const summary = gradeAnswers(questions, userAnswers);
+    setGrades(summary);
     setIsSubmitted(true);
 
+    if (onGraded) onGraded(questions, summary, userAnswers);
+    else recordAttempts(toAttempts({ sessionId, topic: title, origin: 'quiz' }, questions, summary, userAnswers));
+
     // Save Data to Profile/Analytics
-    logActivity('quiz_complete', `Quiz: ${title}`, {
+    const activityId = await logActivity('quiz_complete', `Quiz: ${title}`, {
       total_questions: questions.length,
-      correct_answers: correctCount
+      correct_answers: summary.correctCount,
+      quiz_breakdown: breakdownQuizResults(questions, summary)
     });
+    await saveQuestionAttempts(buildQuestionAttempts(
+      { activityId, sessionId, origin: 'quiz', topic: title },
+      questions,
+      summary,
+      userAnswers,
+      timerRef.current
+    ));
   };
 
   if (parseError) {
@@ -96,16 +167,17 @@ export const QuizRunner: React.FC<QuizRunnerProps> = ({ content, title, isDark }
 
   return (
     <div className="space-y-8">
+      {actionError && (
+        <div className="p-3 bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-300 rounded-lg border border-red-100 dark:border-red-900/30 text-sm flex items-center gap-2">
+          <AlertCircle size={16} /> {actionError}
+        </div>
+      )}
       {questions.map((q, index) => {
         const userAnswer = userAnswers[q.id];
-        const hasAttempted = userAnswer !== undefined && userAnswer !== '';
-        
-        let isCorrect = false;
-        if (isSubmitted && hasAttempted) {
-             isCorrect = q.type === 'mcq' 
-               ? userAnswer === q.correctAnswer 
-               : (q.keywords ? q.keywords.some(k => userAnswer?.toLowerCase().includes(k.toLowerCase())) : userAnswer?.toLowerCase() === q.correctAnswer.toLowerCase());
-        }
+        const grade = grades?.results[index];
+        const hasAttempted = grade ? grade.status !== 'unanswered' : isAnswered(userAnswer);
+        const isCorrect = grade?.status === 'correct';
+        const isPartial = grade?.status === 'partial';
 
         return (
           <div key={q.id} className="bg-white dark:bg-slate-800 rounded-xl border border-gray-200 dark:border-slate-700 overflow-hidden shadow-sm">
@@ -114,15 +186,56 @@ export const QuizRunner: React.FC<QuizRunnerProps> = ({ content, title, isDark }
                  <span className="flex-shrink-0 w-6 h-6 bg-indigo-50 dark:bg-slate-700 text-indigo-600 dark:text-slate-300 rounded-full flex items-center justify-center text-xs font-bold mt-0.5">
                    {index + 1}
                  </span>
-                 <h3 className="text-base font-medium text-slate-900 dark:text-white leading-relaxed">
-                   {q.question}
-                 </h3>
+                 <div>
+                   <h3 className="text-base font-medium text-slate-900 dark:text-white leading-relaxed">
+                     {q.question}
+                   </h3>
+                   {(q.difficulty || q.level || isLowConfidence(q.verification)) && (
+                     <div className="flex gap-2 mt-2">
+                       {q.difficulty && (
+                         <span className={`text-[10px] font-bold uppercase tracking-wide px-2 py-0.5 rounded ${DIFFICULTY_STYLES[q.difficulty]}`}>
+                           {q.difficulty}
+                         </span>
+                       )}
+                       {q.level && (
+                         <span className="text-[10px] font-bold uppercase tracking-wide px-2 py-0.5 rounded bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300">
+                           {q.level}
+                         </span>
+                       )}
+                       <VerificationBadge verification={q.verification} />
+                     </div>
+                   )}
+                   <div className="flex flex-wrap gap-3 mt-2 text-xs font-semibold text-gray-400 dark:text-slate-500">
+                     {onQuestionsChange && !isSubmitted && (
+                       <button onClick={() => setEditingId(q.id)} disabled={regeneratingId !== null} className="flex items-center gap-1 hover:text-indigo-600 dark:hover:text-indigo-400 disabled:opacity-50">
+                         <Pencil size={12} /> Edit
+                       </button>
+                     )}
+                     {onQuestionsChange && source && !isSubmitted && (
+                       <button onClick={() => handleRegenerate(q)} disabled={regeneratingId !== null} className="flex items-center gap-1 hover:text-indigo-600 dark:hover:text-indigo-400 disabled:opacity-50">
+                         {regeneratingId === q.id ? <Loader2 size={12} className="animate-spin" /> : <RefreshCw size={12} />} Regenerate this question
+                       </button>
+                     )}
+                     {reportedIds.has(q.id) ? (
+                       <span className="flex items-center gap-1 text-amber-600 dark:text-amber-400"><Flag size={12} fill="currentColor" /> Reported</span>
+                     ) : (
+                       <button onClick={() => setReportingId(q.id)} className="flex items-center gap-1 hover:text-amber-600 dark:hover:text-amber-400">
+                         <Flag size={12} /> Report wrong answer
+                       </button>
+                     )}
+                   </div>
+                 </div>
               </div>
               {isSubmitted && (
                  hasAttempted ? (
                    isCorrect 
                      ? <CheckCircle className="text-green-500 flex-shrink-0" size={20} /> 
-                     : <XCircle className="text-red-500 flex-shrink-0" size={20} />
+                     : isPartial
+                       ? <div className="flex items-center gap-1 text-amber-600 dark:text-amber-400 text-xs font-bold whitespace-nowrap">
+                           <MinusCircle size={18} />
+                           <span>{grade!.score} / {grade!.maxScore}</span>
+                         </div>
+                       : <XCircle className="text-red-500 flex-shrink-0" size={20} />
                  ) : (
                    <div className="flex items-center gap-1 text-amber-500 bg-amber-50 dark:bg-amber-900/20 px-2 py-0.5 rounded-full text-xs font-bold whitespace-nowrap border border-amber-200 dark:border-amber-800">
                       <CircleSlash size={14} />
@@ -133,7 +246,23 @@ export const QuizRunner: React.FC<QuizRunnerProps> = ({ content, title, isDark }
             </div>
 
             <div className="p-5 bg-gray-50/50 dark:bg-slate-900/30">
-              {q.type === 'mcq' && q.options ? (
+              {reportingId === q.id && (
+                <div className="mb-4 pb-4 border-b border-gray-100 dark:border-slate-700">
+                  <ReportQuestionForm onReport={(note) => handleReport(q, note)} onCancel={() => setReportingId(null)} />
+                </div>
+              )}
+              {editingId === q.id ? (
+                <QuestionEditor item={q} kind="quiz" onSave={(item) => handleEdit(q, item)} onCancel={() => setEditingId(null)} />
+              ) : STRUCTURED_INPUT_TYPES.includes(q.type) ? (
+                <QuestionInput
+                  question={q}
+                  value={userAnswer}
+                  onChange={(val) => handleAnswerChange(q.id, val)}
+                  disabled={isSubmitted}
+                  showResult={isSubmitted && hasAttempted}
+                  correct={isCorrect}
+                />
+              ) : (q.type === 'mcq' || q.type === 'true_false') && q.options ? (
                 <div className="grid gap-2">
                   {q.options.map(option => {
                     const isSelected = userAnswer === option;
@@ -163,7 +292,7 @@ export const QuizRunner: React.FC<QuizRunnerProps> = ({ content, title, isDark }
                 </div>
               ) : (
                 <textarea
-                  value={userAnswer || ''}
+                  value={typeof userAnswer === 'string' ? userAnswer : ''}
                   onChange={(e) => handleAnswerChange(q.id, e.target.value)}
                   disabled={isSubmitted}
                   placeholder={isSubmitted && !hasAttempted ? "Not attempted" : "Type your answer here..."}
@@ -172,7 +301,9 @@ export const QuizRunner: React.FC<QuizRunnerProps> = ({ content, title, isDark }
                        ? hasAttempted
                            ? isCorrect 
                               ? 'border-green-500 ring-1 ring-green-500 text-green-700 dark:text-green-300' 
-                              : 'border-red-300 text-red-700 dark:text-red-300' 
+                              : isPartial
+                                 ? 'border-amber-400 text-amber-700 dark:text-amber-300'
+                                 : 'border-red-300 text-red-700 dark:text-red-300' 
                            : 'border-amber-300 bg-amber-50 dark:bg-amber-900/10 dark:border-amber-800'
                        : 'border-gray-200 dark:border-slate-600 focus:ring-2 focus:ring-indigo-500/20 focus:border-indigo-500 dark:text-white'
                   }`}
@@ -190,10 +321,17 @@ export const QuizRunner: React.FC<QuizRunnerProps> = ({ content, title, isDark }
                        <span className="text-green-600 dark:text-green-400 font-medium">{q.correctAnswer}</span>
                      </div>
                    )}
+                   {hasAttempted && !isCorrect && grade && grade.missedKeywords.length > 0 && (
+                     <div className="mb-2 text-sm">
+                       <span className="font-bold text-slate-700 dark:text-slate-300">Missing key points: </span>
+                       <span className="text-amber-600 dark:text-amber-400">{grade.missedKeywords.join(', ')}</span>
+                     </div>
+                   )}
                    <div className="p-3 bg-indigo-50 dark:bg-indigo-900/20 rounded-lg text-sm text-indigo-700 dark:text-indigo-300 border border-indigo-100 dark:border-indigo-800/50">
                      <span className="font-bold">Explanation: </span>
                      {q.explanation}
                    </div>
+                   <SourceExcerpt verification={q.verification} />
                 </div>
               )}
             </div>
@@ -215,7 +353,7 @@ export const QuizRunner: React.FC<QuizRunnerProps> = ({ content, title, isDark }
           <div className="bg-slate-900 dark:bg-slate-800 text-white px-6 py-3 rounded-xl shadow-xl flex items-center gap-4 animate-in zoom-in-95">
              <div className="flex flex-col">
                <span className="text-xs text-slate-400 font-bold uppercase tracking-wider">Your Score</span>
-               <span className="text-2xl font-bold leading-none">{score} / {questions.length}</span>
+               <span className="text-2xl font-bold leading-none">{grades?.score ?? 0} / {grades?.maxScore ?? questions.length}</span>
              </div>
              <div className="h-8 w-px bg-white/20"></div>
              <div className="flex items-center gap-2 text-emerald-400 text-sm font-medium">
@@ -0,0 +1,28 @@
+import React, { useState } from 'react';
+import { Button } from './Button';
+import { Flag } from 'lucide-react';
+
+interface ReportQuestionFormProps {
+  onReport: (note: string) => void; // The note may be empty
+  onCancel: () => void;
+}
+
+const inputClass = "w-full p-2 rounded-lg border border-gray-300 dark:border-slate-600 bg-white dark:bg-slate-800 text-sm text-slate-900 dark:text-white outline-none focus:ring-2 focus:ring-indigo-500";
+
+// Shown under a question when the student flags it as wrong
+export const ReportQuestionForm: React.FC<ReportQuestionFormProps> = ({ onReport, onCancel }) => {
+  const [note, setNote] = useState('');
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <label className="block text-xs font-bold text-slate-700 dark:text-slate-300 mb-1">What is wrong with this question or its answer? (optional)</label>
+        <textarea value={note} onChange={(e) => setNote(e.target.value)} rows={2} autoFocus className={inputClass} />
+      </div>
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" size="sm" onClick={onCancel} className="dark:text-slate-300 dark:border-slate-600 dark:hover:bg-slate-800">Cancel</Button>
+        <Button size="sm" onClick={() => onReport(note)} icon={<Flag size={16} />}>Report</Button>
+      </div>
+    </div>
+  );
+};
@@ -1,8 +1,10 @@
 import React from 'react';
 import { StudySession } from '../types';
-import { getSessions, deleteSession } from '../services/storageService';
+import { getSessions, deleteSession, saveSession } from '../services/storageService';
+import { importStudyFile, IMPORT_ACCEPT } from '../services/importService';
 import { Button } from './Button';
-import { Clock, ChevronRight, Trash2, FileText, Loader2 } from 'lucide-react';
+import { ExportDialog } from './ExportDialog';
+import { Clock, ChevronRight, Trash2, FileText, Loader2, Download, Upload } from 'lucide-react';
 
 interface SavedNotesProps {
   onOpenSession: (session: StudySession) => void;
@@ -11,6 +13,10 @@ interface SavedNotesProps {
 export const SavedNotes: React.FC<SavedNotesProps> = ({ onOpenSession }) => {
   const [sessions, setSessions] = React.useState<StudySession[]>([]);
   const [loading, setLoading] = React.useState(true);
+  const [selectedIds, setSelectedIds] = React.useState<Set<string>>(new Set());
+  const [showExport, setShowExport] = React.useState(false);
+  const [isImporting, setIsImporting] = React.useState(false);
+  const importInputRef = React.useRef<HTMLInputElement>(null);
 
   React.useEffect(() => {
     loadSessions();
@@ -31,6 +37,35 @@ export const SavedNotes: React.FC<SavedNotesProps> = ({ onOpenSession }) => {
     }
   };
 
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setIsImporting(true);
+    try {
+      const imported = await importStudyFile(file);
+      await Promise.all(imported.map(session => saveSession(session)));
+      await loadSessions();
+    } catch (error: any) {
+      alert(error.message || "Failed to import file.");
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const toggleSelect = (e: React.MouseEvent, id: string) => {
+    e.stopPropagation();
+    const next = new Set(selectedIds);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setSelectedIds(next);
+  };
+
+  // Only sessions with something to export can be picked
+  const exportable = sessions.filter(s => s.flashcards || s.quiz);
+  const selectedSessions = sessions.filter(s => selectedIds.has(s.id));
+
   const formatDate = (dateStr: string) => {
     return new Date(dateStr).toLocaleDateString('en-US', {
       month: 'short',
@@ -50,7 +85,36 @@ export const SavedNotes: React.FC<SavedNotesProps> = ({ onOpenSession }) => {
 
   return (
     <div className="max-w-4xl mx-auto">
-      <h1 className="text-2xl font-bold text-slate-900 dark:text-white mb-6">Your Saved Sessions</h1>
+      <div className="flex items-center justify-between gap-4 mb-6">
+        <h1 className="text-2xl font-bold text-slate-900 dark:text-white">Your Saved Sessions</h1>
+        <div className="flex items-center gap-3">
+          <input type="file" ref={importInputRef} onChange={handleImport} accept={IMPORT_ACCEPT} className="hidden" />
+          <Button
+            size="sm"
+            variant="secondary"
+            onClick={() => importInputRef.current?.click()}
+            isLoading={isImporting}
+            icon={<Upload size={16} />}
+            className="dark:bg-slate-800 dark:border-slate-700 dark:text-slate-300"
+            title="Anki package, Quizlet/CSV export or JSON deck"
+          >
+            Import
+          </Button>
+          {exportable.length > 0 && (
+            <>
+              <button
+                onClick={() => setSelectedIds(selectedIds.size === exportable.length ? new Set() : new Set(exportable.map(s => s.id)))}
+                className="text-sm font-semibold text-indigo-600 dark:text-indigo-400 hover:underline whitespace-nowrap"
+              >
+                {selectedIds.size === exportable.length ? 'Clear' : 'Select all'}
+              </button>
+              <Button size="sm" onClick={() => setShowExport(true)} disabled={selectedIds.size === 0} icon={<Download size={16} />}>
+                Export{selectedIds.size > 0 ? ` (${selectedIds.size})` : ''}
+              </Button>
+            </>
+          )}
+        </div>
+      </div>
       
       {sessions.length === 0 ? (
         <div className="text-center py-20 bg-white dark:bg-slate-800 rounded-2xl border border-dashed border-gray-300 dark:border-slate-700">
@@ -58,7 +122,7 @@ export const SavedNotes: React.FC<SavedNotesProps> = ({ onOpenSession }) => {
              <FileText size={32} className="text-gray-400 dark:text-slate-400" />
           </div>
           <h3 className="text-lg font-medium text-gray-900 dark:text-white">No saved notes yet</h3>
-          <p className="text-gray-500 dark:text-slate-400 mt-1">Start a new study session to see it here.</p>
+          <p className="text-gray-500 dark:text-slate-400 mt-1">Start a new study session or import a deck to see it here.</p>
         </div>
       ) : (
         <div className="grid gap-4">
@@ -68,6 +132,16 @@ export const SavedNotes: React.FC<SavedNotesProps> = ({ onOpenSession }) => {
               onClick={() => onOpenSession(session)}
               className="group bg-white dark:bg-slate-800 p-5 rounded-xl border border-gray-200 dark:border-slate-700 shadow-sm hover:shadow-md hover:border-indigo-200 dark:hover:border-indigo-700 transition-all cursor-pointer flex items-center justify-between"
             >
+              {(session.flashcards || session.quiz) && (
+                <input
+                  type="checkbox"
+                  checked={selectedIds.has(session.id)}
+                  onClick={(e) => toggleSelect(e, session.id)}
+                  onChange={() => {}}
+                  className="w-4 h-4 mr-4 flex-shrink-0 accent-indigo-600 cursor-pointer"
+                  title="Select for export"
+                />
+              )}
               <div className="flex-1 min-w-0">
                 <h3 className="text-lg font-semibold text-slate-900 dark:text-white truncate pr-4">
                   {session.title || 'Untitled Session'}
@@ -98,6 +172,8 @@ export const SavedNotes: React.FC<SavedNotesProps> = ({ onOpenSession }) => {
           ))}
         </div>
       )}
+
+      {showExport && <ExportDialog sessions={selectedSessions} onClose={() => setShowExport(false)} />}
     </div>
   );
 };
\ No newline at end of file
@@ -13,7 +13,10 @@ import {
   Sparkles,
   Menu,
   Globe,
-  LogIn
+  LogIn,
+  Repeat,
+  NotebookPen,
+  Archive
 } from 'lucide-react';
 
 interface SidebarProps {
@@ -47,6 +50,9 @@ export const Sidebar: React.FC<SidebarProps> = ({
     { id: AppView.DASHBOARD, label: 'Dashboard', icon: <LayoutDashboard size={24} /> },
     { id: AppView.QUICK_REVISION, label: 'Quick Revision', icon: <Zap size={24} /> },
     { id: AppView.EXAM_MODE, label: 'Exam Mode', icon: <GraduationCap size={24} /> },
+    { id: AppView.REVIEW, label: 'Review', icon: <Repeat size={24} /> },
+    { id: AppView.MISTAKES, label: 'Mistakes', icon: <NotebookPen size={24} /> },
+    { id: AppView.QUESTION_BANK, label: 'Question Bank', icon: <Archive size={24} /> },
     { id: AppView.SAVED, label: 'Saved Notes', icon: <Library size={24} /> },
     { 
       id: AppView.CHAT, 
@@ -1,14 +1,19 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { StudySession, StudyMode, ChatMessage } from '../types';
-import { generateStudyContent, createChatSession, sendChatMessage } from '../services/geminiService';
+import { StudySession, StudyMode, ChatMessage, QuizConfig, Citation } from '../types';
+import { generateStudyContent, createChatSession, sendChatMessage, isAbortError } from '../services/geminiService';
 import { saveSession, logActivity } from '../services/storageService';
+import { collectQuiz } from '../services/bankService';
 import { MarkdownRenderer } from './MarkdownRenderer';
+import { CitationPanel } from './CitationPanel';
 import { QuizRunner } from './QuizRunner';
+import { FlashcardDeck } from './FlashcardDeck';
+import { ExportDialog } from './ExportDialog';
+import { QuizConfigPanel } from './QuizConfigPanel';
 import { Button } from './Button';
-import { ArrowLeft, BookOpen, Database, MessageSquare, Wand2, FileType, Plus, X, Upload, Clipboard, Sparkles, Send, User, FileText, Sun, Moon, Crown, Globe } from 'lucide-react';
+import { ArrowLeft, BookOpen, Database, MessageSquare, Wand2, FileType, Plus, X, Upload, Clipboard, Sparkles, Send, User, FileText, Sun, Moon, Crown, Globe, Square, SlidersHorizontal, Download } from 'lucide-react';
 import { v4 as uuidv4 } from 'uuid';
-import { Chat } from '@google/genai';
-import { LANGUAGES } from '../constants';
+import { AIChatSession } from '../services/aiProvider';
+import { LANGUAGES, DEFAULT_QUIZ_CONFIG } from '../constants';
 
 interface StudyViewerProps {
   session: StudySession;
@@ -29,12 +34,20 @@ export const StudyViewer: React.FC<StudyViewerProps> = ({ session, onBack, onUpd
   const [chatMessages, setChatMessages] = useState<ChatMessage[]>(session.chatHistory || []);
   const [chatInput, setChatInput] = useState('');
   const [isChatLoading, setIsChatLoading] = useState(false);
-  const chatSessionRef = useRef<Chat | null>(null);
+  const chatSessionRef = useRef<AIChatSession | null>(null);
   const chatScrollRef = useRef<HTMLDivElement>(null);
+  const chatAbortRef = useRef<AbortController | null>(null);
 
   // Generate State
   const [loadingMode, setLoadingMode] = useState<StudyMode | null>(null);
+  const [showQuizConfig, setShowQuizConfig] = useState(false);
+  const [showExport, setShowExport] = useState(false);
+  const [quizConfig, setQuizConfig] = useState<QuizConfig>(DEFAULT_QUIZ_CONFIG);
   const [generatedResult, setGeneratedResult] = useState<{mode: StudyMode, content: string} | null>(null);
+  const generateAbortRef = useRef<AbortController | null>(null);
+
+  // Sources State
+  const [activeCitation, setActiveCitation] = useState<Citation | null>(null);
 
   // --- EFFECTS ---
   useEffect(() => {
@@ -56,6 +69,14 @@ export const StudyViewer: React.FC<StudyViewerProps> = ({ session, onBack, onUpd
     }
   }, [language]); // Re-init chat if language changes
 
+  // Cancel in-flight AI requests when leaving the session
+  useEffect(() => {
+    return () => {
+      generateAbortRef.current?.abort();
+      chatAbortRef.current?.abort();
+    };
+  }, []);
+
   useEffect(() => {
     if (chatScrollRef.current) {
         chatScrollRef.current.scrollTop = chatScrollRef.current.scrollHeight;
@@ -64,7 +85,7 @@ export const StudyViewer: React.FC<StudyViewerProps> = ({ session, onBack, onUpd
 
   // --- HANDLERS: CHAT ---
   const handleSendMessage = async () => {
-    if (!chatInput.trim() || !chatSessionRef.current) return;
+    if (!chatInput.trim() || !chatSessionRef.current || isChatLoading) return;
     
     const userMsg: ChatMessage = {
       id: uuidv4(),
@@ -78,6 +99,18 @@ export const StudyViewer: React.FC<StudyViewerProps> = ({ session, onBack, onUpd
     setChatInput('');
     setIsChatLoading(true);
 
+    const controller = new AbortController();
+    chatAbortRef.current = controller;
+
+    // Streamed reply is shown live, but only persisted once complete
+    const replyId = uuidv4();
+    const showReply = (text: string) => setChatMessages([...newHistory, {
+      id: replyId,
+      role: 'model',
+      text,
+      timestamp: Date.now()
+    }]);
+
     try {
       // Send context (files/text) with the message
       const filesToSend = session.files && session.files.length > 0 ? session.files : undefined;
@@ -87,11 +120,12 @@ export const StudyViewer: React.FC<StudyViewerProps> = ({ session, onBack, onUpd
       const { text: responseText, sources } = await sendChatMessage(
         chatSessionRef.current, 
         finalMessage, 
-        filesToSend
+        filesToSend,
+        { onProgress: showReply, signal: controller.signal }
       );
 
       const botMsg: ChatMessage = {
-        id: uuidv4(),
+        id: replyId,
         role: 'model',
         text: responseText,
         timestamp: Date.now(),
@@ -106,26 +140,35 @@ export const StudyViewer: React.FC<StudyViewerProps> = ({ session, onBack, onUpd
       saveSession(updatedSession);
       onUpdateSession(updatedSession);
 
-    } catch (e) {
+    } catch (e: any) {
+      // Stopped by the user: the partial reply stays on screen but isn't persisted
+      if (isAbortError(e)) return;
       console.error(e);
-      setChatMessages(prev => [...prev, {
-        id: uuidv4(),
-        role: 'model',
-        text: "Connection error. Please try again.",
-        timestamp: Date.now()
-      }]);
+      showReply(e.partialText
+        ? `${e.partialText}\n\n*(Response interrupted. Connection error, please try again.)*`
+        : "Connection error. Please try again.");
     } finally {
-      setIsChatLoading(false);
+      if (chatAbortRef.current === controller) {
+        chatAbortRef.current = null;
+        setIsChatLoading(false);
+      }
     }
   };
 
+  const handleStopChat = () => {
+    chatAbortRef.current?.abort();
+  };
+
   // --- HANDLERS: GENERATE ---
-  const handleGenerate = async (mode: StudyMode) => {
+  // Passing a quiz config always generates a fresh quiz, replacing the saved one
+  const handleGenerate = async (mode: StudyMode, config?: QuizConfig) => {
+    setShowQuizConfig(false);
+
     // Check if content already exists in session to avoid re-gen costs
     let content = "";
     if (mode === StudyMode.EXPLAIN && session.explanation) content = session.explanation;
     else if (mode === StudyMode.SUMMARIZE && session.summary) content = session.summary;
-    else if (mode === StudyMode.QUIZ && session.quiz) content = session.quiz;
+    else if (mode === StudyMode.QUIZ && session.quiz && !config) content = session.quiz;
     else if (mode === StudyMode.FLASHCARDS && session.flashcards) content = session.flashcards;
     
     if (content) {
@@ -134,9 +177,18 @@ export const StudyViewer: React.FC<StudyViewerProps> = ({ session, onBack, onUpd
         return;
     }
 
+    // Only one generation at a time; starting another cancels the previous one
+    generateAbortRef.current?.abort();
+    const controller = new AbortController();
+    generateAbortRef.current = controller;
+
     setLoadingMode(mode);
     try {
-      content = await generateStudyContent(session.originalText, mode, session.files, language);
+      content = await generateStudyContent(session.originalText, mode, session.files, language, {
+        onProgress: (partial) => setGeneratedResult({ mode, content: partial }),
+        signal: controller.signal,
+        quizConfig: config
+      });
       
       // Save result
       const updatedSession = { ...session };
@@ -147,18 +199,52 @@ export const StudyViewer: React.FC<StudyViewerProps> = ({ session, onBack, onUpd
       
       saveSession(updatedSession);
       onUpdateSession(updatedSession);
+      if (mode === StudyMode.QUIZ) collectQuiz(session.id, session.title, content);
       
       setGeneratedResult({ mode, content });
       logActivity(mode === StudyMode.QUIZ ? 'quiz' : 'explain', session.title);
       
-    } catch (error) {
+    } catch (error: any) {
+      if (isAbortError(error)) return;
       console.error(error);
-      alert("Error generating content.");
+      // Leave the partial output on screen; it isn't saved, so the next click regenerates
+      if (error.partialText) {
+        setGeneratedResult({ mode, content: error.partialText });
+        alert("Generation was interrupted. Showing what was generated so far.");
+      } else {
+        alert("Error generating content.");
+      }
     } finally {
-      setLoadingMode(null);
+      if (generateAbortRef.current === controller) {
+        generateAbortRef.current = null;
+        setLoadingMode(null);
+      }
     }
   };
 
+  const handleQuizConfigured = (config: QuizConfig) => {
+    setQuizConfig(config);
+    handleGenerate(StudyMode.QUIZ, config);
+  };
+
+  // Edited or regenerated quiz questions are saved back to the session
+  const handleQuizChange = (content: string) => {
+    const updatedSession = { ...session, quiz: content };
+    saveSession(updatedSession);
+    onUpdateSession(updatedSession);
+    setGeneratedResult({ mode: StudyMode.QUIZ, content });
+  };
+
+  // Citation markers in explanations and summaries open the cited passage in the Sources panel
+  const handleCitationClick = (citation: Citation) => {
+    setActiveCitation(citation);
+    setActiveTab('sources');
+  };
+
+  const handleStopGenerating = () => {
+    generateAbortRef.current?.abort();
+  };
+
   return (
     <div className="w-full h-full flex flex-col">
       {/* Header with Buttons */}
@@ -175,6 +261,17 @@ export const StudyViewer: React.FC<StudyViewerProps> = ({ session, onBack, onUpd
         
         {/* Header Actions */}
         <div className="flex items-center gap-2 ml-4">
+           {/* Export to Anki / CSV */}
+           {(session.flashcards || session.quiz) && (
+             <button
+               onClick={() => setShowExport(true)}
+               className="p-2 rounded-xl bg-white dark:bg-slate-800 border border-gray-200 dark:border-slate-700 text-slate-600 dark:text-slate-300 hover:bg-gray-50 dark:hover:bg-slate-700 transition-colors"
+               title="Export Flashcards"
+             >
+               <Download size={20} />
+             </button>
+           )}
+
            {/* Theme Toggle */}
            <button 
              onClick={onToggleTheme}
@@ -250,10 +347,19 @@ export const StudyViewer: React.FC<StudyViewerProps> = ({ session, onBack, onUpd
             </div>
 
             <div className="flex-1 overflow-y-auto p-4 space-y-3">
+                {activeCitation && (
+                    <CitationPanel
+                        citation={activeCitation}
+                        files={session.files}
+                        notes={session.originalText}
+                        onClose={() => setActiveCitation(null)}
+                    />
+                )}
+
                 {session.files?.map((file, idx) => {
                     const isImage = file.mimeType.startsWith('image/');
                     return (
-                        <div key={idx} className="relative group bg-white dark:bg-slate-800 rounded-xl border border-gray-200 dark:border-white/10 shadow-sm transition-all p-3 flex items-center gap-3">
+                        <div key={idx} className={`relative group bg-white dark:bg-slate-800 rounded-xl border shadow-sm transition-all p-3 flex items-center gap-3 ${activeCitation?.source === idx ? 'border-indigo-400 dark:border-indigo-500' : 'border-gray-200 dark:border-white/10'}`}>
                             <div className="p-2 bg-indigo-50 dark:bg-slate-700 rounded-lg text-indigo-600 dark:text-indigo-400 flex-shrink-0">
                                 {isImage ? <FileType size={18} /> : <BookOpen size={18} />}
                             </div>
@@ -268,7 +374,7 @@ export const StudyViewer: React.FC<StudyViewerProps> = ({ session, onBack, onUpd
                 })}
 
                 {session.originalText && (
-                    <div className="relative bg-white dark:bg-slate-800 rounded-xl border border-gray-200 dark:border-white/10 shadow-sm p-3 flex items-center gap-3">
+                    <div className={`relative bg-white dark:bg-slate-800 rounded-xl border shadow-sm p-3 flex items-center gap-3 ${activeCitation?.source === 'notes' ? 'border-indigo-400 dark:border-indigo-500' : 'border-gray-200 dark:border-white/10'}`}>
                         <div className="p-2 bg-purple-50 dark:bg-purple-900/30 rounded-lg text-purple-600 dark:text-purple-400 flex-shrink-0">
                             <FileText size={18} />
                         </div>
@@ -304,7 +410,7 @@ export const StudyViewer: React.FC<StudyViewerProps> = ({ session, onBack, onUpd
                         </div>
                     </div>
                 ))}
-                {isChatLoading && (
+                {isChatLoading && chatMessages[chatMessages.length - 1]?.role === 'user' && (
                     <div className="flex gap-4">
                         <div className="w-8 h-8 rounded-full bg-indigo-100 dark:bg-indigo-900/50 text-indigo-600 dark:text-indigo-400 flex items-center justify-center">
                             <Sparkles size={16} />
@@ -326,13 +432,23 @@ export const StudyViewer: React.FC<StudyViewerProps> = ({ session, onBack, onUpd
                         placeholder={`Ask questions in ${language}...`}
                         className="w-full pl-5 pr-14 py-4 bg-gray-50 dark:bg-slate-800 border border-gray-200 dark:border-slate-700 rounded-xl focus:outline-none focus:ring-2 focus:ring-slate-900/10 dark:focus:ring-white/10 focus:border-slate-900 dark:focus:border-slate-500 transition-all dark:text-white"
                     />
-                    <button 
-                        onClick={handleSendMessage}
-                        disabled={!chatInput.trim() || isChatLoading}
-                        className="absolute right-2 top-2 bottom-2 p-2 bg-slate-900 dark:bg-indigo-600 text-white rounded-lg hover:bg-slate-800 dark:hover:bg-indigo-500 disabled:opacity-50 transition-colors"
-                    >
-                        <Send size={18} />
-                    </button>
+                    {isChatLoading ? (
+                        <button 
+                            onClick={handleStopChat}
+                            className="absolute right-2 top-2 bottom-2 p-2 bg-red-500 text-white rounded-lg hover:bg-red-600 transition-colors"
+                            title="Stop generating"
+                        >
+                            <Square size={18} fill="currentColor" />
+                        </button>
+                    ) : (
+                        <button 
+                            onClick={handleSendMessage}
+                            disabled={!chatInput.trim()}
+                            className="absolute right-2 top-2 bottom-2 p-2 bg-slate-900 dark:bg-indigo-600 text-white rounded-lg hover:bg-slate-800 dark:hover:bg-indigo-500 disabled:opacity-50 transition-colors"
+                        >
+                            <Send size={18} />
+                        </button>
+                    )}
                 </div>
             </div>
         </div>
@@ -370,7 +486,7 @@ export const StudyViewer: React.FC<StudyViewerProps> = ({ session, onBack, onUpd
                         </Button>
                         <Button 
                             variant="secondary" 
-                            onClick={() => handleGenerate(StudyMode.QUIZ)} 
+                            onClick={() => session.quiz ? handleGenerate(StudyMode.QUIZ) : setShowQuizConfig(true)} 
                             isLoading={loadingMode === StudyMode.QUIZ}
                             className={`h-12 text-sm ${session.quiz ? 'bg-indigo-50 dark:bg-indigo-900/30 border-indigo-200 dark:border-indigo-700 text-indigo-700 dark:text-indigo-300' : generatedResult?.mode === StudyMode.QUIZ ? 'border-indigo-500 bg-indigo-50 dark:bg-indigo-900/30 text-indigo-700 dark:text-indigo-300' : 'dark:bg-slate-800 dark:border-slate-700 dark:text-slate-300'}`}
                         >
@@ -386,24 +502,59 @@ export const StudyViewer: React.FC<StudyViewerProps> = ({ session, onBack, onUpd
                         </Button>
                     </div>
 
-                    {generatedResult ? (
+                    {loadingMode && (
+                        <Button 
+                            variant="outline" 
+                            size="sm" 
+                            onClick={handleStopGenerating} 
+                            className="w-full mb-6 text-red-600 border-red-200 hover:bg-red-50 dark:text-red-400 dark:border-red-900/50 dark:hover:bg-red-900/20"
+                            icon={<Square size={14} fill="currentColor" />}
+                        >
+                            Stop generating
+                        </Button>
+                    )}
+
+                    {showQuizConfig ? (
+                        <QuizConfigPanel 
+                            initialConfig={quizConfig}
+                            onGenerate={handleQuizConfigured}
+                            onCancel={() => setShowQuizConfig(false)}
+                        />
+                    ) : generatedResult ? (
                         <div className="bg-white dark:bg-slate-800 rounded-2xl border border-gray-200 dark:border-slate-700 p-6 shadow-sm">
                             <div className="flex items-center gap-2 mb-4 pb-3 border-b border-gray-100 dark:border-slate-700">
                                 <div className="p-1.5 bg-indigo-50 dark:bg-indigo-900/50 text-indigo-600 dark:text-indigo-400 rounded-lg">
                                     <Wand2 size={16} />
                                 </div>
                                 <h3 className="font-bold text-slate-900 dark:text-white capitalize text-sm">{generatedResult.mode} Result</h3>
+                                {loadingMode === generatedResult.mode && (
+                                    <span className="ml-auto text-xs text-indigo-500 dark:text-indigo-400 font-medium animate-pulse">Writing...</span>
+                                )}
+                                {generatedResult.mode === StudyMode.QUIZ && !loadingMode && (
+                                    <button 
+                                        onClick={() => setShowQuizConfig(true)} 
+                                        className="ml-auto text-xs font-semibold text-indigo-600 dark:text-indigo-400 hover:underline flex items-center gap-1"
+                                    >
+                                        <SlidersHorizontal size={12} /> New Quiz
+                                    </button>
+                                )}
                             </div>
                             
-                            {/* CONDITIONAL RENDERING FOR QUIZ VS MARKDOWN */}
+                            {/* CONDITIONAL RENDERING FOR QUIZ / FLASHCARDS VS MARKDOWN */}
                             {generatedResult.mode === StudyMode.QUIZ ? (
                                 <QuizRunner 
                                     content={generatedResult.content} 
                                     title={session.title} 
+                                    sessionId={session.id}
                                     isDark={isDarkMode}
+                                    onQuestionsChange={handleQuizChange}
+                                    source={{ text: session.originalText, files: session.files }}
+                                    language={language}
                                 />
+                            ) : generatedResult.mode === StudyMode.FLASHCARDS ? (
+                                <FlashcardDeck content={generatedResult.content} isDark={isDarkMode} />
                             ) : (
-                                <MarkdownRenderer content={generatedResult.content} isDark={isDarkMode} />
+                                <MarkdownRenderer content={generatedResult.content} isDark={isDarkMode} files={session.files} onCitationClick={handleCitationClick} />
                             )}
                         </div>
                     ) : (
@@ -416,6 +567,8 @@ export const StudyViewer: React.FC<StudyViewerProps> = ({ session, onBack, onUpd
         </div>
 
       </div>
+
+      {showExport && <ExportDialog sessions={[session]} onClose={() => setShowExport(false)} />}
     </div>
   );
 };
\ No newline at end of file
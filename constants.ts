@@ -1,4 +1,4 @@
-import { StudyMode } from './types';
+import { StudyMode, QuizConfig, ExamBlueprint, MarkingScheme } from './types';
 
 export const APP_NAME = "Learnivia";
 
@@ -22,6 +22,37 @@ export const LANGUAGES = [
   "Korean"
 ];
 
+// Matches the quiz shape used before quizzes were configurable
+export const DEFAULT_QUIZ_CONFIG: QuizConfig = {
+  questionCount: 7,
+  types: ['mcq', 'short_answer'],
+  difficulty: 'mixed',
+  level: 'mixed'
+};
+
+// Starting point for the exam blueprint editor: 20 marks, objective then written questions
+export const DEFAULT_EXAM_BLUEPRINT: ExamBlueprint = {
+  sections: [
+    { id: 'A', title: 'Objective Questions', instructions: 'Answer all questions.', types: ['mcq', 'true_false', 'fill_blank'], marks: 8 },
+    { id: 'B', title: 'Written Answers', instructions: 'Answer all questions in full sentences.', types: ['short_answer', 'long_answer'], marks: 12 }
+  ],
+  topicWeights: {},
+  difficulty: 'mixed'
+};
+
+// Ready-made exam marking schemes; the first is the default
+export const MARKING_PRESETS: MarkingScheme[] = [
+  { name: 'Standard', rule: { wrongPenalty: 0, multiSelect: 'partial' } },
+  { name: 'JEE / NEET (-1/4)', rule: { wrongPenalty: 0.25, multiSelect: 'partial' } },
+  { name: 'Strict (-1/3)', rule: { wrongPenalty: 1 / 3, multiSelect: 'all_or_nothing' } }
+];
+
+// Default exam time limit, and the estimate used for exams logged without a recorded time
+export const EXAM_MINUTES_PER_MARK = 1.5;
+
+// Minutes left at which a timed exam shows a warning (only those shorter than the exam)
+export const EXAM_TIME_WARNINGS = [10, 5, 1];
+
 export const PROMPTS = {
   [StudyMode.EXPLAIN]: `You are an expert tutor. Explain the following text in simple, student-friendly language. Avoid complex jargon. Use analogies and break concepts into steps where possible. Format using Markdown.`,
   
@@ -31,22 +62,75 @@ export const PROMPTS = {
 Output PURE JSON matching this schema:
 Array<{
   id: number,
-  type: "mcq" | "short_answer",
+  type: "mcq" | "short_answer" | "true_false" | "multi_select" | "matching" | "ordering" | "numeric",
   question: string,
-  options?: string[], // Required for mcq. array of 4 strings.
-  correctAnswer: string, // The correct string value
+  options?: string[], // Required for mcq (4 strings) and multi_select (4-6 strings).
+  correctAnswer?: string, // Required for mcq, short_answer and true_false ("True" or "False").
+  correctAnswers?: string[], // Required for multi_select. Every option that must be selected (at least 2).
+  pairs?: Array<{ left: string, right: string }>, // Required for matching. 3-5 correct pairs.
+  sequence?: string[], // Required for ordering. 3-6 items in the correct order (steps, events on a timeline).
+  numericAnswer?: number, // Required for numeric.
+  tolerance?: number, // For numeric. Accepted absolute difference, e.g. for rounding.
+  unit?: string, // For numeric, e.g. "m/s" or "mol". Omit for unitless answers.
   explanation: string, // Why it is correct
-  keywords?: string[] // Required for short_answer. List of 3-5 key words that MUST be in the answer to be correct.
+  keywords?: string[], // Required for short_answer. List of 3-5 key words that MUST be in the answer to be correct.
+  difficulty: "easy" | "medium" | "hard",
+  level: "recall" | "application" | "analysis" // recall: remember facts; application: use a concept in a new situation; analysis: compare, break down or explain why
 }>
 
 Requirements:
-- Create 5 MCQs and 2 Short Answer questions.
+- Create exactly {{count}} questions: {{typeMix}}.
+- Difficulty: {{difficulty}}.
+- Cognitive level: {{level}}.
 - For MCQs, provide 4 options.
-- For Short Answer, provide a specific correct answer and keywords for grading.`,
+- For Short Answer, provide a specific correct answer and keywords for grading.
+- Only use numeric questions for quantities that can actually be calculated or looked up in the text.
+- Label every question with the difficulty and level it actually has.`,
   
-  [StudyMode.FLASHCARDS]: `Create a set of flashcards from the following text. Output format should be a list of "Term: Definition". Focus on key terminology and dates. Format using Markdown.`
+  [StudyMode.FLASHCARDS]: `Create a set of flashcards from the following text. Focus on key terminology, definitions and dates.
+Output PURE JSON matching this schema:
+Array<{
+  id: number,
+  front: string, // The term, date or short question
+  back: string, // The definition or answer, one or two sentences
+  tags: string[], // 1-3 short topic tags
+  source?: string // Where the card comes from: file name, section heading or page, if known
+}>
+
+Requirements:
+- Create 10-20 cards.
+- Each card tests exactly one fact.
+- Keep the front short enough to read at a glance.`
 };
 
+// Appended to the EXPLAIN and SUMMARIZE prompts, with the numbered source list
+export const CITATION_PROMPT = `CITATIONS:
+After each claim taken from the sources, cite where it came from in exactly this format: [[S1 p.3: "short quote"]]
+- S1, S2... are the attached sources listed below. Cite the student's notes as [[notes: "short quote"]].
+- p.3 is the PDF page the quote is on. Leave the page out for anything that isn't a PDF.
+- The quote is 3-15 words copied exactly from the source, so the student can find the passage.
+- Only cite what the sources actually say; explanations from general knowledge get no citation.
+
+SOURCES:
+{{sources}}`;
+
+// Map step for material too large for one request: each batch is condensed into notes first
+export const CHUNK_NOTES_PROMPT = `You are taking study notes from one part of a larger set of study material. This is part {{part}} of {{parts}}.
+Write detailed Markdown notes that cover EVERYTHING in this part: every concept, definition, formula, date, name, example and argument.
+- Keep the original terminology and every number exactly.
+- Do not add anything that isn't in the material, and skip introductions and conclusions; the notes from all parts are combined later.
+- Keep any [[...]] citations that are already in the text exactly as written, next to the notes they support.{{citations}}
+
+MATERIAL:`;
+
+export const CHUNK_CITATION_INSTRUCTION = `
+- After each note, cite where it came from in exactly this format: [[S1 p.3: "short quote"]], or [[notes: "short quote"]] for the student's notes.
+  The source label is given above each piece of material; the quote is 3-15 words copied exactly from it.`;
+
+// Tells the reduce step that its input is the condensed notes rather than the original material
+export const CONDENSED_SOURCE_NOTE = `The material was too long to read in one pass, so it was condensed part by part into the notes below.
+Treat them as the complete material and cover all of it.`;
+
 export const REVISION_PROMPT = `You are a high-performance study coach.
 Create a "Quick Revision Guide" based on the provided study session data (Explanation, Summary, Quiz, Flashcards).
 Synthesize all the available information into a single, cohesive, high-impact review document.
@@ -67,23 +151,128 @@ Output PURE JSON matching this schema:
 
 Array<{
   id: number,
-  type: "mcq" | "fill_blank" | "short_answer" | "long_answer",
+  type: "mcq" | "fill_blank" | "short_answer" | "long_answer" | "true_false" | "multi_select" | "matching" | "ordering" | "numeric",
   question: string,
-  options?: string[], // Required ONLY for mcq.
-  correctAnswer?: string, // Required for mcq, fill_blank.
+  options?: string[], // Required for mcq and multi_select.
+  correctAnswer?: string, // Required for mcq, fill_blank and true_false ("True" or "False").
+  correctAnswers?: string[], // Required for multi_select. Every option that must be selected.
+  pairs?: Array<{ left: string, right: string }>, // Required for matching. The correct pairs.
+  sequence?: string[], // Required for ordering. Items in the correct order.
+  numericAnswer?: number, // Required for numeric.
+  tolerance?: number, // For numeric. Accepted absolute difference.
+  unit?: string, // For numeric, when the answer has a unit.
   modelAnswer?: string, // Required for short_answer, long_answer. A detailed correct answer.
   explanation: string, // Explanation of the answer
   keywords?: string[], // Required for fill_blank, short_answer, long_answer. List of key terms for grading.
-  marks: number // 1 for mcq/fill_blank, 2-5 for others.
+  marks: number, // 1 for mcq/fill_blank/true_false, 2-3 for multi_select/matching/ordering/numeric, 2-5 for short/long answers.
+  section?: string, // The id of the blueprint section the question belongs to, when a blueprint is given.
+  topic: string, // The title of the session the question is drawn from.
+  difficulty: "easy" | "medium" | "hard"
 }>
 
 Requirements:
 1. Total Marks must sum up to exactly: {{marks}}
-2. Mix question types appropriately.
-3. Cover topics from ALL provided sessions.
+2. {{layout}}
+3. {{coverage}}
 4. For 'fill_blank', ensure the blank is indicated by "______" in the question.
+5. {{difficulty}}
+`;
+
+// Defaults for the EXAM_MODE_PROMPT placeholders when the paper has no blueprint
+export const EXAM_DEFAULT_LAYOUT = 'Mix question types appropriately.';
+export const EXAM_DEFAULT_COVERAGE = 'Cover topics from ALL provided sessions.';
+export const EXAM_DEFAULT_DIFFICULTY = 'Use a balanced mix of easy, medium and hard questions.';
+
+export const RUBRIC_GRADING_PROMPT = `You are a fair but rigorous examiner marking written exam answers.
+For each answer below you get the question, the marks available, the model answer and the key terms the marking scheme expects.
+
+For each answer:
+1. Derive 2-4 marking criteria from the model answer and key terms. Their max marks must add up to the marks available.
+2. Award marks per criterion (half marks allowed). Credit correct ideas even when they are paraphrased or use different words.
+   Do NOT award marks for key terms that are merely listed or used incorrectly.
+3. Give one sentence of feedback per criterion, list what the answer was missing, and write a one-sentence overall summary.
+
+Return PURE JSON matching this schema:
+Array<{
+  id: number, // The question id
+  score: number, // Total marks awarded, between 0 and the marks available
+  criteria: Array<{ criterion: string, awarded: number, max: number, feedback: string }>,
+  missing: string[],
+  summary: string
+}>
+
+ANSWERS TO GRADE:
 `;
 
+export const VERIFY_ANSWERS_PROMPT = `You are checking an answer key against the study material it was written from.
+For each question below, decide whether the given answer (and explanation, if any) is backed by the SOURCE MATERIAL.
+
+- "supported": the material states or directly implies the answer.
+- "unsupported": the material does not cover it, so the answer relies on outside knowledge.
+- "contradicted": the material says something different from the answer or explanation.
+
+Judge only against the material, not your own knowledge. For supported answers, quote the passage that backs the answer
+word for word (one or two sentences, copied exactly). For the others, say briefly in "note" what is missing or wrong.
+
+Return PURE JSON matching this schema:
+Array<{
+  id: number, // The question id
+  verdict: "supported" | "unsupported" | "contradicted",
+  confidence: number, // 0-1, how sure you are that the given answer is correct according to the material
+  excerpt?: string, // Verbatim quote from the material
+  note?: string
+}>
+`;
+
+// --- STRUCTURED OUTPUT REPAIR ---
+
+export const JSON_REPAIR_PROMPT = `The response below was supposed to be a JSON array of questions but it could not be parsed.
+Return the same questions as PURE JSON (a single array), fixing only the syntax. Do not add, remove or reword questions.
+
+Response:
+`;
+
+export const QUESTION_REPAIR_PROMPT = `Some generated {{kind}} questions failed validation. Each entry below has the question and the problems found with it.
+Fix ONLY the listed problems. Keep each question's id, type and topic.
+- An mcq must have at least 2 distinct options, and its correctAnswer must be copied exactly from one of the options.
+- A fill_blank question must contain "______" and have a correctAnswer.
+- short_answer and long_answer questions need keywords for grading (and a modelAnswer in exams).
+Return PURE JSON: an array containing only the corrected questions, in the original schema.
+
+Questions to fix:
+{{items}}`;
+
+export const MARKS_REPAIR_PROMPT = `The marks on this exam paper add up to {{current}} but must add up to exactly {{marks}}.
+Change ONLY the marks (1 for mcq/fill_blank, 2-5 for others) so the total is exactly {{marks}}.
+Return PURE JSON: Array<{ id: number, marks: number }> with one entry for every question.
+
+Paper:
+{{items}}`;
+
+export const BLUEPRINT_REPAIR_PROMPT = `This exam paper does not follow its blueprint.
+
+Blueprint:
+{{blueprint}}
+
+Problems:
+{{problems}}
+
+Return the complete corrected paper as PURE JSON, in the same schema, with every question's section, topic, difficulty and marks.
+Keep questions that are fine as they are. Move, re-mark, replace or add questions only as far as needed to fix the problems.
+
+Paper:
+{{items}}`;
+
+export const REGENERATE_QUESTION_PROMPT = `A student reported this {{kind}} question as wrong or unclear. Write ONE replacement question from the study material below.
+- Keep the same type: {{type}}.{{marks}}
+- Test a similar point, but fix whatever could make the original wrong or ambiguous. Do not reuse its wording.
+- Do not duplicate any of these questions:
+{{avoid}}
+Return PURE JSON: an array containing exactly one question, in the same schema as the original.
+
+Original question:
+{{question}}`;
+
 export const SYSTEM_INSTRUCTION_CHAT = `You are a friendly, helpful, and exam-focused AI study companion. Your goal is to help students understand complex topics. Keep answers concise, encouraging, and accurate. Use Markdown for formatting.`;
 
 export const INSIGHTS_PROMPT = `Generate a short, friendly study insight based on the student's analytics. 
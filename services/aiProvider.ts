@@ -0,0 +1,98 @@
+import { getEnvVar } from './env';
+import { createGeminiProvider } from './providers/geminiProvider';
+import { createOpenAICompatibleProvider } from './providers/openAICompatibleProvider';
+import { createFixtureProvider } from './providers/fixtureProvider';
+
+// --- PROVIDER CONTRACT ---
+
+// Which class of model a request needs. Providers map these to concrete model names.
+export type ModelTier = 'flash' | 'pro';
+
+// What a request is for. Lets providers (mainly the fixture one) pick a sensible response.
+export type AITask = 'explain' | 'summarize' | 'quiz' | 'flashcards' | 'revision' | 'exam' | 'insights' | 'repair' | 'grading' | 'verification' | 'condense';
+
+export type AIPart =
+  | { text: string }
+  | { inlineData: { mimeType: string; data: string } };
+
+export interface GenerateRequest {
+  task: AITask;
+  tier: ModelTier;
+  parts: AIPart[];
+  systemInstruction?: string;
+  json?: boolean; // Ask for a pure JSON response body
+  responseSchema?: object; // JSON Schema the response must follow. Providers without schema support fall back to `json`.
+  signal?: AbortSignal; // Providers must reject with an AbortError once this fires
+}
+
+export interface ChatReply {
+  text: string;
+  sources?: { web?: { uri: string; title: string } }[];
+}
+
+// One increment of a streamed chat reply. Grounding sources usually arrive with the last chunk.
+export interface ChatReplyChunk {
+  text: string;
+  sources?: ChatReply['sources'];
+}
+
+export interface ChatOptions {
+  systemInstruction: string;
+  webSearch?: boolean; // Ground replies with web search where the provider supports it
+}
+
+// A stateful conversation. Providers keep the message history themselves.
+export interface AIChatSession {
+  sendMessage: (parts: AIPart[], signal?: AbortSignal) => Promise<ChatReply>;
+  // Yields text deltas as they arrive. The turn is only added to history once the stream completes.
+  sendMessageStream: (parts: AIPart[], signal?: AbortSignal) => AsyncGenerator<ChatReplyChunk>;
+}
+
+export interface AIProvider {
+  name: string;
+  generateText: (request: GenerateRequest) => Promise<string>;
+  // Yields text deltas (not the accumulated text) as the model produces them
+  streamText: (request: GenerateRequest) => AsyncGenerator<string>;
+  createChat: (options: ChatOptions) => AIChatSession;
+}
+
+// --- PROVIDER SELECTION ---
+
+export type AIProviderName = 'gemini' | 'openai' | 'fixture';
+
+let activeProvider: AIProvider | null = null;
+
+const resolveProviderName = (): AIProviderName => {
+  const configured = (getEnvVar('VITE_AI_PROVIDER') || getEnvVar('AI_PROVIDER')).toLowerCase();
+  if (configured === 'openai' || configured === 'fixture') return configured;
+  return 'gemini';
+};
+
+const createProvider = (name: AIProviderName): AIProvider => {
+  switch (name) {
+    case 'openai':
+      return createOpenAICompatibleProvider({
+        baseUrl: getEnvVar('VITE_OPENAI_BASE_URL') || 'http://localhost:11434/v1',
+        apiKey: getEnvVar('VITE_OPENAI_API_KEY'),
+        model: getEnvVar('VITE_OPENAI_MODEL') || 'llama3.1',
+        proModel: getEnvVar('VITE_OPENAI_PRO_MODEL') || undefined
+      });
+    case 'fixture':
+      return createFixtureProvider();
+    default:
+      return createGeminiProvider({ apiKey: getEnvVar('VITE_API_KEY') || getEnvVar('GEMINI_API_KEY') });
+  }
+};
+
+// Lazily builds the provider chosen by VITE_AI_PROVIDER (defaults to Gemini).
+export const getAIProvider = (): AIProvider => {
+  if (!activeProvider) {
+    activeProvider = createProvider(resolveProviderName());
+  }
+  return activeProvider;
+};
+
+// Swap the active provider at runtime (e.g. tests injecting the fixture provider).
+export const setAIProvider = (provider: AIProvider | AIProviderName) => {
+  activeProvider = typeof provider === 'string' ? createProvider(provider) : provider;
+};
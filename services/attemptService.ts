@@ -0,0 +1,54 @@
+import { QuestionAttempt, GradeSummary } from "../types";
+import { GradableQuestion, AnswerSheet } from "./gradingService";
+
+// Per-question records of graded quizzes and exams, for analytics by question type and topic.
+
+export interface AttemptContext {
+  activityId?: string;
+  sessionId?: string;
+  origin: QuestionAttempt['origin'];
+  topic: string;
+}
+
+// Time spent on each question, in ms. Quizzes and exams show every question at once, so the
+// time since the previous answer (or the start) goes to the question being answered.
+export interface AnswerTimer {
+  last: number;
+  spent: { [questionId: number]: number };
+}
+
+// A long pause (student stepped away) shouldn't all count against the next question
+const MAX_GAP_MS = 5 * 60 * 1000;
+
+// --- API EXPORTS ---
+
+export const startAnswerTimer = (now: number = Date.now()): AnswerTimer => ({ last: now, spent: {} });
+
+export const markAnswerTime = (timer: AnswerTimer, questionId: number, now: number = Date.now()) => {
+  timer.spent[questionId] = (timer.spent[questionId] || 0) + Math.min(MAX_GAP_MS, Math.max(0, now - timer.last));
+  timer.last = now;
+};
+
+export const buildQuestionAttempts = (
+  context: AttemptContext,
+  questions: GradableQuestion[],
+  summary: GradeSummary,
+  answers: AnswerSheet,
+  timer?: AnswerTimer,
+  now: number = Date.now()
+): QuestionAttempt[] =>
+  questions.map((question, i) => {
+    const result = summary.results[i];
+    return {
+      ...context,
+      questionId: question.id,
+      questionText: question.question,
+      questionType: question.type,
+      answer: answers[question.id],
+      status: result?.status || 'unanswered',
+      score: result?.score || 0,
+      maxScore: result?.maxScore || 0,
+      timeTakenMs: timer ? timer.spent[question.id] : undefined,
+      timestamp: now
+    };
+  });
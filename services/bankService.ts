@@ -0,0 +1,226 @@
+import { StudySession, ExamItem, QuizItem, ExamBlueprint, ExamSection, BankQuestion, QuestionReport } from "../types";
+import { getQuestionBank, saveBankQuestions, saveQuestionReport } from "./storageService";
+import { generateExam, verifyAnswers, ExamOptions, QuestionSource } from "./geminiService";
+import { parseExamItems, parseQuizItems } from "./questionSchema";
+import { questionKeyFor } from "./mistakeService";
+import { v4 as uuidv4 } from 'uuid';
+
+// The question bank. Generated quiz and exam questions are kept per session so exams can be
+// assembled from them; the model is only asked for the marks the bank can't cover.
+
+export interface BankOptions extends ExamOptions {
+  useBank?: boolean; // When false the whole paper is generated, but its questions still go into the bank
+  verify?: boolean; // Check answers against the sessions' notes; bank questions keep their verdict
+}
+
+export interface AssembledExam {
+  items: ExamItem[];
+  reusedMarks: number; // Marks taken from the bank
+}
+
+// Marks a quiz question is worth once it is in an exam
+const QUIZ_ITEM_MARKS: { [type in QuizItem['type']]: number } = {
+  mcq: 1,
+  true_false: 1,
+  multi_select: 1,
+  numeric: 1,
+  short_answer: 2,
+  matching: 2,
+  ordering: 2
+};
+
+const ALL_TYPES: ExamItem['type'][] = ['mcq', 'fill_blank', 'short_answer', 'long_answer', 'true_false', 'multi_select', 'matching', 'ordering', 'numeric'];
+
+// --- HELPERS ---
+
+const bankKey = (sessionId: string, questionKey: string) => `${sessionId}::${questionKey}`;
+
+// Bank items belong to no paper, so they carry neither an id nor a section
+const toBankItem = (item: ExamItem): ExamItem => ({ ...item, id: 1, section: undefined });
+
+// New bank entries for the questions the bank doesn't already hold for their session
+const toBankQuestions = (
+  existing: BankQuestion[],
+  entries: { sessionId: string; item: ExamItem }[],
+  origin: BankQuestion['origin'],
+  now: number = Date.now()
+): BankQuestion[] => {
+  const known = new Set(existing.map(q => bankKey(q.sessionId, q.questionKey)));
+  const added: BankQuestion[] = [];
+  entries.forEach(({ sessionId, item }) => {
+    const questionKey = questionKeyFor(item.question);
+    const key = bankKey(sessionId, questionKey);
+    if (!questionKey || known.has(key)) return;
+    known.add(key);
+    added.push({ id: uuidv4(), sessionId, questionKey, item: toBankItem(item), origin, flagged: false, timesUsed: 0, createdAt: now, updatedAt: now });
+  });
+  return added;
+};
+
+// Target marks per session from the blueprint's topic weights (equal without a blueprint)
+const topicQuotas = (sessions: StudySession[], totalMarks: number, blueprint?: ExamBlueprint) => {
+  const weights = sessions.map(s => blueprint?.topicWeights[s.id] ?? 1);
+  const total = weights.reduce((acc, w) => acc + w, 0);
+  return new Map(sessions.map((s, i) => [s.id, total > 0 ? (weights[i] / total) * totalMarks : 0]));
+};
+
+// Every session's notes, titled so quoted excerpts can be traced back, plus all their attachments
+const examSource = (sessions: StudySession[]): QuestionSource => ({
+  text: sessions.filter(s => s.originalText).map(s => `=== ${s.title} ===\n${s.originalText}`).join('\n\n'),
+  files: sessions.flatMap(s => s.files || [])
+});
+
+// Fills a section greedily without going over its marks: least-used questions first, and among
+// those, the topic furthest below its share. Quotas are updated as questions are taken.
+const pickForSection = (candidates: BankQuestion[], marks: number, quotas: Map<string, number>, taken: Set<string>) => {
+  const pool = [...candidates].sort((a, b) => a.timesUsed - b.timesUsed || a.createdAt - b.createdAt);
+  const picked: BankQuestion[] = [];
+  let remaining = marks;
+
+  while (remaining > 0) {
+    const fits = pool.filter(q => !taken.has(q.id) && q.item.marks <= remaining);
+    if (fits.length === 0) break;
+    const leastUsed = fits.filter(q => q.timesUsed === fits[0].timesUsed);
+    const next = leastUsed.reduce((best, q) => ((quotas.get(q.sessionId) || 0) > (quotas.get(best.sessionId) || 0) ? q : best));
+    taken.add(next.id);
+    picked.push(next);
+    quotas.set(next.sessionId, (quotas.get(next.sessionId) || 0) - next.item.marks);
+    remaining -= next.item.marks;
+  }
+  return { picked, remaining };
+};
+
+// --- API EXPORTS ---
+
+// Exam questions are labelled with the title of the session they came from
+export const sessionFor = (item: ExamItem, sessions: StudySession[]) => {
+  const topic = item.topic?.trim().toLowerCase();
+  return sessions.find(s => s.title.trim().toLowerCase() === topic) || sessions[0];
+};
+
+// Quiz questions become exam questions; short answers keep their answer as the model answer
+export const quizItemToExamItem = (item: QuizItem, topic: string): ExamItem => {
+  const { level, ...rest } = item;
+  return {
+    ...rest,
+    marks: QUIZ_ITEM_MARKS[item.type] || 1,
+    modelAnswer: item.type === 'short_answer' ? item.correctAnswer : undefined,
+    topic
+  };
+};
+
+export const collectQuestions = async (entries: { sessionId: string; item: ExamItem }[], origin: BankQuestion['origin']) => {
+  if (entries.length === 0) return [];
+  const added = toBankQuestions(await getQuestionBank(), entries, origin);
+  await saveBankQuestions(added);
+  return added;
+};
+
+// Called after a quiz is generated for a saved session
+export const collectQuiz = async (sessionId: string, topic: string, content: string) => {
+  try {
+    const items = parseQuizItems(content);
+    return await collectQuestions(items.map(item => ({ sessionId, item: quizItemToExamItem(item, topic) })), 'quiz');
+  } catch (e) {
+    console.error("Question Bank Error:", e);
+    return [];
+  }
+};
+
+// Keeps the bank copy of a question in step with edits and reports made in quizzes and exams.
+// The bank keeps its own marks and topic; questions that aren't in the bank are left alone.
+export const updateInBank = async (sessionId: string, question: string, changes: { item?: ExamItem; flagged?: boolean }) => {
+  const key = questionKeyFor(question);
+  const existing = (await getQuestionBank()).find(q => q.sessionId === sessionId && q.questionKey === key);
+  if (!existing) return;
+
+  const item = changes.item ? { ...toBankItem(changes.item), marks: existing.item.marks, topic: existing.item.topic } : existing.item;
+  await saveBankQuestions([{
+    ...existing,
+    item,
+    questionKey: questionKeyFor(item.question),
+    flagged: changes.flagged ?? existing.flagged,
+    updatedAt: Date.now()
+  }]);
+};
+
+// Records the report and flags the bank copy, so the question stays out of exams until it is fixed
+export const reportQuestion = async (source: { sessionId?: string; topic: string; origin: QuestionReport['origin'] }, question: QuizItem | ExamItem, note?: string) => {
+  const report: QuestionReport = {
+    id: uuidv4(),
+    ...source,
+    questionKey: questionKeyFor(question.question),
+    question,
+    note: note?.trim() || undefined,
+    createdAt: Date.now()
+  };
+  const saved = await saveQuestionReport(report);
+  if (source.sessionId) await updateInBank(source.sessionId, question.question, { flagged: true });
+  return saved;
+};
+
+// Builds a paper from the sessions' unflagged bank questions, following the blueprint's sections,
+// topic weights and difficulty, and generates only the marks that are left over. Generated
+// questions join the bank, and the ones reused count another use. With `verify`, answers are
+// checked against the sessions' notes first.
+export const assembleExam = async (
+  sessions: StudySession[],
+  totalMarks: number,
+  language: string = 'English',
+  { signal, blueprint, useBank = true, verify }: BankOptions = {}
+): Promise<AssembledExam> => {
+  const bank = await getQuestionBank();
+  const sessionIds = new Set(sessions.map(s => s.id));
+  const candidates = useBank
+    ? bank.filter(q => sessionIds.has(q.sessionId) && !q.flagged
+      && (!blueprint || blueprint.difficulty === 'mixed' || q.item.difficulty === blueprint.difficulty))
+    : [];
+
+  const sections: ExamSection[] = blueprint?.sections
+    || [{ id: '', title: '', instructions: '', types: ALL_TYPES, marks: totalMarks }];
+  const quotas = topicQuotas(sessions, totalMarks, blueprint);
+  const taken = new Set<string>();
+  const fills = sections.map(section => ({
+    section,
+    ...pickForSection(candidates.filter(q => section.types.includes(q.item.type)), section.marks, quotas, taken)
+  }));
+
+  const gapMarks = fills.reduce((acc, f) => acc + f.remaining, 0);
+  let generated: ExamItem[] = [];
+  if (gapMarks > 0) {
+    const gapBlueprint = blueprint && {
+      ...blueprint,
+      sections: fills.filter(f => f.remaining > 0).map(f => ({ ...f.section, marks: f.remaining }))
+    };
+    generated = parseExamItems(await generateExam(sessions, gapMarks, language, { signal, blueprint: gapBlueprint }));
+  }
+
+  // Bank questions verified on an earlier paper are skipped by verifyAnswers
+  if (verify) {
+    const picked = fills.flatMap(f => f.picked);
+    const checked = await verifyAnswers(
+      [...picked.map(q => q.item), ...generated].map((item, i) => ({ ...item, id: i + 1 })),
+      examSource(sessions),
+      language,
+      { signal }
+    );
+    const withVerdict = (item: ExamItem, i: number) => ({ ...item, verification: checked[i].verification });
+    fills.forEach(f => { f.picked = f.picked.map(q => ({ ...q, item: withVerdict(q.item, picked.indexOf(q)) })); });
+    generated = generated.map((item, i) => withVerdict(item, picked.length + i));
+  }
+
+  const inSection = (section: ExamSection) => blueprint ? { section: section.id } : {};
+  const items = fills
+    .flatMap(({ section, picked }) => [
+      ...picked.map(q => ({ ...q.item, ...inSection(section) })),
+      ...generated.filter(item => !blueprint || item.section === section.id)
+    ])
+    .map((item, i) => ({ ...item, id: i + 1 }));
+
+  const now = Date.now();
+  const used = fills.flatMap(f => f.picked).map(q => ({ ...q, timesUsed: q.timesUsed + 1, updatedAt: now }));
+  const added = toBankQuestions(bank, generated.map(item => ({ sessionId: sessionFor(item, sessions).id, item })), 'exam', now);
+  await saveBankQuestions([...used, ...added]);
+
+  return { items, reusedMarks: used.reduce((acc, q) => acc + q.item.marks, 0) };
+};
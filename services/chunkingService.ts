@@ -0,0 +1,116 @@
+import { AIPart } from "./aiProvider";
+
+// Splits study material that is too large for one request into batches, so it can be condensed
+// batch by batch (map) before the final generation runs on the combined notes (reduce).
+// Nothing here calls a model; geminiService.ts drives the requests.
+
+export interface SourceUnit {
+  label: string; // Names the source, e.g. "[S2] lecture.pdf", so notes can cite it
+  part: AIPart;
+}
+
+// Text a single request may carry, in characters (roughly 10k tokens)
+export const CHUNK_CHARS = 40000;
+
+// Base64 characters of inline attachments per request, well under the providers' request limits
+export const MAX_INLINE_CHARS = 14000000;
+
+// Batches condensed at the same time. Rate-limited requests back off and retry on top of this.
+export const MAX_PARALLEL_CHUNKS = 3;
+
+// Notes still too long after this many condensing passes are used as they are
+export const MAX_CONDENSE_ROUNDS = 3;
+
+// Smallest share of an exam request a session's notes are condensed to
+export const MIN_SESSION_CHARS = 4000;
+
+// --- HELPERS ---
+
+const textOf = (part: AIPart) => ('text' in part ? part.text : '');
+const inlineSizeOf = (part: AIPart) => ('inlineData' in part ? part.inlineData.data.length : 0);
+
+// Prefers paragraph breaks, then line and sentence ends, so chunks don't cut through a sentence
+const findCut = (text: string, size: number) => {
+  const window = text.slice(0, size);
+  const floor = Math.floor(size / 2);
+  for (const separator of ['\n\n', '\n', '. ']) {
+    const at = window.lastIndexOf(separator);
+    if (at >= floor) return at + separator.length;
+  }
+  return size;
+};
+
+// --- API EXPORTS ---
+
+export const splitText = (text: string, size: number = CHUNK_CHARS): string[] => {
+  const chunks: string[] = [];
+  let rest = text.trim();
+  while (rest.length > size) {
+    const cut = findCut(rest, size);
+    chunks.push(rest.slice(0, cut).trim());
+    rest = rest.slice(cut).trim();
+  }
+  if (rest) chunks.push(rest);
+  return chunks;
+};
+
+// Long text parts become several units, each labelled with its place in the source
+export const toSourceUnits = (label: string, part: AIPart, size: number = CHUNK_CHARS): SourceUnit[] => {
+  if (!('text' in part) || part.text.length <= size) return [{ label, part }];
+  const chunks = splitText(part.text, size);
+  return chunks.map((text, i) => ({ label: `${label} (part ${i + 1} of ${chunks.length})`, part: { text } }));
+};
+
+// Packs units in order into as few batches as fit the limits. A unit that is larger than a
+// whole batch on its own (an oversized PDF) still gets a batch to itself.
+export const packBatches = (units: SourceUnit[], maxChars: number = CHUNK_CHARS): SourceUnit[][] => {
+  const batches: SourceUnit[][] = [];
+  let batch: SourceUnit[] = [];
+  let chars = 0;
+  let inline = 0;
+
+  units.forEach(unit => {
+    const unitChars = textOf(unit.part).length;
+    const unitInline = inlineSizeOf(unit.part);
+    if (batch.length > 0 && (chars + unitChars > maxChars || inline + unitInline > MAX_INLINE_CHARS)) {
+      batches.push(batch);
+      batch = [];
+      chars = 0;
+      inline = 0;
+    }
+    batch.push(unit);
+    chars += unitChars;
+    inline += unitInline;
+  });
+  if (batch.length > 0) batches.push(batch);
+  return batches;
+};
+
+// Each batch is sent as its units' parts, every one preceded by its label
+export const batchToParts = (batch: SourceUnit[]): AIPart[] =>
+  batch.flatMap((unit): AIPart[] => ('text' in unit.part
+    ? [{ text: `${unit.label}\n${unit.part.text}` }]
+    : [{ text: unit.label }, unit.part]));
+
+// Runs `fn` over every item with at most `limit` calls in flight; results keep the items' order.
+// The first failure rejects, and no new calls are started after it.
+export const mapWithLimit = async <T, R>(items: T[], fn: (item: T, index: number) => Promise<R>, limit: number = MAX_PARALLEL_CHUNKS): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  let failed = false;
+
+  const worker = async () => {
+    while (!failed && next < items.length) {
+      const index = next++;
+      try {
+        results[index] = await fn(items[index], index);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+};
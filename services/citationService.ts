@@ -0,0 +1,67 @@
+import { Citation, StudyFile } from "../types";
+
+// Source citations in generated explanations and summaries. The model writes them inline as
+// [[S2 p.4: "quoted words"]] (S1 is the first attached file) or [[notes: "quoted words"]];
+// they are stored that way and only turned into markers when rendered.
+
+export interface CitedMarkdown {
+  markdown: string; // Citations replaced by links to #cite-<index>
+  citations: Citation[];
+}
+
+const CITATION_PATTERN = /\[\[\s*(?:S(\d+)|notes)\s*(?:,?\s*p(?:age|\.)?\s*(\d+))?\s*:\s*["“]([^"”\]]+)["”]\s*\]\]/gi;
+
+// A citation that is still streaming in is hidden until it is complete
+const UNFINISHED_CITATION = /\[\[[^\]]*$/;
+
+export const CITATION_LINK_PREFIX = '#cite-';
+
+// --- HELPERS ---
+
+const toCitation = (fileNumber: string | undefined, page: string | undefined, quote: string): Citation => ({
+  source: fileNumber ? parseInt(fileNumber, 10) - 1 : 'notes',
+  page: page ? parseInt(page, 10) : undefined,
+  quote: quote.trim()
+});
+
+const sameCitation = (a: Citation, b: Citation) => a.source === b.source && a.page === b.page && a.quote === b.quote;
+
+// --- API EXPORTS ---
+
+// The source list sent with the prompt, in the same order as the attached file parts
+export const describeSources = (files: StudyFile[] = [], hasNotes: boolean) => [
+  ...files.map((file, i) => `[S${i + 1}] ${file.name}${file.mimeType === 'application/pdf' ? ' (PDF)' : ''}`),
+  hasNotes ? '[notes] The student\'s copied notes (the text below)' : ''
+].filter(Boolean).join('\n');
+
+// Repeated citations share a number, like footnotes
+export const parseCitations = (content: string): CitedMarkdown => {
+  const citations: Citation[] = [];
+  const markdown = content
+    .replace(UNFINISHED_CITATION, '')
+    .replace(CITATION_PATTERN, (_, fileNumber, page, quote) => {
+      const citation = toCitation(fileNumber, page, quote);
+      let index = citations.findIndex(c => sameCitation(c, citation));
+      if (index === -1) index = citations.push(citation) - 1;
+      return `[${index + 1}](${CITATION_LINK_PREFIX}${index})`;
+    });
+  return { markdown, citations };
+};
+
+// For prompts that reuse generated text, where the markers are only noise
+export const stripCitations = (content: string) =>
+  content.replace(new RegExp(`[ \\t]*${CITATION_PATTERN.source}`, 'gi'), '').replace(UNFINISHED_CITATION, '');
+
+export const citationLabel = (citation: Citation, files: StudyFile[] = []) => {
+  const name = citation.source === 'notes' ? 'Your notes' : files[citation.source]?.name || `Source ${citation.source + 1}`;
+  return citation.page ? `${name}, p. ${citation.page}` : name;
+};
+
+// Where the quote is in the text, ignoring case and differences in whitespace
+export const locateQuote = (text: string, quote: string): { start: number; end: number } | null => {
+  const words = quote.replace(/…$/, '').trim().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return null;
+  const pattern = new RegExp(words.map(w => w.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('\\s+'), 'i');
+  const match = pattern.exec(text);
+  return match ? { start: match.index, end: match.index + match[0].length } : null;
+};
@@ -0,0 +1,18 @@
+// Helper to safely access env vars (handling both process.env and import.meta.env contexts)
+export const getEnvVar = (key: string): string => {
+  try {
+    if (typeof process !== 'undefined' && process.env && process.env[key]) {
+      return process.env[key] as string;
+    }
+  } catch (e) { /* ignore */ }
+  
+  try {
+    // @ts-ignore
+    if (typeof import.meta !== 'undefined' && import.meta.env && import.meta.env[key]) {
+      // @ts-ignore
+      return import.meta.env[key];
+    }
+  } catch (e) { /* ignore */ }
+
+  return '';
+};
@@ -0,0 +1,226 @@
+import { ExamPaper, ExamItem, ExamSection } from "../types";
+import { escapeHtml, toTag } from "./exportService";
+import { isLowConfidence } from "./questionSchema";
+
+// Print-ready exam papers and answer keys, built client-side from the paper's questions.
+// The HTML is self-contained (inline CSS, no scripts), so it can be downloaded as-is or printed
+// from a hidden frame, where the browser's "Save as PDF" produces the PDF.
+
+export type PrintDocument = 'paper' | 'key' | 'both';
+export type AnswerSpace = 'lines' | 'boxes';
+
+export interface PrintOptions {
+  document: PrintDocument;
+  answerSpace: AnswerSpace; // How room for written answers is drawn
+  timeLimitMinutes?: number; // Shown in the header when set
+}
+
+interface PrintSection {
+  section?: ExamSection; // Missing for papers without a blueprint
+  questions: { item: ExamItem; number: number }[];
+}
+
+const STYLES = `
+@page { size: A4; margin: 18mm 16mm; }
+* { box-sizing: border-box; }
+body { font-family: Georgia, 'Times New Roman', serif; font-size: 11pt; line-height: 1.45; color: #111; margin: 0 auto; max-width: 180mm; padding: 8mm 0; }
+h1 { font-size: 18pt; margin: 0 0 2mm; }
+h2 { font-size: 13pt; margin: 8mm 0 1mm; border-bottom: 1px solid #111; padding-bottom: 1mm; }
+.meta { display: flex; justify-content: space-between; font-size: 10pt; margin-bottom: 4mm; }
+.candidate { display: flex; gap: 8mm; margin: 4mm 0; font-size: 10pt; }
+.candidate span { flex: 1; border-bottom: 1px solid #111; padding-bottom: 1mm; }
+.instructions { font-size: 10pt; font-style: italic; margin: 1mm 0 3mm; }
+.question { break-inside: avoid; margin: 5mm 0; }
+.question-head { display: flex; gap: 3mm; }
+.number { font-weight: bold; min-width: 7mm; }
+.text { flex: 1; }
+.marks { white-space: nowrap; font-size: 10pt; }
+.options { list-style: upper-alpha; margin: 2mm 0 0 12mm; padding-left: 5mm; }
+.options li { margin: 1mm 0; }
+.choice::before { content: ''; display: inline-block; width: 3mm; height: 3mm; border: 1px solid #111; margin-right: 2mm; vertical-align: middle; }
+.bubble::before { border-radius: 50%; }
+.columns { display: flex; gap: 10mm; margin: 2mm 0 0 10mm; }
+.columns ol { margin: 0; padding-left: 6mm; }
+.columns li { margin: 1mm 0; }
+.lettered { list-style: upper-alpha; }
+.fill { display: inline-block; min-width: 12mm; border-bottom: 1px solid #111; margin-right: 2mm; }
+.line { border-bottom: 1px solid #999; height: 8mm; margin-left: 10mm; }
+.box { border: 1px solid #111; margin: 2mm 0 0 10mm; }
+.key-entry { break-inside: avoid; margin: 4mm 0; }
+.key-entry p { margin: 1mm 0 1mm 10mm; }
+.label { font-weight: bold; }
+.page-break { break-before: page; }
+`;
+
+// --- HELPERS ---
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+// Questions in paper order, grouped under their blueprint sections; numbering runs across sections
+const printSections = (paper: ExamPaper): PrintSection[] => {
+  const numbered = paper.items.map((item, i) => ({ item, number: i + 1 }));
+  const sections = paper.blueprint?.sections || [];
+  if (sections.length === 0) return [{ questions: numbered }];
+
+  const grouped: PrintSection[] = sections.map(section => ({ section, questions: numbered.filter(q => q.item.section === section.id) }));
+  const unsectioned = numbered.filter(q => !sections.some(s => s.id === q.item.section));
+  return [...grouped, ...(unsectioned.length > 0 ? [{ questions: unsectioned }] : [])].filter(g => g.questions.length > 0);
+};
+
+// Room for a written answer grows with the marks on offer
+const answerLines = (item: ExamItem) =>
+  item.type === 'long_answer' ? Math.min(24, 4 + item.marks * 2) : item.type === 'short_answer' ? 2 + item.marks : 1;
+
+const answerArea = (lines: number, answerSpace: AnswerSpace) =>
+  answerSpace === 'boxes'
+    ? `<div class="box" style="height: ${lines * 8}mm"></div>`
+    : Array.from({ length: lines }, () => '<div class="line"></div>').join('');
+
+// Alphabetical, so the printed order gives nothing away; an ordering question that is
+// already alphabetical is rotated by one
+const printedOrder = (items: string[], avoid?: string[]) => {
+  const sorted = [...items].sort((a, b) => a.localeCompare(b));
+  return avoid && sorted.length > 1 && sorted.every((item, i) => item === avoid[i]) ? [...sorted.slice(1), sorted[0]] : sorted;
+};
+
+const letter = (index: number) => String.fromCharCode(65 + index);
+
+// The key refers to options by the letters printed on the paper
+const keyAnswer = (item: ExamItem) => {
+  if (item.type === 'mcq' && item.options && item.correctAnswer) {
+    const index = item.options.indexOf(item.correctAnswer);
+    return index >= 0 ? `${letter(index)} (${item.correctAnswer})` : item.correctAnswer;
+  }
+  if (item.type === 'matching' && item.pairs) {
+    const rights = printedOrder(item.pairs.map(p => p.right));
+    return item.pairs.map((p, i) => `${i + 1} → ${letter(rights.indexOf(p.right))} (${p.left} → ${p.right})`).join('; ');
+  }
+  return item.correctAnswer;
+};
+
+const renderResponse = (item: ExamItem, answerSpace: AnswerSpace): string => {
+  const list = (items: string[], className: string) =>
+    `<ol class="options">${items.map(o => `<li><span class="choice ${className}"></span>${escapeHtml(o)}</li>`).join('')}</ol>`;
+
+  switch (item.type) {
+    case 'mcq':
+    case 'true_false':
+      return list(item.options || ['True', 'False'], 'bubble');
+    case 'multi_select':
+      return `<p class="instructions">Tick all that apply.</p>${list(item.options || [], '')}`;
+    case 'matching': {
+      const pairs = item.pairs || [];
+      return `<p class="instructions">Write the letter of the matching item next to each number.</p><div class="columns">
+        <ol>${pairs.map(p => `<li><span class="fill"></span>${escapeHtml(p.left)}</li>`).join('')}</ol>
+        <ol class="lettered">${printedOrder(pairs.map(p => p.right)).map(r => `<li>${escapeHtml(r)}</li>`).join('')}</ol>
+      </div>`;
+    }
+    case 'ordering': {
+      const sequence = item.sequence || [];
+      return `<p class="instructions">Number the items in the correct order.</p><div class="columns"><ol style="list-style: none">${
+        printedOrder(sequence, sequence).map(s => `<li><span class="fill"></span>${escapeHtml(s)}</li>`).join('')
+      }</ol></div>`;
+    }
+    case 'numeric':
+      return `<div class="columns"><span>Answer: <span class="fill" style="min-width: 40mm"></span>${item.unit ? escapeHtml(item.unit) : ''}</span></div>`;
+    case 'fill_blank':
+      return '';
+    default:
+      return answerArea(answerLines(item), answerSpace);
+  }
+};
+
+const renderQuestion = (item: ExamItem, number: number, answerSpace: AnswerSpace) => `
+  <div class="question">
+    <div class="question-head">
+      <span class="number">${number}.</span>
+      <span class="text">${escapeHtml(item.question)}</span>
+      <span class="marks">[${plural(item.marks, 'mark')}]</span>
+    </div>
+    ${renderResponse(item, answerSpace)}
+  </div>`;
+
+const renderKeyEntry = (item: ExamItem, number: number) => {
+  const rows = [
+    item.correctAnswer && `<p><span class="label">Answer:</span> ${escapeHtml(keyAnswer(item) || '')}</p>`,
+    item.modelAnswer && `<p><span class="label">Model answer:</span> ${escapeHtml(item.modelAnswer)}</p>`,
+    item.keywords?.length && (item.type === 'short_answer' || item.type === 'long_answer')
+      && `<p><span class="label">Marking points:</span> ${item.keywords.map(escapeHtml).join('; ')}</p>`,
+    item.explanation && `<p><span class="label">Explanation:</span> ${escapeHtml(item.explanation)}</p>`,
+    item.verification?.excerpt && `<p><span class="label">Source:</span> &ldquo;${escapeHtml(item.verification.excerpt)}&rdquo;</p>`,
+    isLowConfidence(item.verification) && `<p><span class="label">Check this answer:</span> ${escapeHtml(item.verification?.note || 'not backed up by the notes')}</p>`
+  ].filter(Boolean);
+
+  return `
+  <div class="key-entry">
+    <div class="question-head">
+      <span class="number">${number}.</span>
+      <span class="text">${escapeHtml(item.question)}</span>
+      <span class="marks">[${plural(item.marks, 'mark')}]</span>
+    </div>
+    ${rows.join('')}
+  </div>`;
+};
+
+const sectionHeading = (group: PrintSection) => {
+  if (!group.section) return '';
+  const { id, title, instructions, marks } = group.section;
+  return `<h2>Section ${escapeHtml(id)}: ${escapeHtml(title)} <span class="marks">(${plural(marks, 'mark')})</span></h2>${
+    instructions ? `<p class="instructions">${escapeHtml(instructions)}</p>` : ''
+  }`;
+};
+
+const renderPaper = (paper: ExamPaper, { answerSpace, timeLimitMinutes }: PrintOptions) => `
+  <h1>${escapeHtml(paper.title)}</h1>
+  <div class="meta">
+    <span>Total: ${plural(paper.totalMarks, 'mark')}</span>
+    ${timeLimitMinutes ? `<span>Time allowed: ${plural(timeLimitMinutes, 'minute')}</span>` : ''}
+  </div>
+  <div class="candidate"><span>Name:</span><span>Date:</span></div>
+  <p class="instructions">Answer all questions in the spaces provided. The marks for each question are shown in brackets.</p>
+  ${printSections(paper).map(group => sectionHeading(group) + group.questions.map(q => renderQuestion(q.item, q.number, answerSpace)).join('')).join('')}`;
+
+const renderKey = (paper: ExamPaper) => `
+  <h1>${escapeHtml(paper.title)}: Answer Key</h1>
+  <div class="meta"><span>Total: ${plural(paper.totalMarks, 'mark')}</span></div>
+  ${printSections(paper).map(group => sectionHeading(group) + group.questions.map(q => renderKeyEntry(q.item, q.number)).join('')).join('')}`;
+
+// --- API EXPORTS ---
+
+export const buildExamHtml = (paper: ExamPaper, options: PrintOptions): string => {
+  const parts = [
+    options.document !== 'key' ? renderPaper(paper, options) : '',
+    options.document === 'both' ? '<div class="page-break"></div>' : '',
+    options.document !== 'paper' ? renderKey(paper) : ''
+  ];
+  const title = options.document === 'key' ? `${paper.title} - Answer Key` : paper.title;
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>${STYLES}</style>
+</head>
+<body>${parts.join('')}</body>
+</html>`;
+};
+
+export const examPrintFileName = (paper: ExamPaper, kind: PrintDocument) =>
+  `${toTag(paper.title) || 'exam'}-${kind === 'key' ? 'answer-key' : kind === 'both' ? 'exam-and-key' : 'exam'}.html`;
+
+// Opens the browser's print dialog for the document without leaving the app
+export const printHtml = (html: string) => {
+  const frame = document.createElement('iframe');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  frame.onload = () => {
+    frame.contentWindow?.focus();
+    frame.contentWindow?.print();
+    // print() blocks in most browsers; the delay covers the ones where it doesn't
+    setTimeout(() => frame.remove(), 60000);
+  };
+  frame.srcdoc = html;
+  document.body.appendChild(frame);
+};
@@ -0,0 +1,282 @@
+import { StudySession, QuizItem } from "../types";
+import { parseFlashcards } from "./flashcardService";
+import { parseQuizItems } from "./questionSchema";
+import { extractKeywords } from "./storageService";
+import { loadSqlJs } from "./sqlJs";
+
+// Exports sessions as Anki packages (.apkg) or delimited text that Anki's importer understands.
+// Each session becomes a sub-deck of "Learnivia", and every note is tagged with the session
+// title and its topic keywords so the cards stay organised once they're in the collection.
+
+export type ExportFormat = 'apkg' | 'csv' | 'tsv';
+export type QuizNoteStyle = 'none' | 'basic' | 'cloze';
+
+export interface ExportOptions {
+  format: ExportFormat;
+  quizStyle: QuizNoteStyle; // How quiz questions are included, if at all
+}
+
+interface ExportNote {
+  guid: string; // Stable, so re-importing updates notes instead of duplicating them
+  deck: string;
+  kind: 'basic' | 'cloze';
+  fields: [string, string]; // Front/Back, or Text/Back Extra for cloze
+  tags: string[];
+}
+
+const ROOT_DECK = 'Learnivia';
+
+// --- HELPERS ---
+
+export const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Anki tags can't contain spaces (also used for file names)
+export const toTag = (text: string) =>
+  text.trim().toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '_').replace(/^_+|_+$/g, '');
+
+// "::" nests decks in Anki, so it can't appear in a session title
+const deckNameFor = (session: StudySession) =>
+  `${ROOT_DECK}::${(session.title || 'Untitled Session').replace(/::/g, ':').trim()}`;
+
+const sessionTags = (session: StudySession) => {
+  const keywords = extractKeywords(`${session.title} ${session.originalText || ''}`);
+  return [`learnivia::${toTag(session.title || 'untitled')}`, ...keywords.map(toTag)].filter(Boolean);
+};
+
+const quizNote = (session: StudySession, item: QuizItem, style: 'basic' | 'cloze', tags: string[]): ExportNote => {
+  const question = escapeHtml(item.question);
+  const options = item.options && item.type !== 'true_false'
+    ? `<ol type="A">${item.options.map(o => `<li>${escapeHtml(o)}</li>`).join('')}</ol>`
+    : '';
+  const answer = escapeHtml(item.correctAnswer);
+  const explanation = item.explanation ? escapeHtml(item.explanation) : '';
+  const quizTags = [...tags, 'quiz', item.difficulty, item.level].filter((t): t is string => !!t);
+  const guid = `${session.id}:quiz:${item.question}`;
+
+  return style === 'cloze'
+    ? {
+        guid,
+        deck: deckNameFor(session),
+        kind: 'cloze',
+        fields: [`${question}${options}<br><br>{{c1::${answer.replace(/}}/g, '} }')}}}`, explanation],
+        tags: quizTags
+      }
+    : {
+        guid,
+        deck: deckNameFor(session),
+        kind: 'basic',
+        fields: [`${question}${options}`, explanation ? `${answer}<br><br>${explanation}` : answer],
+        tags: quizTags
+      };
+};
+
+const notesForSession = (session: StudySession, quizStyle: QuizNoteStyle): ExportNote[] => {
+  const tags = sessionTags(session);
+  const deck = deckNameFor(session);
+
+  const cards: ExportNote[] = session.flashcards
+    ? parseFlashcards(session.flashcards).map(card => ({
+        guid: `${session.id}:card:${card.front.trim().toLowerCase()}`,
+        deck,
+        kind: 'basic',
+        fields: [
+          escapeHtml(card.front),
+          card.source ? `${escapeHtml(card.back)}<br><br><small>${escapeHtml(card.source)}</small>` : escapeHtml(card.back)
+        ],
+        tags: [...tags, ...card.tags.map(toTag)]
+      }))
+    : [];
+
+  let questions: ExportNote[] = [];
+  if (quizStyle !== 'none' && session.quiz) {
+    try {
+      questions = parseQuizItems(session.quiz).map(item => quizNote(session, item, quizStyle, tags));
+    } catch (e) {
+      console.warn(`Skipping unreadable quiz in "${session.title}"`, e);
+    }
+  }
+
+  return [...cards, ...questions].map(note => ({ ...note, tags: Array.from(new Set(note.tags)) }));
+};
+
+// --- DELIMITED TEXT ---
+
+const quoteCsv = (value: string) => (/[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+// Header lines tell Anki (2.1.55+) which columns hold the tags, deck and note type
+const toDelimited = (notes: ExportNote[], format: 'csv' | 'tsv'): string => {
+  const separator = format === 'csv' ? ',' : '\t';
+  const cell = (value: string) => (format === 'csv' ? quoteCsv(value) : value.replace(/[\t\r\n]+/g, ' '));
+  const header = [
+    `#separator:${format === 'csv' ? 'Comma' : 'Tab'}`,
+    '#html:true',
+    '#tags column:3',
+    '#deck column:4',
+    '#notetype column:5'
+  ];
+  const rows = notes.map(note =>
+    [...note.fields, note.tags.join(' '), note.deck, note.kind === 'cloze' ? 'Cloze' : 'Basic'].map(cell).join(separator)
+  );
+  return [...header, ...rows].join('\n');
+};
+
+// --- ANKI PACKAGE ---
+
+// Anki 2.1 collection schema (version 11), which every current Anki release can import
+const APKG_SCHEMA = `
+CREATE TABLE col (id integer primary key, crt integer not null, mod integer not null, scm integer not null, ver integer not null, dty integer not null, usn integer not null, ls integer not null, conf text not null, models text not null, decks text not null, dconf text not null, tags text not null);
+CREATE TABLE notes (id integer primary key, guid text not null, mid integer not null, mod integer not null, usn integer not null, tags text not null, flds text not null, sfld integer not null, csum integer not null, flags integer not null, data text not null);
+CREATE TABLE cards (id integer primary key, nid integer not null, did integer not null, ord integer not null, mod integer not null, usn integer not null, type integer not null, queue integer not null, due integer not null, ivl integer not null, factor integer not null, reps integer not null, lapses integer not null, left integer not null, odue integer not null, odid integer not null, flags integer not null, data text not null);
+CREATE TABLE revlog (id integer primary key, cid integer not null, usn integer not null, ease integer not null, ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null, type integer not null);
+CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null);
+CREATE INDEX ix_notes_usn on notes (usn);
+CREATE INDEX ix_cards_usn on cards (usn);
+CREATE INDEX ix_revlog_usn on revlog (usn);
+CREATE INDEX ix_cards_nid on cards (nid);
+CREATE INDEX ix_cards_sched on cards (did, queue, due);
+CREATE INDEX ix_revlog_cid on revlog (cid);
+CREATE INDEX ix_notes_csum on notes (csum);
+`;
+
+// Fixed model ids, so repeated exports land in the same note types
+const BASIC_MODEL_ID = 1607392319001;
+const CLOZE_MODEL_ID = 1607392319002;
+
+const MODEL_CSS = '.card { font-family: arial; font-size: 20px; text-align: center; color: black; background-color: white; }\n.cloze { font-weight: bold; color: blue; }';
+
+const field = (name: string, ord: number) => ({ name, ord, sticky: false, rtl: false, font: 'Arial', size: 20, media: [] });
+
+const buildModels = (now: number) => ({
+  [BASIC_MODEL_ID]: {
+    id: BASIC_MODEL_ID, name: 'Learnivia Basic', type: 0, mod: now, usn: -1, sortf: 0, did: 1,
+    flds: [field('Front', 0), field('Back', 1)],
+    tmpls: [{ name: 'Card 1', ord: 0, qfmt: '{{Front}}', afmt: '{{FrontSide}}<hr id="answer">{{Back}}', did: null, bqfmt: '', bafmt: '' }],
+    css: MODEL_CSS, latexPre: '', latexPost: '', latexsvg: false, req: [[0, 'any', [0]]], tags: [], vers: []
+  },
+  [CLOZE_MODEL_ID]: {
+    id: CLOZE_MODEL_ID, name: 'Learnivia Cloze', type: 1, mod: now, usn: -1, sortf: 0, did: 1,
+    flds: [field('Text', 0), field('Back Extra', 1)],
+    tmpls: [{ name: 'Cloze', ord: 0, qfmt: '{{cloze:Text}}', afmt: '{{cloze:Text}}<br>{{Back Extra}}', did: null, bqfmt: '', bafmt: '' }],
+    css: MODEL_CSS, latexPre: '', latexPost: '', latexsvg: false, req: [[0, 'any', [0]]], tags: [], vers: []
+  }
+});
+
+const buildDeck = (id: number, name: string, now: number) => ({
+  id, name, mod: now, usn: -1, desc: '', dyn: 0, conf: 1, collapsed: false, browserCollapsed: false,
+  extendNew: 10, extendRev: 50, newToday: [0, 0], revToday: [0, 0], lrnToday: [0, 0], timeToday: [0, 0]
+});
+
+const DECK_CONFIG = {
+  1: {
+    id: 1, name: 'Default', mod: 0, usn: 0, autoplay: true, replayq: true, timer: 0, maxTaken: 60,
+    new: { bury: true, delays: [1, 10], initialFactor: 2500, ints: [1, 4, 7], order: 1, perDay: 20, separate: true },
+    rev: { bury: true, ease4: 1.3, fuzz: 0.05, ivlFct: 1, maxIvl: 36500, minSpace: 1, perDay: 100 },
+    lapse: { delays: [10], leechAction: 0, leechFails: 8, minInt: 1, mult: 0 }
+  }
+};
+
+const COLLECTION_CONFIG = {
+  activeDecks: [1], curDeck: 1, newSpread: 0, collapseTime: 1200, timeLim: 0, estTimes: true,
+  dueCounts: true, curModel: null, nextPos: 1, sortType: 'noteFld', sortBackwards: false, addToCur: true
+};
+
+const stripHtml = (html: string) => html.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim();
+
+const sha1Hex = async (text: string) => {
+  const digest = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// Anki uses the first 8 hex digits of the sort field's SHA-1 for duplicate detection
+const checksum = async (text: string) => parseInt((await sha1Hex(stripHtml(text))).slice(0, 8), 16);
+
+const toGuid = async (key: string) => (await sha1Hex(key)).slice(0, 16);
+
+
+const toApkg = async (notes: ExportNote[]): Promise<Blob> => {
+  const [SQL, { zipSync, strToU8 }] = await Promise.all([loadSqlJs(), import('fflate')]);
+  const db = new SQL.Database();
+
+  try {
+    const now = Date.now();
+    const nowSeconds = Math.floor(now / 1000);
+
+    // Deck ids only need to be unique within the package; Anki matches decks by name on import
+    const deckIds = new Map<string, number>();
+    Array.from(new Set(notes.map(n => n.deck))).forEach((name, i) => deckIds.set(name, now + i + 1));
+    const decks: Record<number, object> = { 1: buildDeck(1, 'Default', nowSeconds) };
+    deckIds.forEach((id, name) => { decks[id] = buildDeck(id, name, nowSeconds); });
+
+    db.run(APKG_SCHEMA);
+    db.run('INSERT INTO col VALUES (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, ?)', [
+      nowSeconds, now, now,
+      JSON.stringify(COLLECTION_CONFIG),
+      JSON.stringify(buildModels(nowSeconds)),
+      JSON.stringify(decks),
+      JSON.stringify(DECK_CONFIG),
+      '{}'
+    ]);
+
+    let nextId = now;
+    for (const [position, note] of notes.entries()) {
+      const noteId = nextId++;
+      const tags = note.tags.length > 0 ? ` ${note.tags.join(' ')} ` : '';
+      db.run('INSERT INTO notes VALUES (?, ?, ?, ?, -1, ?, ?, ?, ?, 0, \'\')', [
+        noteId,
+        await toGuid(note.guid),
+        note.kind === 'cloze' ? CLOZE_MODEL_ID : BASIC_MODEL_ID,
+        nowSeconds,
+        tags,
+        note.fields.join('\x1f'),
+        stripHtml(note.fields[0]),
+        await checksum(note.fields[0])
+      ]);
+      // One card per note: basic notes have one template and every cloze here is c1
+      db.run('INSERT INTO cards VALUES (?, ?, ?, 0, ?, -1, 0, 0, ?, 0, 0, 0, 0, 0, 0, 0, 0, \'\')', [
+        nextId++, noteId, deckIds.get(note.deck)!, nowSeconds, position + 1
+      ]);
+    }
+
+    const zipped = zipSync({
+      'collection.anki2': db.export(),
+      media: strToU8('{}')
+    });
+    return new Blob([zipped], { type: 'application/octet-stream' });
+  } finally {
+    db.close();
+  }
+};
+
+// --- API EXPORTS ---
+
+export const countExportNotes = (sessions: StudySession[], quizStyle: QuizNoteStyle) =>
+  sessions.reduce((sum, session) => sum + notesForSession(session, quizStyle).length, 0);
+
+export const exportSessions = async (sessions: StudySession[], { format, quizStyle }: ExportOptions): Promise<Blob> => {
+  const notes = sessions.flatMap(session => notesForSession(session, quizStyle));
+  if (notes.length === 0) throw new Error("Nothing to export: these sessions have no flashcards or quiz questions yet");
+
+  try {
+    if (format === 'apkg') return await toApkg(notes);
+    const mimeType = format === 'csv' ? 'text/csv' : 'text/tab-separated-values';
+    return new Blob([toDelimited(notes, format)], { type: `${mimeType};charset=utf-8` });
+  } catch (error) {
+    console.error("Export Error:", error);
+    throw error;
+  }
+};
+
+export const exportFileName = (sessions: StudySession[], format: ExportFormat) => {
+  const base = sessions.length === 1 ? toTag(sessions[0].title || 'session') || 'session' : `learnivia-${sessions.length}-sessions`;
+  return `${base}.${format}`;
+};
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
@@ -0,0 +1,80 @@
+import { Flashcard } from "../types";
+import { parseJsonArray, checkFlashcard, assignIds } from "./questionSchema";
+
+// Flashcards used to be saved as a Markdown list of "Term: Definition" lines; newer sessions
+// store a JSON Flashcard[]. Everything that reads a deck goes through parseFlashcards so
+// both formats keep working.
+
+// --- HELPERS ---
+
+// Drops the Markdown emphasis the old prompt produced ("**Term**", "_Term_")
+const stripMarkdown = (text: string) => text.replace(/\*\*|__|`/g, '').replace(/^\*|\*$/g, '').trim();
+
+// "Term: Definition", "Term - Definition" or "Term — Definition", after any list marker
+const LEGACY_CARD = /^(.+?)(?::\s+|\s+[-–—]\s+)(.+)$/;
+
+// Fronts longer than this are sentences that happen to contain a colon, not terms
+const MAX_FRONT_LENGTH = 120;
+
+const parseMarkdownCards = (markdown: string): Flashcard[] => {
+  const cards: Flashcard[] = [];
+  let headerRow: Flashcard | null = null;
+
+  for (const rawLine of markdown.split('\n')) {
+    const line = rawLine.trim();
+    if (!line || /^#{1,6}\s/.test(line)) continue;
+
+    // Table rows: | Term | Definition |. The row above a |---| separator is the header.
+    if (line.startsWith('|')) {
+      const cells = line.split('|').slice(1, -1).map(stripMarkdown);
+      if (cells.every(c => /^:?-+:?$/.test(c))) {
+        if (headerRow) cards.splice(cards.indexOf(headerRow), 1);
+        continue;
+      }
+      if (cells.length >= 2 && cells[0] && cells[1]) {
+        headerRow = { id: cards.length + 1, front: cells[0], back: cells[1], tags: [] };
+        cards.push(headerRow);
+      }
+      continue;
+    }
+    headerRow = null;
+
+    const match = stripMarkdown(line.replace(/^(?:[-*+]|\d+[.)])\s+/, '')).match(LEGACY_CARD);
+    if (!match) continue;
+    const front = stripMarkdown(match[1]);
+    const back = stripMarkdown(match[2]);
+    if (front && back && front.length <= MAX_FRONT_LENGTH) {
+      cards.push({ id: cards.length + 1, front, back, tags: [] });
+    }
+  }
+
+  return cards;
+};
+
+// --- API EXPORTS ---
+
+// Never throws: content that yields no cards gives an empty deck
+export const parseFlashcards = (content: string): Flashcard[] => {
+  let cards: Flashcard[] = [];
+  try {
+    cards = parseJsonArray(content).map(checkFlashcard).filter(c => c.item).map(c => c.item!);
+  } catch (e) {
+    // Not JSON, so it's a legacy Markdown deck
+  }
+  if (cards.length === 0) cards = parseMarkdownCards(content);
+  return assignIds(cards);
+};
+
+// Plain "front: back" lines, for prompts that take the deck as context
+export const flashcardsToText = (cards: Flashcard[]): string =>
+  cards.map(c => `${c.front}: ${c.back}`).join('\n');
+
+// Fisher-Yates; returns a new array
+export const shuffleCards = <T>(items: T[]): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
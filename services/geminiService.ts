@@ -1,13 +1,24 @@
-import { GoogleGenAI, Chat } from "@google/genai";
-import { StudyMode, UserStats, StudyFile, StudySession } from "../types";
-import { PROMPTS, SYSTEM_INSTRUCTION_CHAT, INSIGHTS_PROMPT, REVISION_PROMPT, EXAM_MODE_PROMPT } from "../constants";
+import { StudyMode, UserStats, StudyFile, StudySession, QuizItem, ExamItem, ExamBlueprint, Flashcard, QuizConfig } from "../types";
+import { DEFAULT_QUIZ_CONFIG, PROMPTS, SYSTEM_INSTRUCTION_CHAT, INSIGHTS_PROMPT, REVISION_PROMPT, EXAM_MODE_PROMPT, EXAM_DEFAULT_LAYOUT, EXAM_DEFAULT_COVERAGE, EXAM_DEFAULT_DIFFICULTY, JSON_REPAIR_PROMPT, QUESTION_REPAIR_PROMPT, MARKS_REPAIR_PROMPT, BLUEPRINT_REPAIR_PROMPT, RUBRIC_GRADING_PROMPT, REGENERATE_QUESTION_PROMPT, VERIFY_ANSWERS_PROMPT, CITATION_PROMPT, CHUNK_NOTES_PROMPT, CHUNK_CITATION_INSTRUCTION, CONDENSED_SOURCE_NOTE } from "../constants";
+import { getAIProvider, AIChatSession, AIPart, AITask, ChatReply, GenerateRequest } from "./aiProvider";
+import { QUIZ_SCHEMA, QUIZ_ITEM_SCHEMA, EXAM_SCHEMA, EXAM_ITEM_SCHEMA, RUBRIC_GRADES_SCHEMA, VERIFICATIONS_SCHEMA, FLASHCARDS_SCHEMA, ItemCheck, parseJsonArray, parseCompleteItems, checkQuizItem, checkExamItem, checkFlashcard, checkRubricGrade, checkVerification, assignIds, sumMarks, rebalanceMarks, assignSections, checkBlueprint } from "./questionSchema";
+import { parseFlashcards, flashcardsToText } from "./flashcardService";
+import { AnswerSheet, RubricSheet, isWrittenQuestion, isAnswered } from "./gradingService";
+import { describeSources, stripCitations } from "./citationService";
+import { SourceUnit, CHUNK_CHARS, MAX_CONDENSE_ROUNDS, MIN_SESSION_CHARS, toSourceUnits, packBatches, batchToParts, mapWithLimit } from "./chunkingService";
+
+// All model calls go through the configured AIProvider (Gemini by default, see aiProvider.ts).
+// This module owns prompt building and source preprocessing so every provider gets the same input.
+
+const STUDY_MODE_TASKS: Record<StudyMode, AITask> = {
+  [StudyMode.EXPLAIN]: 'explain',
+  [StudyMode.SUMMARIZE]: 'summarize',
+  [StudyMode.QUIZ]: 'quiz',
+  [StudyMode.FLASHCARDS]: 'flashcards'
+};
 
-// Initialize AI Client
-// @ts-ignore
-const ai = new GoogleGenAI({ apiKey: import.meta.env.VITE_API_KEY });
-// Hybrid Model Strategy
-const FLASH_MODEL = 'gemini-2.5-flash';
-const PRO_MODEL = 'gemini-3-pro-preview';
+// Prose modes cite their sources inline (see citationService.ts)
+const CITED_MODES = [StudyMode.EXPLAIN, StudyMode.SUMMARIZE];
 
 // --- YOUTUBE TRANSCRIPT UTILITIES ---
 
@@ -18,22 +29,23 @@ function extractYoutubeVideoId(url: string): string | null {
 }
 
 // New Helper: Fetch Video Title/Author as fallback if transcript fails
-async function fetchYoutubeMetadata(videoId: string): Promise<{title: string, author: string}> {
+async function fetchYoutubeMetadata(videoId: string, signal?: AbortSignal): Promise<{title: string, author: string}> {
   try {
     // noembed is a public oEmbed service that doesn't block CORS/proxies usually
-    const response = await fetch(`https://noembed.com/embed?url=https://www.youtube.com/watch?v=${videoId}`);
+    const response = await fetch(`https://noembed.com/embed?url=https://www.youtube.com/watch?v=${videoId}`, { signal });
     const data = await response.json();
     return { 
       title: data.title || "Unknown Video", 
       author: data.author_name || "Unknown Author" 
     };
   } catch (e) {
+    signal?.throwIfAborted();
     console.warn("Failed to fetch video metadata", e);
     return { title: "YouTube Video", author: "Unknown" };
   }
 }
 
-async function fetchYoutubeTranscript(videoId: string): Promise<string | null> {
+async function fetchYoutubeTranscript(videoId: string, signal?: AbortSignal): Promise<string | null> {
   // Try multiple proxies in case one is blocked or down
   const proxies = [
     'https://corsproxy.io/?',
@@ -43,7 +55,7 @@ async function fetchYoutubeTranscript(videoId: string): Promise<string | null> {
   for (const proxy of proxies) {
     try {
       const videoUrl = `https://www.youtube.com/watch?v=${videoId}`;
-      const response = await fetch(proxy + encodeURIComponent(videoUrl));
+      const response = await fetch(proxy + encodeURIComponent(videoUrl), { signal });
       
       if (!response.ok) continue;
       
@@ -76,7 +88,7 @@ async function fetchYoutubeTranscript(videoId: string): Promise<string | null> {
       if (!track || !track.baseUrl) continue;
 
       // Fetch Transcript XML
-      const transcriptResponse = await fetch(proxy + encodeURIComponent(track.baseUrl));
+      const transcriptResponse = await fetch(proxy + encodeURIComponent(track.baseUrl), { signal });
       if (!transcriptResponse.ok) continue;
       
       const transcriptXml = await transcriptResponse.text();
@@ -100,6 +112,7 @@ async function fetchYoutubeTranscript(videoId: string): Promise<string | null> {
       }
 
     } catch (e) {
+      signal?.throwIfAborted(); // Don't fall through to the next proxy after a cancel
       console.warn(`Transcript fetch attempt failed via ${proxy}`, e);
     }
   }
@@ -109,16 +122,35 @@ async function fetchYoutubeTranscript(videoId: string): Promise<string | null> {
 
 // --- HELPER FUNCTIONS ---
 
-async function retryWithBackoff<T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promise<T> {
+export const isAbortError = (error: any): boolean =>
+  error?.name === 'AbortError' || error?.cause?.name === 'AbortError';
+
+// Resolves after `ms`, or rejects straight away with the signal's AbortError when cancelled
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(signal.reason);
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(signal!.reason);
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+async function retryWithBackoff<T>(fn: () => Promise<T>, signal?: AbortSignal, retries = 3, delay = 1000): Promise<T> {
+  signal?.throwIfAborted();
   try {
     return await fn();
   } catch (error: any) {
     const isRateLimit = error.status === 429 || error.code === 429 || error.message?.includes('429') || error.message?.toLowerCase().includes('quota');
     
-    if (retries > 0 && isRateLimit) {
+    // A stream that already produced output can't be replayed without duplicating text
+    if (retries > 0 && isRateLimit && !error.partialText && !signal?.aborted) {
       console.warn(`Rate limit hit. Retrying in ${delay}ms...`);
-      await new Promise(resolve => setTimeout(resolve, delay));
-      return retryWithBackoff(fn, retries - 1, delay * 2);
+      await wait(delay, signal);
+      return retryWithBackoff(fn, signal, retries - 1, delay * 2);
     }
     throw error;
   }
@@ -128,180 +160,714 @@ const getLanguageInstruction = (lang: string) => {
   return lang && lang !== 'English' ? `\n\nIMPORTANT: Respond strictly in ${lang} language.` : '';
 };
 
+export interface GenerationOptions {
+  // Called with the accumulated text every time a new chunk arrives
+  onProgress?: (partialText: string) => void;
+  // Cancels the request (including retries and transcript lookups); rejects with an AbortError
+  signal?: AbortSignal;
+}
+
+export interface StudyContentOptions extends GenerationOptions {
+  quizConfig?: QuizConfig; // Only used for StudyMode.QUIZ; defaults to DEFAULT_QUIZ_CONFIG
+}
+
+export interface ExamOptions extends GenerationOptions {
+  blueprint?: ExamBlueprint; // Its section marks must add up to the exam's total marks
+}
+
+// Spreads the question count over the chosen types, earlier types taking the remainder
+const splitQuestionCount = ({ questionCount, types }: QuizConfig) => {
+  const chosen = types.length > 0 ? types : DEFAULT_QUIZ_CONFIG.types;
+  return chosen.map((type, i) => ({
+    type,
+    count: Math.floor(questionCount / chosen.length) + (i < questionCount % chosen.length ? 1 : 0)
+  })).filter(t => t.count > 0);
+};
+
+const buildQuizPrompt = (config: QuizConfig) => PROMPTS[StudyMode.QUIZ]
+  .replace('{{count}}', config.questionCount.toString())
+  .replace('{{typeMix}}', splitQuestionCount(config).map(t => `${t.count} ${t.type}`).join(', '))
+  .replace('{{difficulty}}', config.difficulty === 'mixed'
+    ? 'a balanced mix of easy, medium and hard questions'
+    : `all questions should be ${config.difficulty}`)
+  .replace('{{level}}', config.level === 'mixed'
+    ? 'a balanced mix of recall, application and analysis questions'
+    : `all questions should test ${config.level}`);
+
+// Each session's share of the marks, in percent, from the blueprint's relative weights
+const topicShares = (blueprint: ExamBlueprint, sessions: StudySession[]) => {
+  const weights = sessions.map(s => blueprint.topicWeights[s.id] ?? 1);
+  const total = weights.reduce((acc, w) => acc + w, 0);
+  return sessions.map((s, i) => ({ title: s.title, share: total > 0 ? Math.round((weights[i] / total) * 100) : 0 }));
+};
+
+const describeSections = (blueprint: ExamBlueprint) => blueprint.sections
+  .map(s => `   - Section ${s.id} "${s.title}": exactly ${s.marks} marks, only ${s.types.join('/')} questions.${s.instructions ? ` Instructions: ${s.instructions}` : ''}`)
+  .join('\n');
+
+const describeCoverage = (blueprint: ExamBlueprint, sessions: StudySession[]) =>
+  `Share the marks between the sessions roughly like this: ${topicShares(blueprint, sessions).map(t => `"${t.title}" ${t.share}%`).join(', ')}.`;
+
+const buildExamPrompt = (totalMarks: number, sessions: StudySession[], blueprint?: ExamBlueprint) => EXAM_MODE_PROMPT
+  .replace('{{marks}}', totalMarks.toString())
+  .replace('{{layout}}', blueprint
+    ? `Split the paper into these sections and set each question's section to its id:\n${describeSections(blueprint)}`
+    : EXAM_DEFAULT_LAYOUT)
+  .replace('{{coverage}}', blueprint && sessions.length > 1 ? describeCoverage(blueprint, sessions) : EXAM_DEFAULT_COVERAGE)
+  .replace('{{difficulty}}', blueprint && blueprint.difficulty !== 'mixed'
+    ? `All questions should be ${blueprint.difficulty}.`
+    : EXAM_DEFAULT_DIFFICULTY);
+
+// Streams when the caller wants progress, otherwise does a single request.
+// If the stream dies midway (or is stopped), the text received so far is attached to the error as `partialText`.
+const runGeneration = async (request: GenerateRequest, { onProgress, signal }: GenerationOptions = {}): Promise<string> => {
+  if (!onProgress) return getAIProvider().generateText({ ...request, signal });
+
+  let text = '';
+  try {
+    for await (const delta of getAIProvider().streamText({ ...request, signal })) {
+      text += delta;
+      onProgress(text);
+    }
+  } catch (error: any) {
+    if (text) error.partialText = text;
+    throw error;
+  }
+  return text;
+};
+
+// Attached files become model parts. YouTube links are swapped for their transcript, or for
+// the video's title when no transcript can be fetched.
+const buildFileParts = (files: StudyFile[], signal?: AbortSignal): Promise<AIPart[]> =>
+  Promise.all(files.map(async (file): Promise<AIPart> => {
+    if (file.mimeType === 'application/x-youtube') {
+       const videoId = extractYoutubeVideoId(file.data);
+       let content = `Source Material (YouTube Video URL): ${file.data}`;
+
+       if (videoId) {
+         // 1. Try to get full transcript
+         const transcript = await fetchYoutubeTranscript(videoId, signal);
+
+         if (transcript) {
+           content += `\n\n[VIDEO TRANSCRIPT START]\n${transcript}\n[VIDEO TRANSCRIPT END]`;
+         } else {
+           // 2. Fallback: Get Metadata and instruct AI to use general knowledge
+           const meta = await fetchYoutubeMetadata(videoId, signal);
+           content += `\n\n[SYSTEM NOTE]: The exact transcript could not be extracted. 
+           However, the video is titled "${meta.title}" by "${meta.author}".
+
+           IMPORTANT INSTRUCTION:
+           Please generate the study material (Explanation/Quiz/Summary) based on your extensive internal knowledge of the topic "${meta.title}".
+           Assume the video covers standard concepts related to this title.
+           Do NOT apologize or say you cannot access the video. Just teach the topic based on the title.`;
+         }
+       }
+       return { text: content };
+    } else {
+       return {
+          inlineData: {
+            mimeType: file.mimeType,
+            data: file.data
+          }
+       };
+    }
+  }));
+
+// --- STRUCTURED OUTPUT VALIDATION ---
+
+const askForJson = (prompt: string, responseSchema: object, signal?: AbortSignal) =>
+  getAIProvider().generateText({
+    task: 'repair',
+    tier: 'flash',
+    parts: [{ text: prompt }],
+    json: true,
+    responseSchema,
+    signal
+  });
+
+const parseOrRepair = async (text: string, schema: object, signal?: AbortSignal): Promise<any[]> => {
+  if (!text.trim()) throw new Error("The model returned an empty response");
+  try {
+    return parseJsonArray(text);
+  } catch (e) {
+    console.warn("Structured output was not valid JSON, asking for a repair", e);
+    return parseJsonArray(await askForJson(JSON_REPAIR_PROMPT + text, schema, signal));
+  }
+};
+
+// Checks items one by one and re-asks the model for the broken ones only.
+// Anything still invalid after the re-ask is dropped rather than failing the whole set.
+const validateWithRepair = async <T>(
+  rawItems: any[],
+  check: (raw: any) => ItemCheck<T>,
+  kind: 'quiz' | 'exam',
+  itemSchema: object,
+  signal?: AbortSignal
+): Promise<T[]> => {
+  const checks = rawItems.map(check);
+  const broken = checks.filter(c => !c.item);
+  if (broken.length === 0) return checks.map(c => c.item!);
+
+  let repaired: ItemCheck<T>[] = [];
+  try {
+    const items = JSON.stringify(broken.map(c => ({ question: c.raw, problems: c.problems })), null, 2);
+    const prompt = QUESTION_REPAIR_PROMPT.replace('{{kind}}', kind).replace('{{items}}', items);
+    repaired = parseJsonArray(await askForJson(prompt, { type: 'array', items: itemSchema }, signal)).map(check);
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.warn(`Could not repair ${kind} questions`, error);
+  }
+
+  // Match fixes back by id, or by position when the model returned exactly one per broken item.
+  // Each fix is used once, since a bad batch can repeat ids.
+  const used = new Set<ItemCheck<T>>();
+  const replacementFor = (c: ItemCheck<T>, index: number) => {
+    const byId = repaired.find(r => !used.has(r) && r.raw?.id !== undefined && Number(r.raw.id) === Number(c.raw?.id));
+    const byPosition = repaired.length === broken.length && !used.has(repaired[index]) ? repaired[index] : undefined;
+    const fix = byId || byPosition;
+    if (fix) used.add(fix);
+    if (!fix?.item) console.warn(`Dropping invalid ${kind} question:`, c.problems.join('; '));
+    return fix?.item || null;
+  };
+
+  return checks
+    .map(c => c.item || replacementFor(c, broken.indexOf(c)))
+    .filter((item): item is T => item !== null);
+};
+
+const ensureValidQuiz = async (text: string, config: QuizConfig, signal?: AbortSignal): Promise<QuizItem[]> => {
+  const rawItems = await parseOrRepair(text, QUIZ_SCHEMA, signal);
+  const items = await validateWithRepair(rawItems, checkQuizItem, 'quiz', QUIZ_ITEM_SCHEMA, signal);
+  if (items.length === 0) throw new Error("The generated quiz had no usable questions");
+
+  // When the student asked for a single difficulty or level, unlabelled questions get that label
+  return assignIds(items).map(item => ({
+    ...item,
+    difficulty: item.difficulty || (config.difficulty !== 'mixed' ? config.difficulty : undefined),
+    level: item.level || (config.level !== 'mixed' ? config.level : undefined)
+  }));
+};
+
+// Cards are cheap to lose, so broken ones are dropped without a re-ask
+const ensureValidFlashcards = async (text: string, signal?: AbortSignal): Promise<Flashcard[]> => {
+  const rawItems = await parseOrRepair(text, FLASHCARDS_SCHEMA, signal);
+  const cards = rawItems.map(checkFlashcard).filter(c => c.item).map(c => c.item!);
+  if (cards.length === 0) throw new Error("The generated deck had no usable flashcards");
+  return assignIds(cards);
+};
+
+// Decks stream as the cards that have fully arrived, in the same JSON as a finished deck.
+// If the stream dies, the error's `partialText` is the cards received so far (or is dropped).
+const streamDeck = async (request: GenerateRequest, { onProgress, signal }: GenerationOptions): Promise<string> => {
+  if (!onProgress) return runGeneration(request, { signal });
+
+  let shown = '';
+  const showCards = (partial: string) => {
+    const cards = parseCompleteItems(partial).map(checkFlashcard).filter(c => c.item).map(c => c.item!);
+    const deck = cards.length > 0 ? JSON.stringify(assignIds(cards)) : '';
+    if (deck === shown) return;
+    shown = deck;
+    onProgress(deck);
+  };
+
+  try {
+    return await runGeneration(request, { onProgress: showCards, signal });
+  } catch (error: any) {
+    if (shown) error.partialText = shown;
+    else delete error.partialText;
+    throw error;
+  }
+};
+
+// One re-ask with the list of problems; the fix is kept only if it is closer to the blueprint.
+// Whatever is still off is forced: questions no section takes are dropped and each section's
+// marks are rebalanced to its target.
+const fitBlueprint = async (items: ExamItem[], blueprint: ExamBlueprint, sessions: StudySession[], signal?: AbortSignal): Promise<ExamItem[]> => {
+  const topics = sessions.map(({ id, title }) => ({ id, title }));
+  let fitted = assignSections(items, blueprint);
+  const problems = checkBlueprint(fitted, blueprint, topics);
+
+  if (problems.length > 0) {
+    try {
+      const description = [
+        describeSections(blueprint),
+        sessions.length > 1 ? `   - ${describeCoverage(blueprint, sessions)}` : '',
+        blueprint.difficulty !== 'mixed' ? `   - All questions should be ${blueprint.difficulty}.` : ''
+      ].filter(Boolean).join('\n');
+      const prompt = BLUEPRINT_REPAIR_PROMPT
+        .replace('{{blueprint}}', description)
+        .replace('{{problems}}', problems.map(p => `- ${p}`).join('\n'))
+        .replace('{{items}}', JSON.stringify(fitted, null, 2));
+      const rawItems = parseJsonArray(await askForJson(prompt, EXAM_SCHEMA, signal));
+      const repaired = assignSections(assignIds(await validateWithRepair(rawItems, checkExamItem, 'exam', EXAM_ITEM_SCHEMA, signal)), blueprint);
+      if (repaired.length > 0 && checkBlueprint(repaired, blueprint, topics).length < problems.length) fitted = repaired;
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      console.warn("Could not repair exam blueprint", error);
+    }
+  }
+
+  const result = blueprint.sections.flatMap(section =>
+    rebalanceMarks(fitted.filter(item => item.section === section.id && section.types.includes(item.type)), section.marks)
+  );
+  if (result.length === 0) throw new Error("The generated exam had no questions that fit the blueprint");
+
+  // A section nothing fits stays empty; the paper's total is taken from the questions it has
+  const remaining = checkBlueprint(result, blueprint, topics);
+  if (remaining.length > 0) console.warn("Exam paper does not fully match its blueprint:", remaining.join('; '));
+
+  // As with quizzes, a single requested difficulty labels the unlabelled questions
+  return result.map(item => ({
+    ...item,
+    difficulty: item.difficulty || (blueprint.difficulty !== 'mixed' ? blueprint.difficulty : undefined)
+  }));
+};
+
+const ensureValidExam = async (
+  text: string,
+  totalMarks: number,
+  sessions: StudySession[],
+  blueprint?: ExamBlueprint,
+  signal?: AbortSignal
+): Promise<ExamItem[]> => {
+  const rawItems = await parseOrRepair(text, EXAM_SCHEMA, signal);
+  let items = assignIds(await validateWithRepair(rawItems, checkExamItem, 'exam', EXAM_ITEM_SCHEMA, signal));
+  if (items.length === 0) throw new Error("The generated exam had no usable questions");
+  if (blueprint) return fitBlueprint(items, blueprint, sessions, signal);
+
+  const current = sumMarks(items);
+  if (current !== totalMarks) {
+    try {
+      const paper = JSON.stringify(items.map(({ id, type, question, marks }) => ({ id, type, question, marks })), null, 2);
+      const prompt = MARKS_REPAIR_PROMPT
+        .replace('{{current}}', current.toString())
+        .replace(/\{\{marks\}\}/g, totalMarks.toString())
+        .replace('{{items}}', paper);
+      const adjustments = parseJsonArray(await askForJson(prompt, {
+        type: 'array',
+        items: { type: 'object', properties: { id: { type: 'integer' }, marks: { type: 'integer', minimum: 1 } }, required: ['id', 'marks'] }
+      }, signal));
+
+      const adjusted = items.map(item => {
+        const marks = Number(adjustments.find(a => Number(a?.id) === item.id)?.marks);
+        return Number.isInteger(marks) && marks >= 1 ? { ...item, marks } : item;
+      });
+      if (sumMarks(adjusted) === totalMarks) items = adjusted;
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      console.warn("Could not repair exam marks", error);
+    }
+  }
+
+  return rebalanceMarks(items, totalMarks);
+};
+
+// --- LARGE SOURCES ---
+
+// Map step: one batch of material condensed into notes. Notes stay in the material's language.
+const condenseBatch = (batch: SourceUnit[], part: number, parts: number, cited: boolean, signal?: AbortSignal) =>
+  retryWithBackoff(() => getAIProvider().generateText({
+    task: 'condense',
+    tier: 'flash',
+    parts: [
+      { text: CHUNK_NOTES_PROMPT.replace('{{part}}', String(part)).replace('{{parts}}', String(parts)).replace('{{citations}}', cited ? CHUNK_CITATION_INSTRUCTION : '') },
+      ...batchToParts(batch)
+    ],
+    signal
+  }), signal);
+
+// Condenses material batch by batch, in parallel. Notes that together are still longer than
+// `maxChars` are condensed again, for material many times the size of one request.
+const condenseSources = async (units: SourceUnit[], maxChars: number, cited: boolean, signal?: AbortSignal): Promise<string> => {
+  let batches = packBatches(units);
+  for (let round = 1; ; round++) {
+    const notes = await mapWithLimit(batches, (batch, i) => condenseBatch(batch, i + 1, batches.length, cited, signal));
+    const combined = notes.join('\n\n');
+    if (combined.length <= maxChars || notes.length === 1 || round >= MAX_CONDENSE_ROUNDS) return combined;
+    batches = packBatches(notes.flatMap((text, i) => toSourceUnits(`Condensed notes ${i + 1}:`, { text })));
+  }
+};
+
+// Notes that fit are used as they are
+const condenseText = (text: string, label: string, maxChars: number, signal?: AbortSignal): Promise<string> =>
+  text.length <= maxChars ? Promise.resolve(text) : condenseSources(toSourceUnits(label, { text }), maxChars, false, signal);
+
+// A session's material as it can go into one request: its file parts and notes when they fit,
+// otherwise notes condensed from all of it (and no file parts)
+const fitSource = async (source: QuestionSource, signal?: AbortSignal): Promise<{ fileParts: AIPart[]; text: string }> => {
+  const files = source.files || [];
+  const fileParts = files.length > 0 ? await buildFileParts(files, signal) : [];
+  const units = [
+    ...fileParts.flatMap((part, i) => toSourceUnits(`[S${i + 1}] ${files[i].name}`, part)),
+    ...(source.text ? toSourceUnits('[notes]', { text: source.text }) : [])
+  ];
+  if (packBatches(units).length <= 1) return { fileParts, text: source.text };
+  return { fileParts: [], text: await condenseSources(units, CHUNK_CHARS, false, signal) };
+};
+
 // --- API EXPORTS ---
 
 export const generateStudyContent = async (
   text: string, 
   mode: StudyMode, 
   files?: StudyFile[],
-  language: string = 'English'
+  language: string = 'English',
+  options: StudyContentOptions = {}
 ): Promise<string> => {
   if (!text && (!files || files.length === 0)) return "";
+  const { signal } = options;
+  const quizConfig = options.quizConfig || DEFAULT_QUIZ_CONFIG;
+
+  // Condensed notes are kept across retries, so a rate-limited final request doesn't redo them
+  let condensed: string | null | undefined;
 
   return retryWithBackoff(async () => {
     try {
-      const parts: any[] = [];
+      const parts: AIPart[] = [];
+
+      const cited = CITED_MODES.includes(mode);
 
       // Process Files (Async for transcripts)
-      if (files && files.length > 0) {
-        const processedParts = await Promise.all(files.map(async (file) => {
-          if (file.mimeType === 'application/x-youtube') {
-             const videoId = extractYoutubeVideoId(file.data);
-             let content = `Source Material (YouTube Video URL): ${file.data}`;
-             
-             if (videoId) {
-               // 1. Try to get full transcript
-               const transcript = await fetchYoutubeTranscript(videoId);
-               
-               if (transcript) {
-                 content += `\n\n[VIDEO TRANSCRIPT START]\n${transcript}\n[VIDEO TRANSCRIPT END]`;
-               } else {
-                 // 2. Fallback: Get Metadata and instruct AI to use general knowledge
-                 const meta = await fetchYoutubeMetadata(videoId);
-                 content += `\n\n[SYSTEM NOTE]: The exact transcript could not be extracted. 
-                 However, the video is titled "${meta.title}" by "${meta.author}".
-                 
-                 IMPORTANT INSTRUCTION:
-                 Please generate the study material (Explanation/Quiz/Summary) based on your extensive internal knowledge of the topic "${meta.title}".
-                 Assume the video covers standard concepts related to this title.
-                 Do NOT apologize or say you cannot access the video. Just teach the topic based on the title.`;
-               }
-             }
-             return { text: content };
-          } else {
-             return {
-                inlineData: {
-                  mimeType: file.mimeType,
-                  data: file.data
-                }
-             };
-          }
-        }));
-        
-        parts.push(...processedParts);
+      const fileParts = files && files.length > 0 ? await buildFileParts(files, signal) : [];
+
+      // Material too large for one request is condensed part by part, and the output is generated from the notes
+      if (condensed === undefined) {
+        const units = [
+          ...fileParts.flatMap((part, i) => toSourceUnits(`[S${i + 1}] ${files![i].name}`, part)),
+          ...(text ? toSourceUnits('[notes]', { text }) : [])
+        ];
+        condensed = packBatches(units).length > 1 ? await condenseSources(units, CHUNK_CHARS, cited, signal) : null;
       }
 
+      // Cited modes label each file so citations can name it
+      if (!condensed) parts.push(...(cited ? fileParts.flatMap((part, i): AIPart[] => [{ text: `[S${i + 1}] ${files![i].name}` }, part]) : fileParts));
+
       // Add text prompt
-      const hasFiles = files && files.length > 0;
+      const hasFiles = !condensed && files && files.length > 0;
       const langInstruction = getLanguageInstruction(language);
       
-      const promptText = hasFiles
-        ? `${PROMPTS[mode]}${langInstruction}\n\n---\n\n(See attached documents/transcripts/metadata)\n\nAdditional Context/Notes:\n${text}`
-        : `${PROMPTS[mode]}${langInstruction}\n\n---\n\nText to process:\n${text}`;
+      const modePrompt = mode === StudyMode.QUIZ
+        ? buildQuizPrompt(quizConfig)
+        : cited ? `${PROMPTS[mode]}\n\n${CITATION_PROMPT.replace('{{sources}}', describeSources(files, !!text))}` : PROMPTS[mode];
+      const responseSchema = mode === StudyMode.QUIZ ? QUIZ_SCHEMA : mode === StudyMode.FLASHCARDS ? FLASHCARDS_SCHEMA : undefined;
+      const promptText = condensed
+        ? `${modePrompt}${langInstruction}\n\n---\n\n${CONDENSED_SOURCE_NOTE}\n\nText to process:\n${condensed}`
+        : hasFiles
+          ? `${modePrompt}${langInstruction}\n\n---\n\n(See attached documents/transcripts/metadata)\n\nAdditional Context/Notes:\n${text}`
+          : `${modePrompt}${langInstruction}\n\n---\n\nText to process:\n${text}`;
 
       parts.push({ text: promptText });
       
-      const generationConfig: any = {
+      const request: GenerateRequest = {
+        task: STUDY_MODE_TASKS[mode],
+        tier: 'pro',
+        parts,
         // Updated system instruction to allow "General Knowledge" fallback for Videos
         systemInstruction: "You are a helpful study assistant. If a video transcript is provided, use it. If only a video title is provided, use your general knowledge of that topic to create the best possible study guide. Do not mention missing transcripts.",
+        json: !!responseSchema,
+        responseSchema
       };
+      // A half-written quiz is useless to render, so quizzes never stream
+      const response = mode === StudyMode.FLASHCARDS
+        ? await streamDeck(request, options)
+        : await runGeneration(request, mode === StudyMode.QUIZ ? { signal } : options);
 
       if (mode === StudyMode.QUIZ) {
-        generationConfig.responseMimeType = "application/json";
+        const quiz = await ensureValidQuiz(response, quizConfig, signal);
+        return JSON.stringify(quizConfig.verify ? await verifyAnswers(quiz, { text, files }, language, { signal }) : quiz);
       }
-
-      const response = await ai.models.generateContent({
-        model: PRO_MODEL,
-        contents: {
-          role: 'user',
-          parts: parts
-        },
-        config: generationConfig
-      });
-
-      return response.text || "No response generated.";
+      if (mode === StudyMode.FLASHCARDS) return JSON.stringify(await ensureValidFlashcards(response, signal));
+      return response || "No response generated.";
     } catch (error) {
-      console.error("Gemini API Error:", error);
+      if (!isAbortError(error)) console.error("Gemini API Error:", error);
       throw error;
     }
-  });
+  }, signal);
 };
 
-export const generateRevision = async (session: StudySession, language: string = 'English'): Promise<string> => {
+export const generateRevision = async (session: StudySession, language: string = 'English', options: GenerationOptions = {}): Promise<string> => {
+  let notes: string | undefined; // Condensed once, even when the request is retried
+
   return retryWithBackoff(async () => {
     try {
+      notes ??= await condenseText(session.originalText || '', '[notes]', CHUNK_CHARS, options.signal);
+
       const contentParts = [
         `Session Title: ${session.title}`,
         `Date: ${session.date}`,
-        session.originalText ? `Original Notes: ${session.originalText.substring(0, 2000)}...` : '',
-        session.explanation ? `Generated Explanation: ${session.explanation}` : '',
-        session.summary ? `Generated Summary: ${session.summary}` : '',
-        session.flashcards ? `Generated Flashcards: ${session.flashcards}` : '',
+        notes ? `Original Notes: ${notes}` : '',
+        session.explanation ? `Generated Explanation: ${stripCitations(session.explanation)}` : '',
+        session.summary ? `Generated Summary: ${stripCitations(session.summary)}` : '',
+        session.flashcards ? `Generated Flashcards: ${flashcardsToText(parseFlashcards(session.flashcards))}` : '',
         session.quiz ? `Generated Quiz: ${session.quiz}` : ''
       ].filter(Boolean).join('\n\n---\n\n');
 
       const langInstruction = getLanguageInstruction(language);
 
-      const response = await ai.models.generateContent({
-        model: PRO_MODEL,
-        contents: {
-          role: 'user',
-          parts: [{ text: REVISION_PROMPT + langInstruction + "\n\nData to Analyze:\n" + contentParts }]
-        }
-      });
+      const response = await runGeneration({
+        task: 'revision',
+        tier: 'pro',
+        parts: [{ text: REVISION_PROMPT + langInstruction + "\n\nData to Analyze:\n" + contentParts }]
+      }, options);
 
-      return response.text || "Could not generate revision.";
+      return response || "Could not generate revision.";
     } catch (error) {
-      console.error("Revision Error:", error);
+      if (!isAbortError(error)) console.error("Revision Error:", error);
       throw error;
     }
-  });
+  }, options.signal);
 };
 
-export const generateExam = async (sessions: StudySession[], totalMarks: number, language: string = 'English'): Promise<string> => {
+export const generateExam = async (sessions: StudySession[], totalMarks: number, language: string = 'English', { signal, blueprint }: ExamOptions = {}): Promise<string> => {
+  // Each session gets an equal share of the request; longer notes are condensed to fit it.
+  // Sessions are condensed one after another, since each already runs its batches in parallel.
+  const share = Math.max(Math.floor(CHUNK_CHARS / Math.max(sessions.length, 1)), MIN_SESSION_CHARS);
+  let notes: string[] | undefined;
+
   return retryWithBackoff(async () => {
     try {
+      if (!notes) {
+        notes = [];
+        for (const session of sessions) notes.push(await condenseText(session.originalText || '', `[notes] ${session.title}`, share, signal));
+      }
+
       let combinedContent = "";
       
       sessions.forEach((session, index) => {
         combinedContent += `\n\n=== SOURCE MATERIAL ${index + 1}: ${session.title} ===\n`;
-        if (session.originalText) combinedContent += `Original Text: ${session.originalText.substring(0, 3000)}\n`;
-        if (session.summary) combinedContent += `Summary: ${session.summary}\n`;
+        if (notes![index]) combinedContent += `Original Text: ${notes![index]}\n`;
+        if (session.summary) combinedContent += `Summary: ${stripCitations(session.summary)}\n`;
         if (session.quiz) combinedContent += `Existing Quiz Questions: ${session.quiz}\n`;
-        if (session.explanation) combinedContent += `Explanation: ${session.explanation}\n`;
+        if (session.explanation) combinedContent += `Explanation: ${stripCitations(session.explanation)}\n`;
       });
 
       const langInstruction = getLanguageInstruction(language);
-      const prompt = EXAM_MODE_PROMPT.replace('{{marks}}', totalMarks.toString()) + langInstruction;
-
-      const response = await ai.models.generateContent({
-        model: PRO_MODEL,
-        contents: {
-          role: 'user',
-          parts: [{ text: prompt + "\n\nSTUDY MATERIALS TO EXAMINE:\n" + combinedContent }]
-        },
-        config: {
-          responseMimeType: "application/json"
-        }
+      const prompt = buildExamPrompt(totalMarks, sessions, blueprint) + langInstruction;
+
+      const response = await getAIProvider().generateText({
+        task: 'exam',
+        tier: 'pro',
+        parts: [{ text: prompt + "\n\nSTUDY MATERIALS TO EXAMINE:\n" + combinedContent }],
+        json: true,
+        responseSchema: EXAM_SCHEMA,
+        signal
       });
 
-      return response.text || "Could not generate exam.";
+      return JSON.stringify(await ensureValidExam(response, totalMarks, sessions, blueprint, signal));
     } catch (error) {
-      console.error("Exam Generation Error:", error);
+      if (!isAbortError(error)) console.error("Exam Generation Error:", error);
       throw error;
     }
-  });
+  }, signal);
+};
+
+// The material a single question is regenerated from: a session's notes and attachments
+export interface QuestionSource {
+  text: string;
+  files?: StudyFile[];
+}
+
+const regenerateQuestion = async <T extends { id: number; type: string; question: string }>(
+  item: T,
+  kind: 'quiz' | 'exam',
+  source: QuestionSource,
+  avoid: string[],
+  language: string,
+  signal?: AbortSignal
+): Promise<T> => {
+  // Kept across retries, so oversized material is only condensed once
+  let material: { fileParts: AIPart[]; text: string } | undefined;
+
+  return retryWithBackoff(async () => {
+    try {
+      const isExam = kind === 'exam';
+      const prompt = REGENERATE_QUESTION_PROMPT
+        .replace('{{kind}}', kind)
+        .replace('{{type}}', item.type)
+        .replace('{{marks}}', 'marks' in item ? ` It is worth ${item.marks} marks.` : '')
+        .replace('{{avoid}}', avoid.map(q => `- ${q}`).join('\n') || '- (none)')
+        .replace('{{question}}', JSON.stringify(item, null, 2));
+
+      material ??= await fitSource(source, signal);
+      const parts: AIPart[] = [...material.fileParts];
+      parts.push({ text: `${prompt}${getLanguageInstruction(language)}\n\n---\n\nText to process:\n${material.text}` });
+
+      const response = await getAIProvider().generateText({
+        task: kind,
+        tier: 'flash',
+        parts,
+        json: true,
+        responseSchema: isExam ? EXAM_SCHEMA : QUIZ_SCHEMA,
+        signal
+      });
+      const rawItems = await parseOrRepair(response, isExam ? EXAM_SCHEMA : QUIZ_SCHEMA, signal);
+      const items: any[] = isExam
+        ? await validateWithRepair(rawItems, checkExamItem, 'exam', EXAM_ITEM_SCHEMA, signal)
+        : await validateWithRepair(rawItems, checkQuizItem, 'quiz', QUIZ_ITEM_SCHEMA, signal);
+      const replacement = items.find(candidate => candidate.type === item.type);
+      if (!replacement) throw new Error("The model did not return a usable replacement question");
+      return replacement;
+    } catch (error) {
+      if (!isAbortError(error)) console.error("Question Regeneration Error:", error);
+      throw error;
+    }
+  }, signal);
+};
+
+// Replaces one quiz question with a new one of the same type; it keeps the original's id
+export const regenerateQuizQuestion = async (
+  item: QuizItem,
+  source: QuestionSource,
+  avoid: string[],
+  language: string = 'English',
+  { signal }: GenerationOptions = {}
+): Promise<QuizItem> => {
+  const replacement = await regenerateQuestion(item, 'quiz', source, avoid, language, signal);
+  return { ...replacement, id: item.id, difficulty: replacement.difficulty || item.difficulty, level: replacement.level || item.level };
+};
+
+// Exam replacements also keep the original's marks, section and topic, so the paper still adds up
+export const regenerateExamQuestion = async (
+  item: ExamItem,
+  source: QuestionSource,
+  avoid: string[],
+  language: string = 'English',
+  { signal }: GenerationOptions = {}
+): Promise<ExamItem> => {
+  const replacement = await regenerateQuestion(item, 'exam', source, avoid, language, signal);
+  return { ...replacement, id: item.id, marks: item.marks, section: item.section, topic: item.topic, difficulty: replacement.difficulty || item.difficulty };
+};
+
+// Whitespace and case differ between a quote and the notes it came from
+const normalizeQuote = (text: string) => text.toLowerCase().replace(/\s+/g, ' ').trim();
+
+// Checks each answer key against the material the questions were generated from and attaches
+// the verdict. Items that already carry one are skipped. Verification is an extra, so when it
+// fails the items come back unverified rather than failing the quiz or exam they belong to.
+export const verifyAnswers = async <T extends QuizItem | ExamItem>(
+  items: T[],
+  source: QuestionSource,
+  language: string = 'English',
+  { signal }: GenerationOptions = {}
+): Promise<T[]> => {
+  const toVerify = items.filter(item => !item.verification);
+  if (toVerify.length === 0 || (!source.text && (!source.files || source.files.length === 0))) return items;
+
+  try {
+    // Condensed once, outside the retries, when it is too large for one request
+    const material = await fitSource(source, signal);
+
+    const verdicts = await retryWithBackoff(async () => {
+      const payload = toVerify.map(item => ({
+        id: item.id,
+        type: item.type,
+        question: item.question,
+        options: item.options,
+        answer: item.correctAnswer || ('modelAnswer' in item ? item.modelAnswer : undefined),
+        correctAnswers: item.correctAnswers,
+        pairs: item.pairs,
+        sequence: item.sequence,
+        numericAnswer: item.numericAnswer,
+        unit: item.unit,
+        explanation: item.explanation
+      }));
+
+      const parts: AIPart[] = [...material.fileParts];
+      parts.push({ text: `${VERIFY_ANSWERS_PROMPT}${getLanguageInstruction(language)}\n\nSOURCE MATERIAL:\n${material.text}\n\nQUESTIONS TO VERIFY:\n${JSON.stringify(payload, null, 2)}` });
+
+      const response = await getAIProvider().generateText({
+        task: 'verification',
+        tier: 'flash',
+        parts,
+        json: true,
+        responseSchema: VERIFICATIONS_SCHEMA,
+        signal
+      });
+      return parseJsonArray(response).flatMap(raw => checkVerification(raw) || []);
+    }, signal);
+
+    // Quotes can only be checked against text notes; with attachments the model's quote is kept.
+    // Once the material was condensed, only quotes found verbatim in the notes survive.
+    const notes = normalizeQuote(source.text);
+    const canCheckQuotes = material.fileParts.length === 0;
+
+    return items.map(item => {
+      const found = !item.verification && verdicts.find(v => v.id === item.id);
+      if (!found) return item;
+      const { verification } = found;
+      const quoted = !verification.excerpt || !canCheckQuotes || notes.includes(normalizeQuote(verification.excerpt.replace(/…$/, '')));
+      return { ...item, verification: quoted ? verification : { ...verification, excerpt: undefined } };
+    });
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    console.warn("Answer verification failed, keeping the questions unverified", error);
+    return items;
+  }
+};
+
+// Marks answered short/long questions against a rubric built from the model answer.
+// Questions the model skipped or returned garbage for are left out, so callers fall back to keyword grading for them.
+export const gradeWrittenAnswers = async (
+  questions: ExamItem[],
+  answers: AnswerSheet,
+  language: string = 'English',
+  { signal }: GenerationOptions = {}
+): Promise<RubricSheet> => {
+  const toGrade = questions.filter(q => isWrittenQuestion(q) && isAnswered(answers[q.id]));
+  if (toGrade.length === 0) return {};
+
+  return retryWithBackoff(async () => {
+    try {
+      const payload = toGrade.map(q => ({
+        id: q.id,
+        question: q.question,
+        marks: q.marks,
+        modelAnswer: q.modelAnswer || q.correctAnswer || '',
+        keywords: q.keywords || [],
+        studentAnswer: answers[q.id]
+      }));
+      const langInstruction = getLanguageInstruction(language);
+
+      const response = await getAIProvider().generateText({
+        task: 'grading',
+        tier: 'flash',
+        parts: [{ text: RUBRIC_GRADING_PROMPT + JSON.stringify(payload, null, 2) + langInstruction }],
+        json: true,
+        responseSchema: RUBRIC_GRADES_SCHEMA,
+        signal
+      });
+
+      const rubrics: RubricSheet = {};
+      for (const raw of parseJsonArray(response)) {
+        const question = toGrade.find(q => q.id === Number(raw?.id));
+        const rubric = question && checkRubricGrade(raw, question.marks);
+        if (rubric) rubrics[question.id] = rubric;
+      }
+      return rubrics;
+    } catch (error) {
+      if (!isAbortError(error)) console.error("Grading Error:", error);
+      throw error;
+    }
+  }, signal);
 };
 
-export const createChatSession = (language: string = 'English') => {
+export const createChatSession = (language: string = 'English'): AIChatSession => {
   const langInstruction = getLanguageInstruction(language);
-  return ai.chats.create({
-    model: FLASH_MODEL,
-    config: {
-      systemInstruction: SYSTEM_INSTRUCTION_CHAT + langInstruction + " If a video source has no transcript but has a title, explain the concept based on the title.",
-      tools: [{ googleSearch: {} }],
-    },
+  return getAIProvider().createChat({
+    systemInstruction: SYSTEM_INSTRUCTION_CHAT + langInstruction + " If a video source has no transcript but has a title, explain the concept based on the title.",
+    webSearch: true,
   });
 };
 
 export const sendChatMessage = async (
-  chat: Chat, 
+  chat: AIChatSession, 
   message: string, 
-  files?: StudyFile[]
-): Promise<{ text: string, sources?: any[] }> => {
+  files?: StudyFile[],
+  { onProgress, signal }: GenerationOptions = {}
+): Promise<ChatReply> => {
   return retryWithBackoff(async () => {
     try {
-      let messageContent: any = [{ text: message }];
+      let messageContent: AIPart[] = [{ text: message }];
 
       if (files && files.length > 0) {
         const processedFiles = await Promise.all(files.map(async (file) => {
@@ -309,11 +875,11 @@ export const sendChatMessage = async (
                  const videoId = extractYoutubeVideoId(file.data);
                  let textData = `Referenced Video: ${file.data}`;
                  if (videoId) {
-                     const transcript = await fetchYoutubeTranscript(videoId);
+                     const transcript = await fetchYoutubeTranscript(videoId, signal);
                      if (transcript) {
                          textData += `\n\n[TRANSCRIPT]: ${transcript}`;
                      } else {
-                         const meta = await fetchYoutubeMetadata(videoId);
+                         const meta = await fetchYoutubeMetadata(videoId, signal);
                          textData += `\n\n[SYSTEM NOTE]: Transcript unavailable. Video Title: "${meta.title}". Use this title to answer user questions about the topic.`;
                      }
                  }
@@ -328,28 +894,36 @@ export const sendChatMessage = async (
              }
         }));
 
-        const textParts = processedFiles.filter(p => p.text).map(p => p.text).join('\n\n');
-        const inlineParts = processedFiles.filter(p => p.inlineData);
+        const textParts = processedFiles.filter(p => 'text' in p).map(p => (p as { text: string }).text).join('\n\n');
+        const inlineParts = processedFiles.filter(p => 'inlineData' in p);
 
-        if (textParts) messageContent[0].text += "\n\n" + textParts;
+        if (textParts) messageContent[0] = { text: message + "\n\n" + textParts };
         if (inlineParts.length > 0) messageContent.push(...inlineParts);
       }
 
-      const response = await chat.sendMessage({ message: messageContent });
-      const sources = response.candidates?.[0]?.groundingMetadata?.groundingChunks;
+      if (!onProgress) return await chat.sendMessage(messageContent, signal);
 
-      return {
-        text: response.text || "",
-        sources: sources
-      };
+      let text = '';
+      let sources: ChatReply['sources'];
+      try {
+        for await (const chunk of chat.sendMessageStream(messageContent, signal)) {
+          text += chunk.text;
+          if (chunk.sources) sources = chunk.sources;
+          onProgress(text);
+        }
+      } catch (error: any) {
+        if (text) error.partialText = text;
+        throw error;
+      }
+      return { text, sources };
     } catch (error) {
-      console.error("Chat Error:", error);
+      if (!isAbortError(error)) console.error("Chat Error:", error);
       throw error;
     }
-  });
+  }, signal);
 };
 
-export const generateProgressInsights = async (stats: UserStats): Promise<string> => {
+export const generateProgressInsights = async (stats: UserStats, { signal }: GenerationOptions = {}): Promise<string> => {
   return retryWithBackoff(async () => {
     try {
       const consistencyStr = stats.lastSevenDays.map(d => d.studied ? 'Yes' : 'No').join(', ');
@@ -366,17 +940,22 @@ export const generateProgressInsights = async (stats: UserStats): Promise<string
         Longest Streak: ${stats.longestStreak} days
         Last 7 Days Consistency: [${consistencyStr}]
         Recent Topics: ${stats.topTopics.map(t => t.topic).join(', ')}
+        Accuracy by Question Type: ${Object.entries(stats.accuracyByQuestionType).map(([type, acc]) => `${type} ${acc}%`).join(', ') || 'n/a'}
+        Weakest Topics: ${stats.weakestTopics.map(t => `${t.topic} (${t.accuracy}%)`).join(', ') || 'n/a'}
       `;
 
-      const response = await ai.models.generateContent({
-        model: FLASH_MODEL,
-        contents: INSIGHTS_PROMPT + statsString,
+      const response = await getAIProvider().generateText({
+        task: 'insights',
+        tier: 'flash',
+        parts: [{ text: INSIGHTS_PROMPT + statsString }],
+        signal
       });
 
-      return response.text || "Keep studying to unlock insights!";
+      return response || "Keep studying to unlock insights!";
     } catch (error) {
+      if (isAbortError(error)) throw error;
       console.error("Insight Error", error);
       return "Great job on your progress! Keep exploring new topics.";
     }
-  }, 1); 
+  }, signal, 1);
 };
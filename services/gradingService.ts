@@ -0,0 +1,187 @@
+import { QuizItem, ExamItem, GradeResult, GradeStatus, GradeSummary, RubricFeedback, QuizBreakdown, AccuracyTally, AnswerValue, MarkingRule, MarkingScheme } from "../types";
+
+// Single source of truth for marking answers. QuizRunner, ExamMode and the analytics they log
+// all go through here so a question's badge, its marks and the saved score always agree.
+
+export type GradableQuestion = QuizItem | ExamItem;
+
+export type AnswerSheet = { [questionId: number]: AnswerValue | undefined };
+
+// Model-marked results for written answers, keyed by question id (see gradeWrittenAnswers)
+export type RubricSheet = { [questionId: number]: RubricFeedback | undefined };
+
+export const isWrittenQuestion = (question: GradableQuestion) =>
+  question.type === 'short_answer' || question.type === 'long_answer';
+
+export const isAnswered = (answer?: AnswerValue): boolean =>
+  Array.isArray(answer) ? answer.some(a => a.trim() !== '') : !!answer?.trim();
+
+// Text answers as a string; list answers joined, for callers that only deal in text
+export const answerText = (answer?: AnswerValue): string =>
+  Array.isArray(answer) ? answer.join(', ') : answer || '';
+
+// --- HELPERS ---
+
+// Case, punctuation and spacing shouldn't decide whether an answer is right
+const normalize = (text: string) =>
+  text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const maxScoreFor = (question: GradableQuestion) => ('marks' in question ? question.marks : 1);
+
+// Half-mark steps keep partial credit readable ("2.5 / 5")
+const toHalfMarks = (value: number) => Math.round(value * 2) / 2;
+
+// Question types a marking scheme's wrong-answer penalty applies to
+const PENALISED_TYPES = ['mcq', 'true_false', 'multi_select'];
+
+// Negative marking: a wrong objective answer loses a share of the question's marks
+const penaltyFor = (question: GradableQuestion, maxScore: number, rule?: MarkingRule) =>
+  rule && rule.wrongPenalty > 0 && PENALISED_TYPES.includes(question.type)
+    ? -Math.round(maxScore * rule.wrongPenalty * 100) / 100
+    : 0;
+
+const statusFor = (score: number, maxScore: number): GradeStatus =>
+  score >= maxScore ? 'correct' : score > 0 ? 'partial' : 'incorrect';
+
+// Keyword answers get full credit once half the keywords appear (the threshold both screens
+// already used) and proportional credit below that.
+const gradeByKeywords = (answer: string, keywords: string[], maxScore: number) => {
+  const normalizedAnswer = ` ${normalize(answer)} `;
+  const matchedKeywords = keywords.filter(k => normalize(k) && normalizedAnswer.includes(` ${normalize(k)}`));
+  const missedKeywords = keywords.filter(k => !matchedKeywords.includes(k));
+  const needed = Math.ceil(keywords.length / 2);
+  const score = toHalfMarks(maxScore * Math.min(1, matchedKeywords.length / needed));
+  return { score, matchedKeywords, missedKeywords };
+};
+
+// Reads the first number out of answers like "9.8 m/s", "1,200" or "−3.5"
+const parseNumber = (text: string): number | null => {
+  const match = text
+    .replace(/\u2212/g, '-')
+    .replace(/(\d),(?=\d{3}\b)/g, '$1')
+    .match(/-?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?/i);
+  return match ? parseFloat(match[0]) : null;
+};
+
+// Credit (0-1) for the structured types. Wrong picks in a multi-select cancel out right ones,
+// so selecting every option doesn't earn marks.
+const structuredCredit = (question: GradableQuestion, answer: AnswerValue): number | null => {
+  const list = Array.isArray(answer) ? answer : [answer];
+  const same = (a: string, b: string) => normalize(a) === normalize(b);
+
+  switch (question.type) {
+    case 'multi_select': {
+      const correct = question.correctAnswers || [];
+      if (correct.length === 0) return 0;
+      const hits = list.filter(a => correct.some(c => same(a, c))).length;
+      const wrong = list.filter(a => a.trim() && !correct.some(c => same(a, c))).length;
+      return Math.max(0, (hits - wrong) / correct.length);
+    }
+    case 'matching': {
+      const pairs = question.pairs || [];
+      if (pairs.length === 0) return 0;
+      return pairs.filter((p, i) => list[i] && same(list[i], p.right)).length / pairs.length;
+    }
+    case 'ordering': {
+      const sequence = question.sequence || [];
+      if (sequence.length === 0) return 0;
+      return sequence.filter((item, i) => list[i] && same(list[i], item)).length / sequence.length;
+    }
+    case 'numeric': {
+      const value = parseNumber(answerText(answer));
+      if (value === null || question.numericAnswer === undefined) return 0;
+      const tolerance = Math.max(question.tolerance || 0, Math.abs(question.numericAnswer) * 1e-9);
+      return Math.abs(value - question.numericAnswer) <= tolerance ? 1 : 0;
+    }
+    default:
+      return null; // Not a structured type
+  }
+};
+
+// --- API EXPORTS ---
+
+// A question's rule under a scheme: its section's override, else the scheme's own rule
+export const ruleFor = (question: GradableQuestion, scheme?: MarkingScheme): MarkingRule | undefined => {
+  if (!scheme) return undefined;
+  const section = 'section' in question ? question.section : undefined;
+  return (section && scheme.sectionRules?.[section]) || scheme.rule;
+};
+
+// A rubric grade, when given for a written answer, replaces the keyword score. The keyword
+// lists are still filled in so the review can show both. Without a rule, marking is standard
+// (no penalties, partial credit for multi-select).
+export const gradeQuestion = (question: GradableQuestion, value?: AnswerValue, rubric?: RubricFeedback, rule?: MarkingRule): GradeResult => {
+  const maxScore = maxScoreFor(question);
+  const keywords = question.keywords || [];
+  const base = { questionId: question.id, maxScore, matchedKeywords: [] as string[], missedKeywords: keywords };
+
+  if (!value || !isAnswered(value)) {
+    return { ...base, status: 'unanswered', score: 0 };
+  }
+
+  const credit = structuredCredit(question, value);
+  if (credit !== null) {
+    const earned = question.type === 'multi_select' && rule?.multiSelect === 'all_or_nothing' ? Math.floor(credit) : credit;
+    // Only a wrong answer is penalised; partial credit that rounds down to 0 just scores 0
+    const score = earned === 0 ? penaltyFor(question, maxScore, rule) : toHalfMarks(maxScore * earned);
+    return { ...base, missedKeywords: [], status: statusFor(score, maxScore), score };
+  }
+
+  const answer = answerText(value);
+
+  if (rubric && isWrittenQuestion(question)) {
+    const score = toHalfMarks(Math.min(rubric.score, maxScore));
+    const keywordGrade = keywords.length > 0 ? gradeByKeywords(answer, keywords, maxScore) : { matchedKeywords: [], missedKeywords: [] };
+    return { ...base, ...keywordGrade, status: statusFor(score, maxScore), score, rubric };
+  }
+
+  const expected = question.correctAnswer || ('modelAnswer' in question ? question.modelAnswer : undefined) || '';
+  const exactMatch = expected !== '' && normalize(answer) === normalize(expected);
+
+  if (question.type === 'mcq' || question.type === 'true_false' || question.type === 'fill_blank' || keywords.length === 0) {
+    const score = exactMatch ? maxScore : penaltyFor(question, maxScore, rule);
+    return { ...base, missedKeywords: [], status: statusFor(score, maxScore), score };
+  }
+
+  if (exactMatch) {
+    return { ...base, missedKeywords: [], matchedKeywords: keywords, status: 'correct', score: maxScore };
+  }
+
+  const { score, matchedKeywords, missedKeywords } = gradeByKeywords(answer, keywords, maxScore);
+  return { ...base, status: statusFor(score, maxScore), score, matchedKeywords, missedKeywords };
+};
+
+export const gradeAnswers = (questions: GradableQuestion[], answers: AnswerSheet, rubrics: RubricSheet = {}, scheme?: MarkingScheme): GradeSummary => {
+  const results = questions.map(q => gradeQuestion(q, answers[q.id], rubrics[q.id], ruleFor(q, scheme)));
+
+  return {
+    results,
+    score: Math.round(results.reduce((sum, r) => sum + r.score, 0) * 100) / 100, // Penalties can be fractional
+    maxScore: results.reduce((sum, r) => sum + r.maxScore, 0),
+    correctCount: results.filter(r => r.status === 'correct').length,
+    answeredCount: results.filter(r => r.status !== 'unanswered').length
+  };
+};
+
+// Tallies full-credit answers per difficulty and per cognitive level, for analytics.
+// Unlabelled (older) questions are left out.
+export const breakdownQuizResults = (questions: QuizItem[], summary: GradeSummary): QuizBreakdown => {
+  const breakdown: QuizBreakdown = { difficulty: {}, level: {} };
+  const add = (bucket: Partial<Record<string, AccuracyTally>>, key: string | undefined, correct: boolean) => {
+    if (!key) return;
+    const tally = bucket[key] || (bucket[key] = { total: 0, correct: 0 });
+    tally.total++;
+    if (correct) tally.correct++;
+  };
+
+  questions.forEach((q, i) => {
+    const correct = summary.results[i]?.status === 'correct';
+    add(breakdown.difficulty, q.difficulty, correct);
+    add(breakdown.level, q.level, correct);
+  });
+  return breakdown;
+};
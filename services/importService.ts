@@ -0,0 +1,240 @@
+import { StudySession, Flashcard, QuizItem } from "../types";
+import { checkFlashcard, checkQuizItem, assignIds } from "./questionSchema";
+import { flashcardsToText } from "./flashcardService";
+import { loadSqlJs } from "./sqlJs";
+import { v4 as uuidv4 } from 'uuid';
+
+// Turns decks and question banks from other tools into sessions, with no model call:
+// Anki packages (.apkg), Quizlet/Anki delimited text (.txt/.tsv/.csv) and our JSON format
+// (documented in the README). Every deck becomes its own session.
+
+interface ImportedDeck {
+  title: string;
+  cards: Flashcard[];
+  quiz: QuizItem[];
+  notes?: string;
+}
+
+// --- HELPERS ---
+
+const decodeEntities = (text: string) =>
+  text
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+
+// Anki fields are HTML; flashcards are plain text. Media references are dropped.
+const htmlToText = (html: string) =>
+  decodeEntities(
+    html
+      .replace(/\[sound:[^\]]*\]/g, '')
+      .replace(/<br\s*\/?>|<\/(?:div|p|li)>|<(?:ol|ul)\b[^>]*>/gi, '\n')
+      .replace(/<[^>]*>/g, '')
+  )
+    .split('\n')
+    .map(line => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n');
+
+const CLOZE = /\{\{c\d+::(.*?)(?:::(.*?))?\}\}/g;
+
+// A cloze note becomes one card: blanks on the front, the filled-in text on the back
+const clozeToCard = (text: string, extra: string) => ({
+  front: text.replace(CLOZE, (_m, _answer, hint) => `[${hint || '...'}]`),
+  back: [text.replace(CLOZE, '$1'), extra].filter(Boolean).join('\n')
+});
+
+const toCard = (raw: any, id: number): Flashcard | null => checkFlashcard({ ...raw, id }).item;
+
+// "Parent::Child" deck names; the last part is the useful title
+const deckTitle = (name: string) => name.split('::').pop()!.trim() || name;
+
+const fileTitle = (fileName: string) => fileName.replace(/\.[^.]+$/, '').replace(/[_-]+/g, ' ').trim() || 'Imported Deck';
+
+// RFC 4180-style parsing: quoted fields may contain separators, quotes ("") and newlines
+const parseDelimited = (text: string, separator: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') { field += '"'; i++; }
+      else if (char === '"') quoted = false;
+      else field += char;
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === separator) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) rows.push([...row, field]);
+  return rows;
+};
+
+// --- IMPORTERS ---
+
+// Quizlet exports "term<TAB>definition" per line; Anki's text export adds "#key:value"
+// header lines naming the separator and the tags/deck/notetype columns.
+const importDelimited = (text: string, fileName: string): ImportedDeck[] => {
+  const headers: Record<string, string> = {};
+  const lines = text.replace(/^﻿/, '').split(/\r?\n/);
+  while (lines.length > 0 && /^#[\w ]+:/.test(lines[0])) {
+    const [, key, value] = lines.shift()!.match(/^#([\w ]+):(.*)$/)!;
+    headers[key.trim().toLowerCase()] = value.trim();
+  }
+
+  const namedSeparators: Record<string, string> = { tab: '\t', comma: ',', semicolon: ';', pipe: '|', space: ' ', colon: ':' };
+  const body = lines.join('\n');
+  const declared = headers['separator'];
+  const separator = declared
+    ? namedSeparators[declared.toLowerCase()] || declared
+    : body.includes('\t') ? '\t' : /\.csv$/i.test(fileName) ? ',' : '\t';
+
+  const column = (key: string) => (headers[key] ? parseInt(headers[key], 10) - 1 : -1);
+  const tagsColumn = column('tags column');
+  const deckColumn = column('deck column');
+  const notetypeColumn = column('notetype column');
+  const isHtml = headers['html'] === 'true';
+
+  const decks = new Map<string, Flashcard[]>();
+  parseDelimited(body, separator).forEach(row => {
+    const cells = row.map(cell => (isHtml ? htmlToText(cell) : cell.trim()));
+    const fields = cells.filter((_, i) => i !== tagsColumn && i !== deckColumn && i !== notetypeColumn);
+    if (!fields[0]) return;
+
+    const isCloze = notetypeColumn >= 0 && /cloze/i.test(cells[notetypeColumn] || '');
+    const sides = isCloze || /\{\{c\d+::/.test(fields[0]) ? clozeToCard(fields[0], fields[1] || '') : { front: fields[0], back: fields[1] };
+
+    const deck = deckColumn >= 0 && cells[deckColumn] ? deckTitle(cells[deckColumn]) : fileTitle(fileName);
+    const cards = decks.get(deck) || [];
+    const card = toCard({
+      ...sides,
+      tags: tagsColumn >= 0 ? (cells[tagsColumn] || '').split(/\s+/).filter(Boolean) : []
+    }, cards.length + 1);
+    if (card) decks.set(deck, [...cards, card]);
+  });
+
+  return Array.from(decks.entries()).map(([title, cards]) => ({ title, cards, quiz: [] }));
+};
+
+// The JSON format is either one deck object or an array of them (see README)
+const importJson = (text: string, fileName: string): ImportedDeck[] => {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(text);
+  } catch (e) {
+    throw new Error("This JSON file couldn't be read. Check it against the format in the README.");
+  }
+
+  const decks = Array.isArray(parsed) ? parsed : [parsed];
+  return decks.map((deck: any, i: number) => {
+    const cards = (Array.isArray(deck?.flashcards) ? deck.flashcards : [])
+      .map((raw: any, j: number) => toCard(raw, j + 1))
+      .filter((c: Flashcard | null): c is Flashcard => !!c);
+    const quiz = (Array.isArray(deck?.quiz) ? deck.quiz : [])
+      .map((raw: any, j: number) => checkQuizItem({ id: j + 1, ...raw }).item)
+      .filter((q: QuizItem | null): q is QuizItem => !!q);
+    const title = typeof deck?.title === 'string' && deck.title.trim()
+      ? deck.title.trim()
+      : decks.length > 1 ? `${fileTitle(fileName)} ${i + 1}` : fileTitle(fileName);
+    return { title, cards, quiz, notes: typeof deck?.notes === 'string' ? deck.notes : undefined };
+  });
+};
+
+const importApkg = async (data: Uint8Array): Promise<ImportedDeck[]> => {
+  const [SQL, { unzipSync }] = await Promise.all([loadSqlJs(), import('fflate')]);
+  const files = unzipSync(data);
+
+  // Packages from Anki 2.1.50+ default to a zstd-compressed collection; the legacy copy
+  // next to it is only a placeholder note, so ask for a compatible export instead
+  const collection = files['collection.anki21'] || (!files['collection.anki21b'] ? files['collection.anki2'] : undefined);
+  if (!collection) {
+    throw new Error("This package uses Anki's newest format. Re-export it from Anki with \"Support older Anki versions\" ticked.");
+  }
+
+  const db = new SQL.Database(collection);
+  try {
+    const [models, decksJson] = db.exec('SELECT models, decks FROM col')[0].values[0] as string[];
+    const modelTypes = new Map<string, number>(Object.values(JSON.parse(models)).map((m: any) => [String(m.id), m.type]));
+    const deckNames = new Map<string, string>(Object.values(JSON.parse(decksJson)).map((d: any) => [String(d.id), d.name]));
+
+    // A note can have several cards (one per template); it goes to the deck of its first card
+    const rows = db.exec(`
+      SELECT n.id, n.mid, n.tags, n.flds, MIN(c.did)
+      FROM notes n JOIN cards c ON c.nid = n.id
+      GROUP BY n.id
+      ORDER BY MIN(c.due), n.id
+    `)[0]?.values || [];
+
+    const decks = new Map<string, Flashcard[]>();
+    rows.forEach(([, mid, tags, flds, did]) => {
+      const fields = String(flds).split('\x1f').map(htmlToText);
+      if (!fields[0]) return;
+      const sides = modelTypes.get(String(mid)) === 1
+        ? clozeToCard(fields[0], fields.slice(1).filter(Boolean).join('\n'))
+        : { front: fields[0], back: fields.slice(1).filter(Boolean).join('\n') };
+
+      const deck = deckTitle(deckNames.get(String(did)) || 'Imported Deck');
+      const cards = decks.get(deck) || [];
+      const card = toCard({ ...sides, tags: String(tags).trim().split(/\s+/).filter(Boolean) }, cards.length + 1);
+      if (card) decks.set(deck, [...cards, card]);
+    });
+
+    return Array.from(decks.entries()).map(([title, cards]) => ({ title, cards, quiz: [] }));
+  } finally {
+    db.close();
+  }
+};
+
+// --- API EXPORTS ---
+
+export const IMPORT_ACCEPT = '.apkg,.txt,.tsv,.csv,.json';
+
+// Builds sessions from a file. Nothing is saved; callers persist them with saveSession.
+export const importStudyFile = async (file: File): Promise<StudySession[]> => {
+  const name = file.name.toLowerCase();
+  let decks: ImportedDeck[];
+
+  try {
+    if (name.endsWith('.apkg')) decks = await importApkg(new Uint8Array(await file.arrayBuffer()));
+    else if (name.endsWith('.json')) decks = importJson(await file.text(), file.name);
+    else if (/\.(txt|tsv|csv)$/.test(name)) decks = importDelimited(await file.text(), file.name);
+    else throw new Error("Unsupported file. Import an Anki package (.apkg), a Quizlet/CSV export or a JSON deck.");
+  } catch (error) {
+    console.error("Import Error:", error);
+    throw error;
+  }
+
+  const sessions = decks
+    .filter(deck => deck.cards.length > 0 || deck.quiz.length > 0)
+    .map((deck): StudySession => {
+      const cards = assignIds(deck.cards);
+      return {
+        id: uuidv4(),
+        title: deck.title,
+        date: new Date().toISOString(),
+        // The AI tools work from originalText, so give them the material in readable form
+        originalText: deck.notes || flashcardsToText(cards) || deck.quiz.map(q => `${q.question} ${q.correctAnswer}`).join('\n'),
+        flashcards: cards.length > 0 ? JSON.stringify(cards) : undefined,
+        quiz: deck.quiz.length > 0 ? JSON.stringify(assignIds(deck.quiz)) : undefined
+      };
+    });
+
+  if (sessions.length === 0) throw new Error("No flashcards or questions were found in this file.");
+  return sessions;
+};
@@ -0,0 +1,117 @@
+import { QuizItem, ExamItem, Mistake, AnswerValue, GradeStatus, GradeSummary } from "../types";
+import { getMistakes, saveMistakes, extractKeywords } from "./storageService";
+import { AnswerSheet } from "./gradingService";
+import { v4 as uuidv4 } from 'uuid';
+
+// The mistake notebook. Every graded quiz or exam answer that isn't full credit is kept with
+// the student's answer; later correct answers to the same question count towards retiring it.
+
+export interface MistakeSource {
+  sessionId?: string;
+  topic: string;
+  origin: Mistake['origin'];
+}
+
+export interface MistakeAttempt {
+  source: MistakeSource;
+  question: QuizItem;
+  answer?: AnswerValue;
+  status: GradeStatus;
+}
+
+export interface MistakeGroup {
+  topic: string;
+  mistakes: Mistake[];
+}
+
+// Correct answers in a row before a mistake leaves the notebook
+export const MISTAKE_RETIRE_AFTER = 2;
+
+// --- HELPERS ---
+
+const sourceKey = (source: { sessionId?: string; topic: string }) => source.sessionId || `topic:${source.topic}`;
+
+// --- API EXPORTS ---
+
+export const questionKeyFor = (question: string) => question.trim().toLowerCase().replace(/\s+/g, ' ');
+
+// Exam questions are retried in the quiz runner, so written types become short answers
+// marked by their keywords (fill-in-the-blank uses the answer itself as the keyword)
+export const examItemToQuizItem = (item: ExamItem): QuizItem => {
+  const { marks, modelAnswer, type, ...rest } = item;
+  if (type === 'fill_blank' || type === 'short_answer' || type === 'long_answer') {
+    const correctAnswer = item.correctAnswer || modelAnswer || '';
+    const keywords = item.keywords?.length ? item.keywords : type === 'fill_blank' ? [correctAnswer] : extractKeywords(correctAnswer);
+    return { ...rest, type: 'short_answer', correctAnswer, keywords };
+  }
+  return { ...rest, type, correctAnswer: item.correctAnswer || '' };
+};
+
+// Pairs graded questions with their results; grading keeps the question order
+export const toAttempts = (source: MistakeSource, questions: QuizItem[], summary: GradeSummary, answers: AnswerSheet): MistakeAttempt[] =>
+  questions.map((question, i) => ({
+    source,
+    question,
+    answer: answers[question.id],
+    status: summary.results[i]?.status || 'unanswered'
+  }));
+
+// Returns only the entries that changed: new and re-failed mistakes, and progress on known ones.
+// Correct answers to questions that aren't in the notebook are ignored.
+export const applyAttempts = (existing: Mistake[], attempts: MistakeAttempt[], now: number = Date.now()): Mistake[] => {
+  const byKey = new Map(existing.map(m => [`${sourceKey(m)}::${m.questionKey}`, m]));
+  const changed = new Map<string, Mistake>();
+
+  attempts.forEach(({ source, question, answer, status }) => {
+    const questionKey = questionKeyFor(question.question);
+    const key = `${sourceKey(source)}::${questionKey}`;
+    const current = changed.get(key) || byKey.get(key);
+
+    let next: Mistake | null = null;
+    if (status !== 'correct') {
+      next = {
+        id: current?.id || uuidv4(),
+        sessionId: source.sessionId,
+        topic: current?.topic || source.topic,
+        origin: current?.origin || source.origin,
+        questionKey,
+        question: { ...question, id: 1 },
+        userAnswer: answer,
+        status,
+        correctStreak: 0,
+        retired: false,
+        createdAt: current?.createdAt || now,
+        lastAttemptAt: now
+      };
+    } else if (current && !current.retired) {
+      const correctStreak = current.correctStreak + 1;
+      next = { ...current, status, correctStreak, retired: correctStreak >= MISTAKE_RETIRE_AFTER, lastAttemptAt: now };
+    }
+
+    if (next) changed.set(key, next);
+  });
+
+  return Array.from(changed.values());
+};
+
+export const recordAttempts = async (attempts: MistakeAttempt[]) => {
+  try {
+    const changed = applyAttempts(await getMistakes(), attempts);
+    await saveMistakes(changed);
+  } catch (e) {
+    console.error("Mistake Notebook Error:", e);
+  }
+};
+
+// Active mistakes by topic, biggest pile first
+export const groupMistakes = (mistakes: Mistake[]): MistakeGroup[] => {
+  const groups = new Map<string, MistakeGroup>();
+  mistakes
+    .filter(m => !m.retired)
+    .forEach(m => {
+      const group = groups.get(m.topic) || { topic: m.topic, mistakes: [] };
+      group.mistakes.push(m);
+      groups.set(m.topic, group);
+    });
+  return Array.from(groups.values()).sort((a, b) => b.mistakes.length - a.mistakes.length || a.topic.localeCompare(b.topic));
+};
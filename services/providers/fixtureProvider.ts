@@ -0,0 +1,237 @@
+import type { AIProvider, AIChatSession, AIPart, AITask } from "../aiProvider";
+import { QuizItem, ExamItem, QuizDifficulty, CognitiveLevel } from "../../types";
+
+// Deterministic, offline provider. Same input always gives the same output, which makes it
+// usable for local development without an API key and for tests.
+
+const joinText = (parts: AIPart[]) =>
+  parts.map(p => ('text' in p ? p.text : `[${p.inlineData.mimeType} attachment]`)).join('\n\n');
+
+// Pull the student's material out of the prompt so fixture output at least mentions it
+const extractTopic = (prompt: string): string => {
+  const marker = prompt.match(/(?:Text to process:|Additional Context\/Notes:|Session Title:|=== SOURCE MATERIAL 1: )\s*([^\n]*)/);
+  const topic = (marker?.[1] || '').trim().replace(/=+$/, '').trim();
+  return topic ? topic.slice(0, 60) : 'your study material';
+};
+
+// Cites the opening words of the notes, or the first attachment, when the prompt asks for citations
+const fixtureCitation = (prompt: string, topic: string): string => {
+  if (!prompt.includes('CITATIONS:')) return '';
+  const quote = topic.split(/\s+/).slice(0, 6).join(' ');
+  if (prompt.includes('[notes]') && quote) return ` [[notes: "${quote}"]]`;
+  return prompt.includes('[S1]') ? ' [[S1 p.1: "fixture passage"]]' : '';
+};
+
+const FIXTURE_DIFFICULTIES: QuizDifficulty[] = ['easy', 'medium', 'hard'];
+const FIXTURE_LEVELS: CognitiveLevel[] = ['recall', 'application', 'analysis'];
+const FIXTURE_OPTIONS = ['Option A', 'Option B', 'Option C', 'Option D'];
+
+type StructuredType = 'true_false' | 'multi_select' | 'matching' | 'ordering' | 'numeric';
+
+// Question text and answer fields for the structured types, shared by quizzes and exams
+const FIXTURE_STRUCTURED = (type: StructuredType, n: number, topic: string) => {
+  switch (type) {
+    case 'true_false':
+      return { question: `True or false: statement ${n} about ${topic} is correct.`, correctAnswer: n % 2 ? 'True' : 'False' };
+    case 'multi_select':
+      return { question: `Which of these apply to ${topic}? Select all that apply.`, options: FIXTURE_OPTIONS, correctAnswers: ['Option A', 'Option C'] };
+    case 'matching':
+      return {
+        question: `Match each term from ${topic} with its description.`,
+        pairs: [
+          { left: 'Term 1', right: 'Description 1' },
+          { left: 'Term 2', right: 'Description 2' },
+          { left: 'Term 3', right: 'Description 3' }
+        ]
+      };
+    case 'ordering':
+      return { question: `Put the steps of ${topic} in order.`, sequence: ['Step 1', 'Step 2', 'Step 3', 'Step 4'] };
+    case 'numeric':
+      return { question: `Fixture calculation ${n} about ${topic}: what is 6 × 7?`, numericAnswer: 42, tolerance: 0.5, unit: 'units' };
+  }
+};
+
+const isStructured = (type: string): type is StructuredType =>
+  ['true_false', 'multi_select', 'matching', 'ordering', 'numeric'].includes(type);
+
+// Reads the requested mix back out of the quiz prompt ("Create exactly 7 questions: 4 mcq, 3 short_answer"),
+// or the type of the question being replaced
+const FIXTURE_QUIZ = (topic: string, prompt: string): QuizItem[] => {
+  const replacing = prompt.match(/Keep the same type: ([a-z_]+)\./)?.[1];
+  const mix = prompt.match(/Create exactly \d+ questions: ([^\n]*)\./)?.[1] || (replacing ? `1 ${replacing}` : '5 mcq, 2 short_answer');
+  const types = Array.from(mix.matchAll(/(\d+) ([a-z_]+)/g))
+    .flatMap(m => Array<QuizItem['type']>(parseInt(m[1], 10)).fill(m[2] as QuizItem['type']));
+  const difficulty = prompt.match(/all questions should be (easy|medium|hard)/)?.[1] as QuizDifficulty | undefined;
+  const level = prompt.match(/all questions should test (recall|application|analysis)/)?.[1] as CognitiveLevel | undefined;
+
+  return types.map((type, i): QuizItem => {
+    const n = i + 1;
+    const common = {
+      id: n,
+      type,
+      explanation: `Fixture explanation ${n}.`,
+      difficulty: difficulty || FIXTURE_DIFFICULTIES[i % 3],
+      level: level || FIXTURE_LEVELS[i % 3]
+    };
+    if (isStructured(type)) return { ...common, correctAnswer: '', ...FIXTURE_STRUCTURED(type, n, topic) };
+    return type === 'mcq'
+      ? {
+          ...common,
+          question: `Fixture question ${n} about ${topic}: which option is correct?`,
+          options: FIXTURE_OPTIONS,
+          correctAnswer: FIXTURE_OPTIONS[i % 4]
+        }
+      : {
+          ...common,
+          question: `Describe idea ${n} of ${topic}.`,
+          correctAnswer: 'The main idea is the core concept of the material.',
+          keywords: ['main', 'idea', 'concept']
+        };
+  });
+};
+
+const FIXTURE_EXAM = (topic: string, totalMarks: number): ExamItem[] => {
+  const items: ExamItem[] = [];
+  let remaining = totalMarks;
+  let id = 1;
+
+  // Fixed rotation of question types so the paper always looks the same for a given total
+  const rotation: ExamItem['type'][] = ['mcq', 'fill_blank', 'short_answer', 'long_answer', 'true_false', 'numeric', 'ordering', 'matching', 'multi_select'];
+  const marksFor: Record<ExamItem['type'], number> = {
+    mcq: 1, fill_blank: 1, short_answer: 3, long_answer: 5,
+    true_false: 1, numeric: 2, ordering: 2, matching: 3, multi_select: 2
+  };
+
+  while (remaining > 0) {
+    let type = rotation[(id - 1) % rotation.length];
+    if (marksFor[type] > remaining) type = 'mcq';
+    const marks = marksFor[type];
+
+    if (isStructured(type)) {
+      items.push({ id, type, explanation: `Fixture explanation ${id}.`, marks, ...FIXTURE_STRUCTURED(type, id, topic) });
+      remaining -= marks;
+      id++;
+      continue;
+    }
+
+    items.push({
+      id,
+      type,
+      question: type === 'fill_blank'
+        ? `In ${topic}, the key term is ______.`
+        : `Fixture ${type.replace('_', ' ')} question ${id} about ${topic}.`,
+      options: type === 'mcq' ? FIXTURE_OPTIONS : undefined,
+      correctAnswer: type === 'mcq' ? 'Option A' : type === 'fill_blank' ? 'concept' : undefined,
+      modelAnswer: type === 'short_answer' || type === 'long_answer' ? 'A complete answer explains the concept with an example.' : undefined,
+      explanation: `Fixture explanation ${id}.`,
+      keywords: type === 'mcq' ? undefined : ['concept', 'example'],
+      marks
+    });
+
+    remaining -= marks;
+    id++;
+  }
+
+  return items;
+};
+
+const respond = (task: AITask, prompt: string): string => {
+  const topic = extractTopic(prompt);
+
+  switch (task) {
+    case 'quiz':
+      return JSON.stringify(FIXTURE_QUIZ(topic, prompt));
+    case 'exam': {
+      const marks = parseInt(prompt.match(/sum up to exactly:\s*(\d+)/)?.[1] || '20', 10);
+      return JSON.stringify(FIXTURE_EXAM(topic, marks));
+    }
+    case 'flashcards':
+      return JSON.stringify([
+        { id: 1, front: 'Concept', back: `The central idea of ${topic}.`, tags: ['basics'], source: 'Fixture section 1' },
+        { id: 2, front: 'Example', back: 'A concrete case of the concept.', tags: ['basics'], source: 'Fixture section 1' },
+        { id: 3, front: 'Definition', back: 'A precise statement of meaning.', tags: ['terms'], source: 'Fixture section 2' },
+        { id: 4, front: 'Key date', back: 'When the concept was first described.', tags: ['dates'] }
+      ]);
+    case 'summarize':
+      return `# Summary: ${topic}\n\n- Key point one.${fixtureCitation(prompt, topic)}\n- Key point two.\n- Key point three.`;
+    case 'revision':
+      return `# Quick Revision: ${topic}\n\n🎯 **Core Concept**: Fixture core concept.\n\n🔑 **Key Takeaways**\n- Takeaway one.\n- Takeaway two.\n\n⚠️ **Tricky Points**\n- Fixture tricky point.\n\n🧠 **Rapid Recall**\n- Concept\n- Example`;
+    case 'grading': {
+      // Half marks for any attempt, full marks once the answer is reasonably long
+      const payload = JSON.parse(prompt.slice(prompt.indexOf('ANSWERS TO GRADE:') + 17).match(/\[[\s\S]*\]/)?.[0] || '[]');
+      return JSON.stringify(payload.map((a: any) => {
+        const full = String(a.studentAnswer).split(/\s+/).length >= 12;
+        const score = full ? a.marks : a.marks / 2;
+        return {
+          id: a.id,
+          score,
+          criteria: [{ criterion: 'Covers the model answer', awarded: score, max: a.marks, feedback: full ? 'Complete answer.' : 'Answer is too brief.' }],
+          missing: full ? [] : ['More detail'],
+          summary: 'Fixture grade.'
+        };
+      }));
+    }
+    case 'verification': {
+      // Every answer is supported, quoting the opening of the source
+      const payload = JSON.parse(prompt.slice(prompt.indexOf('QUESTIONS TO VERIFY:') + 20).match(/\[[\s\S]*\]/)?.[0] || '[]');
+      const source = prompt.slice(prompt.indexOf('SOURCE MATERIAL:') + 16, prompt.indexOf('QUESTIONS TO VERIFY:')).trim();
+      const excerpt = source.split(/(?<=[.!?])\s/)[0].slice(0, 200);
+      return JSON.stringify(payload.map((q: any) => ({ id: q.id, verdict: 'supported', confidence: 0.9, excerpt: excerpt || undefined })));
+    }
+    case 'condense': {
+      // Keeps the opening of every piece of material, so later steps still see each part
+      const part = prompt.match(/This is part (\d+) of (\d+)/);
+      const material = prompt.slice(prompt.indexOf('MATERIAL:') + 9).trim();
+      const pieces = material.split(/\n(?=\[(?:S\d+|notes)\])/).map(piece => `- ${piece.replace(/\s+/g, ' ').slice(0, 200)}`);
+      return `## Notes, part ${part?.[1] || 1} of ${part?.[2] || 1}\n\n${pieces.join('\n')}`;
+    }
+    case 'repair':
+      return '[]'; // Fixture questions are always valid, so there is never anything to fix
+    case 'insights':
+      return "You're building a steady study habit. Keep reviewing your weaker topics to push your accuracy higher.";
+    default:
+      return `# Explanation: ${topic}\n\nThis is a fixture explanation generated offline.${fixtureCitation(prompt, topic)}\n\n1. Start with the core concept.\n2. Connect it to an example.\n3. Review the key terms.`;
+  }
+};
+
+// Splits a response into word-sized deltas so streaming UIs get exercised offline
+const chunkWords = async function* (text: string, signal?: AbortSignal): AsyncGenerator<string> {
+  for (const piece of text.match(/\S+\s*/g) || []) {
+    await new Promise(resolve => setTimeout(resolve, 10));
+    signal?.throwIfAborted();
+    yield piece;
+  }
+};
+
+export const createFixtureProvider = (): AIProvider => ({
+  name: 'fixture',
+
+  generateText: async (request) => {
+    request.signal?.throwIfAborted();
+    return respond(request.task, joinText(request.parts));
+  },
+
+  streamText: (request) => chunkWords(respond(request.task, joinText(request.parts)), request.signal),
+
+  createChat: (): AIChatSession => {
+    let turn = 0;
+    const reply = (parts: AIPart[]) => {
+      turn++;
+      const question = joinText(parts).split('\n')[0].slice(0, 120);
+      return `Fixture reply #${turn}: you asked "${question}".`;
+    };
+
+    return {
+      sendMessage: async (parts, signal) => {
+        signal?.throwIfAborted();
+        return { text: reply(parts) };
+      },
+
+      sendMessageStream: async function* (parts, signal) {
+        for await (const delta of chunkWords(reply(parts), signal)) {
+          yield { text: delta };
+        }
+      }
+    };
+  }
+});
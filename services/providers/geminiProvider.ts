@@ -0,0 +1,82 @@
+import { GoogleGenAI } from "@google/genai";
+import type { AIProvider, AIChatSession, GenerateRequest, ModelTier } from "../aiProvider";
+
+// Hybrid Model Strategy
+const FLASH_MODEL = 'gemini-2.5-flash';
+const PRO_MODEL = 'gemini-3-pro-preview';
+
+const MODELS: Record<ModelTier, string> = {
+  flash: FLASH_MODEL,
+  pro: PRO_MODEL
+};
+
+const toGenerateParams = (request: GenerateRequest) => {
+  const config: any = {};
+  if (request.systemInstruction) config.systemInstruction = request.systemInstruction;
+  if (request.json || request.responseSchema) config.responseMimeType = "application/json";
+  if (request.responseSchema) config.responseJsonSchema = request.responseSchema;
+  if (request.signal) config.abortSignal = request.signal;
+
+  return {
+    model: MODELS[request.tier],
+    contents: {
+      role: 'user',
+      parts: request.parts
+    },
+    config
+  };
+};
+
+export const createGeminiProvider = ({ apiKey }: { apiKey: string }): AIProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+
+  return {
+    name: 'gemini',
+
+    generateText: async (request) => {
+      const response = await ai.models.generateContent(toGenerateParams(request));
+      return response.text || "";
+    },
+
+    streamText: async function* (request) {
+      const stream = await ai.models.generateContentStream(toGenerateParams(request));
+      for await (const chunk of stream) {
+        request.signal?.throwIfAborted();
+        if (chunk.text) yield chunk.text;
+      }
+    },
+
+    createChat: (options): AIChatSession => {
+      const chatConfig = {
+        systemInstruction: options.systemInstruction,
+        tools: options.webSearch ? [{ googleSearch: {} }] : undefined,
+      };
+      const chat = ai.chats.create({
+        model: FLASH_MODEL,
+        config: chatConfig,
+      });
+      // A per-message config replaces the chat's config rather than merging, so repeat it
+      const messageConfig = (signal?: AbortSignal) => ({ ...chatConfig, abortSignal: signal });
+
+      return {
+        sendMessage: async (parts, signal) => {
+          const response = await chat.sendMessage({ message: parts, config: messageConfig(signal) });
+          const sources = response.candidates?.[0]?.groundingMetadata?.groundingChunks as any[] | undefined;
+          return {
+            text: response.text || "",
+            sources
+          };
+        },
+
+        sendMessageStream: async function* (parts, signal) {
+          const stream = await chat.sendMessageStream({ message: parts, config: messageConfig(signal) });
+          for await (const chunk of stream) {
+            signal?.throwIfAborted();
+            const sources = chunk.candidates?.[0]?.groundingMetadata?.groundingChunks as any[] | undefined;
+            yield { text: chunk.text || "", sources };
+          }
+        }
+      };
+    }
+  };
+};
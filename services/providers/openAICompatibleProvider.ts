@@ -0,0 +1,158 @@
+import type { AIProvider, AIChatSession, AIPart, GenerateRequest } from "../aiProvider";
+
+// Works against any server exposing the OpenAI /chat/completions API:
+// OpenAI itself, Ollama (http://localhost:11434/v1), llama.cpp server, LM Studio, vLLM...
+
+interface OpenAICompatibleConfig {
+  baseUrl: string;
+  apiKey?: string;
+  model: string;
+  proModel?: string; // Falls back to `model` when not set
+}
+
+type OpenAIContent = string | Array<
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } }
+>;
+
+interface OpenAIMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: OpenAIContent;
+}
+
+// Images go through as data URLs. Other binary attachments (PDFs) can't be sent over
+// this API, so the model is told they exist instead of failing the whole request.
+const toOpenAIContent = (parts: AIPart[]): OpenAIContent => {
+  const content: Exclude<OpenAIContent, string> = parts.map(part => {
+    if ('text' in part) return { type: 'text' as const, text: part.text };
+    if (part.inlineData.mimeType.startsWith('image/')) {
+      return {
+        type: 'image_url' as const,
+        image_url: { url: `data:${part.inlineData.mimeType};base64,${part.inlineData.data}` }
+      };
+    }
+    return { type: 'text' as const, text: `[Attached ${part.inlineData.mimeType} document omitted: not supported by this model provider]` };
+  });
+
+  // Plain-text servers (older llama.cpp builds) reject array content, so collapse when possible
+  return content.every(c => c.type === 'text')
+    ? content.map(c => (c as { text: string }).text).join('\n\n')
+    : content;
+};
+
+export const createOpenAICompatibleProvider = (config: OpenAICompatibleConfig): AIProvider => {
+  const endpoint = `${config.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  const post = async (body: object, signal?: AbortSignal): Promise<Response> => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (config.apiKey) headers['Authorization'] = `Bearer ${config.apiKey}`;
+
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(body),
+      signal
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      const error: any = new Error(`AI provider request failed (${response.status}): ${detail}`);
+      error.status = response.status; // Lets retryWithBackoff spot 429s
+      throw error;
+    }
+    return response;
+  };
+
+  const complete = async (messages: OpenAIMessage[], model: string, json?: boolean, signal?: AbortSignal): Promise<string> => {
+    const response = await post({
+      model,
+      messages,
+      ...(json ? { response_format: { type: 'json_object' } } : {})
+    }, signal);
+    const data = await response.json();
+    return data?.choices?.[0]?.message?.content || "";
+  };
+
+  // Server-sent events: one `data: {...}` line per delta, terminated by `data: [DONE]`
+  const completeStream = async function* (messages: OpenAIMessage[], model: string, json?: boolean, signal?: AbortSignal): AsyncGenerator<string> {
+    const response = await post({
+      model,
+      messages,
+      stream: true,
+      ...(json ? { response_format: { type: 'json_object' } } : {})
+    }, signal);
+    if (!response.body) throw new Error("AI provider returned an empty stream");
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+        // Once the stream ends, a last line without a trailing newline is still processed
+        const lines = buffer.split('\n');
+        buffer = done ? '' : lines.pop() || '';
+
+        for (const line of lines) {
+          const trimmed = line.trim();
+          if (!trimmed.startsWith('data:')) continue;
+          const payload = trimmed.slice(5).trim();
+          if (payload === '[DONE]') return;
+
+          const delta = JSON.parse(payload)?.choices?.[0]?.delta?.content;
+          if (delta) yield delta;
+        }
+        if (done) return;
+      }
+    } finally {
+      // Closes the HTTP stream however we stop reading: [DONE], an abort, a bad line or the caller giving up
+      reader.cancel().catch(() => {});
+    }
+  };
+
+  const modelFor = (request: GenerateRequest) =>
+    request.tier === 'pro' ? (config.proModel || config.model) : config.model;
+
+  const toMessages = (request: GenerateRequest): OpenAIMessage[] => {
+    const messages: OpenAIMessage[] = [];
+    if (request.systemInstruction) messages.push({ role: 'system', content: request.systemInstruction });
+    messages.push({ role: 'user', content: toOpenAIContent(request.parts) });
+    return messages;
+  };
+
+  return {
+    name: 'openai',
+
+    // Schema support varies too much between servers, so a schema only switches on JSON mode here
+    generateText: (request) => complete(toMessages(request), modelFor(request), request.json || !!request.responseSchema, request.signal),
+
+    streamText: (request) => completeStream(toMessages(request), modelFor(request), request.json || !!request.responseSchema, request.signal),
+
+    createChat: (options): AIChatSession => {
+      // No server-side chat state in this API, so the history lives here
+      const history: OpenAIMessage[] = [{ role: 'system', content: options.systemInstruction }];
+
+      return {
+        sendMessage: async (parts, signal) => {
+          const userMessage: OpenAIMessage = { role: 'user', content: toOpenAIContent(parts) };
+          const text = await complete([...history, userMessage], config.model, false, signal);
+          history.push(userMessage, { role: 'assistant', content: text });
+          return { text };
+        },
+
+        sendMessageStream: async function* (parts, signal) {
+          const userMessage: OpenAIMessage = { role: 'user', content: toOpenAIContent(parts) };
+          let text = '';
+          for await (const delta of completeStream([...history, userMessage], config.model, false, signal)) {
+            text += delta;
+            yield { text: delta };
+          }
+          history.push(userMessage, { role: 'assistant', content: text });
+        }
+      };
+    }
+  };
+};
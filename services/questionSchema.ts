@@ -0,0 +1,592 @@
+import { QuizItem, ExamItem, ExamBlueprint, Flashcard, RubricFeedback, RubricCriterion, QuizDifficulty, CognitiveLevel, StructuredAnswerFields, MatchingPair, AnswerVerification } from "../types";
+
+// Runtime schemas for model-generated quizzes and exam papers.
+// The JSON Schemas are sent to the provider so it constrains its output; the validators below
+// check every item anyway, because not every provider honours a schema and some rules
+// (answer must be one of the options, marks must add up) can't be expressed in one.
+
+// --- JSON SCHEMAS ---
+
+const STRUCTURED_TYPES = ['true_false', 'multi_select', 'matching', 'ordering', 'numeric'];
+
+// Answer fields for the structured question types (see StructuredAnswerFields)
+const STRUCTURED_ANSWER_PROPERTIES = {
+  correctAnswers: { type: 'array', items: { type: 'string' } },
+  pairs: {
+    type: 'array',
+    items: {
+      type: 'object',
+      properties: { left: { type: 'string' }, right: { type: 'string' } },
+      required: ['left', 'right']
+    }
+  },
+  sequence: { type: 'array', items: { type: 'string' } },
+  numericAnswer: { type: 'number' },
+  tolerance: { type: 'number', minimum: 0 },
+  unit: { type: 'string' }
+};
+
+export const QUIZ_ITEM_SCHEMA = {
+  type: 'object',
+  properties: {
+    id: { type: 'integer' },
+    type: { type: 'string', enum: ['mcq', 'short_answer', ...STRUCTURED_TYPES] },
+    question: { type: 'string' },
+    options: { type: 'array', items: { type: 'string' } },
+    correctAnswer: { type: 'string' },
+    ...STRUCTURED_ANSWER_PROPERTIES,
+    explanation: { type: 'string' },
+    keywords: { type: 'array', items: { type: 'string' } },
+    difficulty: { type: 'string', enum: ['easy', 'medium', 'hard'] },
+    level: { type: 'string', enum: ['recall', 'application', 'analysis'] }
+  },
+  required: ['id', 'type', 'question', 'explanation', 'difficulty', 'level']
+};
+
+export const EXAM_ITEM_SCHEMA = {
+  type: 'object',
+  properties: {
+    id: { type: 'integer' },
+    type: { type: 'string', enum: ['mcq', 'fill_blank', 'short_answer', 'long_answer', ...STRUCTURED_TYPES] },
+    question: { type: 'string' },
+    options: { type: 'array', items: { type: 'string' } },
+    correctAnswer: { type: 'string' },
+    ...STRUCTURED_ANSWER_PROPERTIES,
+    modelAnswer: { type: 'string' },
+    explanation: { type: 'string' },
+    keywords: { type: 'array', items: { type: 'string' } },
+    marks: { type: 'integer', minimum: 1 },
+    section: { type: 'string' },
+    topic: { type: 'string' },
+    difficulty: { type: 'string', enum: ['easy', 'medium', 'hard'] }
+  },
+  required: ['id', 'type', 'question', 'explanation', 'marks']
+};
+
+export const RUBRIC_GRADE_SCHEMA = {
+  type: 'object',
+  properties: {
+    id: { type: 'integer' },
+    score: { type: 'number', minimum: 0 },
+    criteria: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          criterion: { type: 'string' },
+          awarded: { type: 'number', minimum: 0 },
+          max: { type: 'number', minimum: 0 },
+          feedback: { type: 'string' }
+        },
+        required: ['criterion', 'awarded', 'max', 'feedback']
+      }
+    },
+    missing: { type: 'array', items: { type: 'string' } },
+    summary: { type: 'string' }
+  },
+  required: ['id', 'score', 'criteria', 'missing']
+};
+
+export const VERIFICATION_SCHEMA = {
+  type: 'object',
+  properties: {
+    id: { type: 'integer' },
+    verdict: { type: 'string', enum: ['supported', 'unsupported', 'contradicted'] },
+    confidence: { type: 'number', minimum: 0, maximum: 1 },
+    excerpt: { type: 'string' },
+    note: { type: 'string' }
+  },
+  required: ['id', 'verdict', 'confidence']
+};
+
+export const FLASHCARD_SCHEMA = {
+  type: 'object',
+  properties: {
+    id: { type: 'integer' },
+    front: { type: 'string' },
+    back: { type: 'string' },
+    tags: { type: 'array', items: { type: 'string' } },
+    source: { type: 'string' }
+  },
+  required: ['id', 'front', 'back', 'tags']
+};
+
+export const QUIZ_SCHEMA = { type: 'array', items: QUIZ_ITEM_SCHEMA };
+export const EXAM_SCHEMA = { type: 'array', items: EXAM_ITEM_SCHEMA };
+export const RUBRIC_GRADES_SCHEMA = { type: 'array', items: RUBRIC_GRADE_SCHEMA };
+export const VERIFICATIONS_SCHEMA = { type: 'array', items: VERIFICATION_SCHEMA };
+export const FLASHCARDS_SCHEMA = { type: 'array', items: FLASHCARD_SCHEMA };
+
+// --- PARSING ---
+
+// Pulls the item array out of a model response. Tolerates Markdown fences, chatter around
+// the JSON, and JSON-object-only modes that wrap the array (e.g. {"questions": [...]}).
+export const parseJsonArray = (text: string): any[] => {
+  const clean = text.replace(/```json/g, '').replace(/```/g, '').trim();
+  let parsed: any;
+  try {
+    parsed = JSON.parse(clean);
+  } catch (e) {
+    const start = clean.indexOf('[');
+    const end = clean.lastIndexOf(']');
+    if (start === -1 || end <= start) throw new Error("Response does not contain a JSON array");
+    parsed = JSON.parse(clean.slice(start, end + 1));
+  }
+
+  if (Array.isArray(parsed)) return parsed;
+  const wrapped = parsed && typeof parsed === 'object' ? Object.values(parsed).find(Array.isArray) : undefined;
+  if (wrapped) return wrapped as any[];
+  throw new Error("Response is not a JSON array");
+};
+
+// The items of a JSON array that is still streaming in, up to the last one that is complete.
+// Like parseJsonArray it looks through fences and a wrapping object; it never throws.
+export const parseCompleteItems = (partial: string): any[] => {
+  const items: any[] = [];
+  let depth = 0;
+  let itemDepth = -1; // Depth inside the first array, where its items start
+  let start = -1;
+  let inString = false;
+  let escaped = false;
+
+  for (let i = 0; i < partial.length; i++) {
+    const char = partial[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+      continue;
+    }
+    if (char === '"') inString = true;
+    else if (char === '[' || char === '{') {
+      if (char === '[' && itemDepth === -1) itemDepth = depth + 1;
+      else if (depth === itemDepth && char === '{') start = i;
+      depth++;
+    } else if (char === ']' || char === '}') {
+      depth--;
+      if (depth < itemDepth) break;
+      if (depth === itemDepth && start !== -1) {
+        try {
+          items.push(JSON.parse(partial.slice(start, i + 1)));
+        } catch (e) {
+          // A malformed item is skipped; the full response still goes through repair
+        }
+        start = -1;
+      }
+    }
+  }
+  return items;
+};
+
+// --- VALIDATION ---
+
+export interface ItemCheck<T> {
+  item: T | null; // The normalised item, or null when it can't be used as-is
+  raw: any;
+  problems: string[];
+}
+
+const isNonEmptyString = (value: any): value is string => typeof value === 'string' && value.trim().length > 0;
+
+const toStringList = (value: any): string[] | undefined =>
+  Array.isArray(value) ? value.filter(isNonEmptyString).map(v => v.trim()) : undefined;
+
+const DIFFICULTIES: QuizDifficulty[] = ['easy', 'medium', 'hard'];
+const LEVELS: CognitiveLevel[] = ['recall', 'application', 'analysis'];
+
+const VERDICTS: AnswerVerification['verdict'][] = ['supported', 'unsupported', 'contradicted'];
+
+// Quoted excerpts are for reading next to the answer, so long quotes are cut
+const MAX_EXCERPT_LENGTH = 400;
+
+// Labels are metadata, not worth a re-ask: unknown values are just dropped
+const toEnum = <T extends string>(value: any, allowed: T[]): T | undefined => {
+  const normalized = typeof value === 'string' ? value.trim().toLowerCase() : '';
+  return allowed.find(a => a === normalized);
+};
+
+// Also used on stored items, which keep the verification they were shown with
+const readVerification = (raw: any): AnswerVerification | undefined => {
+  if (!raw || typeof raw !== 'object') return undefined;
+  const verdict = toEnum(raw.verdict, VERDICTS);
+  const confidence = Number(raw.confidence);
+  if (!verdict || !Number.isFinite(confidence)) return undefined;
+  const excerpt = isNonEmptyString(raw.excerpt) ? raw.excerpt.trim() : undefined;
+  return {
+    verdict,
+    confidence: Math.max(0, Math.min(1, confidence)),
+    excerpt: excerpt && excerpt.length > MAX_EXCERPT_LENGTH ? `${excerpt.slice(0, MAX_EXCERPT_LENGTH)}…` : excerpt,
+    note: isNonEmptyString(raw.note) ? raw.note.trim() : undefined
+  };
+};
+
+// Models often answer with the option letter or with different casing. Map those back onto
+// the option text so grading can compare strings directly.
+const matchOption = (answer: string, options: string[]): string | undefined => {
+  const trimmed = answer.trim();
+  const exact = options.find(o => o === trimmed) || options.find(o => o.toLowerCase() === trimmed.toLowerCase());
+  if (exact) return exact;
+
+  const letter = trimmed.match(/^\(?([A-Ha-h])[).:]?$/)?.[1];
+  if (letter) return options[letter.toUpperCase().charCodeAt(0) - 65];
+  return undefined;
+};
+
+const checkMcq = (raw: any, problems: string[]) => {
+  const options = toStringList(raw.options) || [];
+  if (options.length < 2) problems.push('mcq needs at least 2 options');
+  if (new Set(options.map(o => o.toLowerCase())).size !== options.length) problems.push('options must be distinct');
+
+  let correctAnswer: string | undefined;
+  if (!isNonEmptyString(raw.correctAnswer)) {
+    problems.push('correctAnswer is missing');
+  } else {
+    correctAnswer = matchOption(raw.correctAnswer, options);
+    if (!correctAnswer) problems.push(`correctAnswer "${raw.correctAnswer}" is not one of the options`);
+  }
+  return { options, correctAnswer };
+};
+
+const hasDuplicates = (values: string[]) => new Set(values.map(v => v.toLowerCase())).size !== values.length;
+
+const formatNumber = (value: number) => Number(value.toPrecision(12)).toString();
+
+// Validates the answer fields of true_false, multi_select, matching, ordering and numeric
+// questions, and writes the readable `correctAnswer` used by review screens.
+const checkStructured = (raw: any, problems: string[]): StructuredAnswerFields & { options?: string[]; correctAnswer?: string } => {
+  switch (raw.type) {
+    case 'true_false': {
+      const value = String(raw.correctAnswer ?? '').trim().toLowerCase();
+      const correctAnswer = ['true', 't', 'yes'].includes(value) ? 'True' : ['false', 'f', 'no'].includes(value) ? 'False' : undefined;
+      if (!correctAnswer) problems.push('true_false correctAnswer must be "True" or "False"');
+      return { options: ['True', 'False'], correctAnswer };
+    }
+
+    case 'multi_select': {
+      const options = toStringList(raw.options) || [];
+      if (options.length < 3) problems.push('multi_select needs at least 3 options');
+      if (hasDuplicates(options)) problems.push('options must be distinct');
+      const picked = toStringList(raw.correctAnswers) || [];
+      const correctAnswers = picked.map(a => matchOption(a, options));
+      if (picked.length === 0) problems.push('multi_select needs correctAnswers');
+      if (correctAnswers.some(a => !a)) problems.push('every correctAnswers entry must be one of the options');
+      const answers = Array.from(new Set(correctAnswers.filter((a): a is string => !!a)));
+      return { options, correctAnswers: answers, correctAnswer: answers.join(', ') };
+    }
+
+    case 'matching': {
+      const pairs: MatchingPair[] = (Array.isArray(raw.pairs) ? raw.pairs : [])
+        .filter((p: any) => p && isNonEmptyString(p.left) && isNonEmptyString(p.right))
+        .map((p: any) => ({ left: p.left.trim(), right: p.right.trim() }));
+      if (pairs.length < 2) problems.push('matching needs at least 2 complete left/right pairs');
+      if (hasDuplicates(pairs.map(p => p.left)) || hasDuplicates(pairs.map(p => p.right))) problems.push('matching sides must not repeat');
+      return { pairs, correctAnswer: pairs.map(p => `${p.left} → ${p.right}`).join('; ') };
+    }
+
+    case 'ordering': {
+      const sequence = toStringList(raw.sequence) || [];
+      if (sequence.length < 3) problems.push('ordering needs a sequence of at least 3 items');
+      if (hasDuplicates(sequence)) problems.push('sequence items must be distinct');
+      return { sequence, correctAnswer: sequence.join(' → ') };
+    }
+
+    case 'numeric': {
+      const numericAnswer = typeof raw.numericAnswer === 'string' ? parseFloat(raw.numericAnswer) : raw.numericAnswer;
+      const tolerance = Math.abs(Number(raw.tolerance) || 0);
+      const unit = isNonEmptyString(raw.unit) ? raw.unit.trim() : undefined;
+      if (typeof numericAnswer !== 'number' || !Number.isFinite(numericAnswer)) {
+        problems.push('numeric needs a numericAnswer number');
+        return {};
+      }
+      const shown = `${formatNumber(numericAnswer)}${unit ? ` ${unit}` : ''}`;
+      return {
+        numericAnswer,
+        tolerance,
+        unit,
+        correctAnswer: tolerance > 0 ? `${shown} (±${formatNumber(tolerance)})` : shown
+      };
+    }
+
+    default:
+      return {};
+  }
+};
+
+export const checkQuizItem = (raw: any): ItemCheck<QuizItem> => {
+  const problems: string[] = [];
+  if (!raw || typeof raw !== 'object') return { item: null, raw, problems: ['item is not an object'] };
+
+  if (raw.type !== 'mcq' && raw.type !== 'short_answer' && !STRUCTURED_TYPES.includes(raw.type)) problems.push(`unknown type "${raw.type}"`);
+  if (!isNonEmptyString(raw.question)) problems.push('question is missing');
+
+  let options: string[] | undefined;
+  let correctAnswer: string | undefined = isNonEmptyString(raw.correctAnswer) ? raw.correctAnswer.trim() : undefined;
+  let structured: StructuredAnswerFields = {};
+  const keywords = toStringList(raw.keywords);
+
+  if (raw.type === 'mcq') {
+    ({ options, correctAnswer } = checkMcq(raw, problems));
+  } else if (raw.type === 'short_answer') {
+    if (!correctAnswer) problems.push('correctAnswer is missing');
+    if (!keywords || keywords.length === 0) problems.push('short_answer needs grading keywords');
+  } else if (STRUCTURED_TYPES.includes(raw.type)) {
+    ({ options, correctAnswer, ...structured } = checkStructured(raw, problems));
+  }
+
+  if (problems.length > 0) return { item: null, raw, problems };
+
+  return {
+    item: {
+      id: Number(raw.id),
+      type: raw.type,
+      question: raw.question.trim(),
+      options,
+      correctAnswer: correctAnswer!,
+      ...structured,
+      explanation: isNonEmptyString(raw.explanation) ? raw.explanation.trim() : undefined,
+      keywords: raw.type === 'short_answer' ? keywords : undefined,
+      difficulty: toEnum(raw.difficulty, DIFFICULTIES),
+      level: toEnum(raw.level, LEVELS),
+      verification: readVerification(raw.verification)
+    },
+    raw,
+    problems
+  };
+};
+
+export const checkExamItem = (raw: any): ItemCheck<ExamItem> => {
+  const problems: string[] = [];
+  if (!raw || typeof raw !== 'object') return { item: null, raw, problems: ['item is not an object'] };
+
+  const types: string[] = ['mcq', 'fill_blank', 'short_answer', 'long_answer', ...STRUCTURED_TYPES];
+  if (!types.includes(raw.type)) problems.push(`unknown type "${raw.type}"`);
+  if (!isNonEmptyString(raw.question)) problems.push('question is missing');
+
+  const marks = Number(raw.marks);
+  if (!Number.isInteger(marks) || marks < 1) problems.push('marks must be a positive whole number');
+
+  let options: string[] | undefined;
+  let correctAnswer: string | undefined = isNonEmptyString(raw.correctAnswer) ? raw.correctAnswer.trim() : undefined;
+  const modelAnswer = isNonEmptyString(raw.modelAnswer) ? raw.modelAnswer.trim() : undefined;
+  let structured: StructuredAnswerFields = {};
+  const keywords = toStringList(raw.keywords);
+
+  if (raw.type === 'mcq') {
+    ({ options, correctAnswer } = checkMcq(raw, problems));
+  } else if (STRUCTURED_TYPES.includes(raw.type)) {
+    ({ options, correctAnswer, ...structured } = checkStructured(raw, problems));
+  } else if (raw.type === 'fill_blank') {
+    if (!correctAnswer) problems.push('correctAnswer is missing');
+    if (isNonEmptyString(raw.question) && !raw.question.includes('___')) problems.push('fill_blank question has no "______" blank');
+  } else if (raw.type === 'short_answer' || raw.type === 'long_answer') {
+    if (!modelAnswer) problems.push('modelAnswer is missing');
+    if (!keywords || keywords.length === 0) problems.push(`${raw.type} needs grading keywords`);
+  }
+
+  if (problems.length > 0) return { item: null, raw, problems };
+
+  return {
+    item: {
+      id: Number(raw.id),
+      type: raw.type,
+      question: raw.question.trim(),
+      options,
+      correctAnswer,
+      ...structured,
+      modelAnswer,
+      explanation: isNonEmptyString(raw.explanation) ? raw.explanation.trim() : undefined,
+      keywords: ['fill_blank', 'short_answer', 'long_answer'].includes(raw.type) ? keywords : undefined,
+      marks,
+      section: isNonEmptyString(raw.section) ? raw.section.trim() : undefined,
+      topic: isNonEmptyString(raw.topic) ? raw.topic.trim() : undefined,
+      difficulty: toEnum(raw.difficulty, DIFFICULTIES),
+      verification: readVerification(raw.verification)
+    },
+    raw,
+    problems
+  };
+};
+
+// Scores are clamped to the marks available. When the criteria add up differently from the
+// overall score, the criteria win: they are what the student sees.
+export const checkRubricGrade = (raw: any, maxScore: number): RubricFeedback | null => {
+  if (!raw || typeof raw !== 'object') return null;
+
+  const criteria: RubricCriterion[] = (Array.isArray(raw.criteria) ? raw.criteria : [])
+    .filter((c: any) => c && isNonEmptyString(c.criterion) && Number.isFinite(Number(c.awarded)) && Number.isFinite(Number(c.max)))
+    .map((c: any) => ({
+      criterion: c.criterion.trim(),
+      awarded: Math.max(0, Math.min(Number(c.awarded), Number(c.max))),
+      max: Math.max(0, Number(c.max)),
+      feedback: isNonEmptyString(c.feedback) ? c.feedback.trim() : ''
+    }));
+
+  const criteriaScore = criteria.reduce((sum, c) => sum + c.awarded, 0);
+  const score = criteria.length > 0 ? criteriaScore : Number(raw.score);
+  if (!Number.isFinite(score)) return null;
+
+  return {
+    score: Math.max(0, Math.min(score, maxScore)),
+    criteria,
+    missing: toStringList(raw.missing) || [],
+    summary: isNonEmptyString(raw.summary) ? raw.summary.trim() : undefined
+  };
+};
+
+export const checkVerification = (raw: any): { id: number; verification: AnswerVerification } | null => {
+  const id = Number(raw?.id);
+  const verification = readVerification(raw);
+  return Number.isInteger(id) && verification ? { id, verification } : null;
+};
+
+// Answers below this confidence are flagged to the student even when the checker calls them supported
+export const VERIFY_CONFIDENCE_THRESHOLD = 0.6;
+
+export const isLowConfidence = (verification?: AnswerVerification) =>
+  !!verification && (verification.verdict !== 'supported' || verification.confidence < VERIFY_CONFIDENCE_THRESHOLD);
+
+export const checkFlashcard = (raw: any): ItemCheck<Flashcard> => {
+  const problems: string[] = [];
+  if (!raw || typeof raw !== 'object') return { item: null, raw, problems: ['card is not an object'] };
+  if (!isNonEmptyString(raw.front)) problems.push('front is missing');
+  if (!isNonEmptyString(raw.back)) problems.push('back is missing');
+  if (problems.length > 0) return { item: null, raw, problems };
+
+  return {
+    item: {
+      id: Number(raw.id),
+      front: raw.front.trim(),
+      back: raw.back.trim(),
+      tags: toStringList(raw.tags) || [],
+      source: isNonEmptyString(raw.source) ? raw.source.trim() : undefined
+    },
+    raw,
+    problems
+  };
+};
+
+// Gives every item a unique positive id; the UIs key answers by id
+export const assignIds = <T extends { id: number }>(items: T[]): T[] => {
+  const seen = new Set<number>();
+  let next = Math.max(0, ...items.map(i => (Number.isInteger(i.id) ? i.id : 0))) + 1;
+  return items.map(item => {
+    const id = Number.isInteger(item.id) && item.id > 0 && !seen.has(item.id) ? item.id : next++;
+    seen.add(id);
+    return { ...item, id };
+  });
+};
+
+export const sumMarks = (items: ExamItem[]) => items.reduce((acc, item) => acc + item.marks, 0);
+
+// Last resort when the model can't get the total right. Extra marks are shared out a mark at a
+// time over the written-answer questions (or over every question when there are none), largest
+// first. Surplus marks come off the largest questions, never taking one below 1 mark; if they are
+// all at 1 already, questions are dropped from the end until the total fits.
+export const rebalanceMarks = (items: ExamItem[], totalMarks: number): ExamItem[] => {
+  let diff = totalMarks - sumMarks(items);
+  if (diff === 0 || items.length === 0) return items;
+
+  const result = items.map(item => ({ ...item }));
+  const isWritten = (i: ExamItem) => i.type === 'long_answer' || i.type === 'short_answer';
+  const order = [...result].sort((a, b) => Number(isWritten(b)) - Number(isWritten(a)) || b.marks - a.marks);
+
+  if (diff > 0) {
+    const takers = order.some(isWritten) ? order.filter(isWritten) : order;
+    for (let i = 0; diff > 0; i++, diff--) takers[i % takers.length].marks++;
+    return result;
+  }
+
+  for (const item of order) {
+    if (diff === 0) break;
+    const change = Math.max(diff, 1 - item.marks);
+    item.marks += change;
+    diff -= change;
+  }
+  return diff === 0 ? result : result.slice(0, result.length + diff);
+};
+
+// --- BLUEPRINTS ---
+
+// How far (in percentage points of the total marks) a topic may drift from its weight
+const TOPIC_SHARE_TOLERANCE = 15;
+
+export const blueprintMarks = (blueprint: ExamBlueprint) => blueprint.sections.reduce((acc, s) => acc + s.marks, 0);
+
+// Moves questions with a missing or unknown section, or a type their section doesn't allow,
+// to the first section that takes their type, then orders the paper section by section.
+// Questions no section takes keep their label so checkBlueprint reports them.
+export const assignSections = (items: ExamItem[], blueprint: ExamBlueprint): ExamItem[] => {
+  const { sections } = blueprint;
+  const placed = items.map(item => {
+    const current = sections.find(s => s.id === item.section);
+    if (current && current.types.includes(item.type)) return item;
+    const target = sections.find(s => s.types.includes(item.type));
+    return target ? { ...item, section: target.id } : item;
+  });
+  const inSection = (id: string) => placed.filter(item => item.section === id);
+  return [
+    ...sections.flatMap(s => inSection(s.id).filter(item => s.types.includes(item.type))),
+    ...placed.filter(item => !sections.some(s => s.id === item.section && s.types.includes(item.type)))
+  ];
+};
+
+// Everything about a paper that doesn't match its blueprint, in words the model can act on.
+// Topics are matched by title; weights are relative, so they needn't add up to anything.
+export const checkBlueprint = (items: ExamItem[], blueprint: ExamBlueprint, topics: { id: string; title: string }[]): string[] => {
+  const problems: string[] = [];
+
+  blueprint.sections.forEach(section => {
+    const inSection = items.filter(item => item.section === section.id);
+    if (inSection.length === 0) {
+      problems.push(`Section ${section.id} ("${section.title}") has no questions`);
+      return;
+    }
+    const marks = sumMarks(inSection);
+    if (marks !== section.marks) problems.push(`Section ${section.id} has ${marks} marks, it needs exactly ${section.marks}`);
+  });
+
+  items.forEach((item, i) => {
+    const section = blueprint.sections.find(s => s.id === item.section);
+    if (!section || !section.types.includes(item.type)) {
+      problems.push(`Question ${i + 1} is a ${item.type} question, which no section allows`);
+    }
+  });
+
+  const labelled = items.filter(item => item.topic);
+  if (topics.length > 1 && labelled.length > 0) {
+    const totalWeight = topics.reduce((acc, t) => acc + (blueprint.topicWeights[t.id] ?? 1), 0);
+    const totalMarks = sumMarks(items);
+    topics.forEach(topic => {
+      const key = topic.title.trim().toLowerCase();
+      const marks = sumMarks(items.filter(item => item.topic?.trim().toLowerCase() === key));
+      const share = totalMarks > 0 ? Math.round((marks / totalMarks) * 100) : 0;
+      const target = totalWeight > 0 ? Math.round(((blueprint.topicWeights[topic.id] ?? 1) / totalWeight) * 100) : 0;
+      if (Math.abs(share - target) > TOPIC_SHARE_TOLERANCE) {
+        problems.push(`"${topic.title}" has ${share}% of the marks, the target is ${target}%`);
+      }
+    });
+  }
+
+  if (blueprint.difficulty !== 'mixed') {
+    const off = items.filter(item => item.difficulty && item.difficulty !== blueprint.difficulty).length;
+    if (off > 0) problems.push(`${off} question${off === 1 ? ' is' : 's are'} not ${blueprint.difficulty}`);
+  }
+
+  return problems;
+};
+
+// Validates stored or freshly generated content without calling the model again.
+// Unusable items are dropped; throws only when nothing usable is left.
+export const parseQuizItems = (content: string): QuizItem[] => {
+  const checks = parseJsonArray(content).map(checkQuizItem);
+  const items = checks.filter(c => c.item).map(c => c.item!);
+  if (items.length === 0) throw new Error("Quiz contains no valid questions");
+  return assignIds(items);
+};
+
+export const parseExamItems = (content: string): ExamItem[] => {
+  const checks = parseJsonArray(content).map(checkExamItem);
+  const items = checks.filter(c => c.item).map(c => c.item!);
+  if (items.length === 0) throw new Error("Exam contains no valid questions");
+  return assignIds(items);
+};
@@ -0,0 +1,9 @@
+// sql.js (SQLite compiled to wasm) reads and writes Anki collections. It's large, so it and
+// its wasm are loaded on first use rather than with the app.
+export const loadSqlJs = async () => {
+  const [{ default: initSqlJs }, { default: wasmUrl }] = await Promise.all([
+    import('sql.js'),
+    import('sql.js/dist/sql-wasm.wasm?url')
+  ]);
+  return initSqlJs({ locateFile: () => wasmUrl });
+};
@@ -0,0 +1,119 @@
+import { StudySession, Flashcard, CardSchedule, ReviewGrade } from "../types";
+import { parseFlashcards } from "./flashcardService";
+
+// SM-2 spaced repetition. Each grade updates the card's ease and pushes its next review
+// further out; "again" sends it back into short-term relearning.
+
+export interface ReviewItem {
+  sessionId: string;
+  sessionTitle: string;
+  card: Flashcard;
+  schedule: CardSchedule;
+  isNew: boolean;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RELEARN_DELAY_MS = 10 * 60 * 1000;
+const START_EASE = 2.5;
+const MIN_EASE = 1.3;
+const HARD_FACTOR = 0.6;
+const EASY_BONUS = 1.3;
+
+// New cards introduced per queue, so a freshly generated deck doesn't bury due reviews
+export const NEW_CARDS_PER_QUEUE = 20;
+
+const QUALITY: Record<ReviewGrade, number> = { again: 0, hard: 3, good: 4, easy: 5 };
+
+// --- HELPERS ---
+
+const endOfDay = (now: number) => {
+  const d = new Date(now);
+  d.setHours(23, 59, 59, 999);
+  return d.getTime();
+};
+
+// --- API EXPORTS ---
+
+export const cardKeyFor = (card: Flashcard) => card.front.trim().toLowerCase();
+
+export const newSchedule = (sessionId: string, cardKey: string, now: number = Date.now()): CardSchedule => ({
+  sessionId,
+  cardKey,
+  ease: START_EASE,
+  intervalDays: 0,
+  repetitions: 0,
+  lapses: 0,
+  dueAt: now
+});
+
+export const scheduleReview = (prev: CardSchedule, grade: ReviewGrade, now: number = Date.now()): CardSchedule => {
+  const q = QUALITY[grade];
+  const ease = Math.max(MIN_EASE, prev.ease + 0.1 - (5 - q) * (0.08 + (5 - q) * 0.02));
+
+  if (grade === 'again') {
+    return {
+      ...prev,
+      ease,
+      intervalDays: 0,
+      repetitions: 0,
+      lapses: prev.lapses + 1,
+      dueAt: now + RELEARN_DELAY_MS,
+      lastReviewedAt: now
+    };
+  }
+
+  const repetitions = prev.repetitions + 1;
+  let intervalDays = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.max(prev.intervalDays + 1, Math.round(prev.intervalDays * ease));
+  if (grade === 'hard') intervalDays = Math.max(1, Math.round(intervalDays * HARD_FACTOR));
+  if (grade === 'easy') intervalDays = Math.round(intervalDays * EASY_BONUS) + (repetitions === 1 ? 2 : 0);
+
+  return {
+    ...prev,
+    ease,
+    intervalDays,
+    repetitions,
+    dueAt: now + intervalDays * DAY_MS,
+    lastReviewedAt: now
+  };
+};
+
+// "10m", "3d", "2mo" for the grade buttons
+export const formatInterval = (schedule: CardSchedule, now: number = Date.now()): string => {
+  const ms = schedule.dueAt - now;
+  if (ms < DAY_MS) return `${Math.max(1, Math.round(ms / 60000))}m`;
+  const days = Math.round(ms / DAY_MS);
+  if (days < 30) return `${days}d`;
+  if (days < 365) return `${Math.round(days / 30)}mo`;
+  return `${(days / 365).toFixed(1)}y`;
+};
+
+// Everything due by the end of today across all sessions, most overdue first, then new cards
+export const buildReviewQueue = (
+  sessions: StudySession[],
+  schedules: CardSchedule[],
+  now: number = Date.now(),
+  newLimit: number = NEW_CARDS_PER_QUEUE
+): ReviewItem[] => {
+  const byKey = new Map(schedules.map(s => [`${s.sessionId}::${s.cardKey}`, s]));
+  const due: ReviewItem[] = [];
+  const fresh: ReviewItem[] = [];
+  const cutoff = endOfDay(now);
+
+  sessions.forEach(session => {
+    if (!session.flashcards) return;
+    const seen = new Set<string>();
+    parseFlashcards(session.flashcards).forEach(card => {
+      const cardKey = cardKeyFor(card);
+      if (seen.has(cardKey)) return;
+      seen.add(cardKey);
+
+      const schedule = byKey.get(`${session.id}::${cardKey}`);
+      const item = { sessionId: session.id, sessionTitle: session.title, card };
+      if (!schedule) fresh.push({ ...item, schedule: newSchedule(session.id, cardKey, now), isNew: true });
+      else if (schedule.dueAt <= cutoff) due.push({ ...item, schedule, isNew: false });
+    });
+  });
+
+  due.sort((a, b) => a.schedule.dueAt - b.schedule.dueAt);
+  return [...due, ...fresh.slice(0, newLimit)];
+};
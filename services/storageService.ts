@@ -1,10 +1,11 @@
-import { StudySession, StudyEvent, ActivityType, UserStats } from "../types";
+import { StudySession, StudyEvent, ActivityType, UserStats, QuizBreakdown, AccuracyTally, CardSchedule, Mistake, QuestionAttempt, ExamPaper, ExamAttempt, ExamDraft, BankQuestion, QuestionReport } from "../types";
 import { supabase } from "./supabase";
+import { EXAM_MINUTES_PER_MARK } from "../constants";
 import { v4 as uuidv4 } from 'uuid';
 
 // --- Helper Functions ---
 
-const extractKeywords = (text: string): string[] => {
+export const extractKeywords = (text: string): string[] => {
   if (!text) return [];
   const stopWords = new Set(['the', 'is', 'in', 'at', 'of', 'on', 'and', 'a', 'to', 'for', 'with', 'as', 'by', 'an', 'are', 'it', 'this', 'that', 'from']);
   
@@ -95,6 +96,438 @@ export const deleteSession = async (id: string) => {
   }
 };
 
+// --- Spaced Repetition (Async) ---
+
+export const getCardSchedules = async (): Promise<CardSchedule[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('card_reviews')
+      .select('*');
+
+    if (error) throw error;
+
+    return (data || []).map((row: any) => ({
+      sessionId: row.session_id,
+      cardKey: row.card_key,
+      ease: row.ease,
+      intervalDays: row.interval_days,
+      repetitions: row.repetitions,
+      lapses: row.lapses,
+      dueAt: Number(row.due_at),
+      lastReviewedAt: row.last_reviewed_at ? Number(row.last_reviewed_at) : undefined
+    }));
+  } catch (e) {
+    console.error("Supabase Fetch Error:", e);
+    return [];
+  }
+};
+
+export const saveCardSchedule = async (schedule: CardSchedule) => {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error("No user logged in");
+
+    const { error } = await supabase
+      .from('card_reviews')
+      .upsert({
+        user_id: user.id,
+        session_id: schedule.sessionId,
+        card_key: schedule.cardKey,
+        ease: schedule.ease,
+        interval_days: schedule.intervalDays,
+        repetitions: schedule.repetitions,
+        lapses: schedule.lapses,
+        due_at: schedule.dueAt,
+        last_reviewed_at: schedule.lastReviewedAt
+      }, { onConflict: 'user_id,session_id,card_key' });
+
+    if (error) throw error;
+    return true;
+  } catch (e) {
+    console.error("Supabase Save Error:", e);
+    return false;
+  }
+};
+
+// --- Exam Papers (Async) ---
+
+export const saveExamPaper = async (paper: ExamPaper) => {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error("No user logged in");
+
+    const { error } = await supabase
+      .from('exam_papers')
+      .upsert({
+        id: paper.id,
+        user_id: user.id,
+        title: paper.title,
+        session_ids: paper.sessionIds, // JSONB
+        total_marks: paper.totalMarks,
+        items: paper.items, // JSONB
+        blueprint: paper.blueprint || null, // JSONB
+        created_at: paper.createdAt
+      });
+
+    if (error) throw error;
+    return true;
+  } catch (e) {
+    console.error("Supabase Save Error:", e);
+    return false;
+  }
+};
+
+export const getExamPapers = async (): Promise<ExamPaper[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('exam_papers')
+      .select('*')
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+
+    return (data || []).map((row: any) => ({
+      id: row.id,
+      title: row.title,
+      sessionIds: row.session_ids || [],
+      totalMarks: row.total_marks,
+      items: row.items || [],
+      blueprint: row.blueprint || undefined,
+      createdAt: Number(row.created_at)
+    }));
+  } catch (e) {
+    console.error("Supabase Fetch Error:", e);
+    return [];
+  }
+};
+
+export const saveExamAttempt = async (attempt: ExamAttempt) => {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error("No user logged in");
+
+    const { error } = await supabase
+      .from('exam_attempts')
+      .upsert({
+        id: attempt.id,
+        user_id: user.id,
+        paper_id: attempt.paperId,
+        activity_id: attempt.activityId,
+        answers: attempt.answers, // JSONB
+        rubrics: attempt.rubrics, // JSONB
+        score: attempt.score,
+        total_marks: attempt.totalMarks,
+        time_limit_minutes: attempt.timeLimitMinutes,
+        time_used_seconds: attempt.timeUsedSeconds,
+        marking_scheme: attempt.markingScheme, // JSONB
+        started_at: attempt.startedAt,
+        completed_at: attempt.completedAt
+      });
+
+    if (error) throw error;
+    return true;
+  } catch (e) {
+    console.error("Supabase Save Error:", e);
+    return false;
+  }
+};
+
+export const getExamAttempts = async (): Promise<ExamAttempt[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('exam_attempts')
+      .select('*')
+      .order('completed_at', { ascending: false });
+
+    if (error) throw error;
+
+    return (data || []).map((row: any) => ({
+      id: row.id,
+      paperId: row.paper_id,
+      activityId: row.activity_id || undefined,
+      answers: row.answers || {},
+      rubrics: row.rubrics || {},
+      score: Number(row.score),
+      totalMarks: row.total_marks,
+      timeLimitMinutes: row.time_limit_minutes ?? undefined,
+      timeUsedSeconds: row.time_used_seconds ?? undefined,
+      markingScheme: row.marking_scheme || undefined,
+      startedAt: Number(row.started_at),
+      completedAt: Number(row.completed_at)
+    }));
+  } catch (e) {
+    console.error("Supabase Fetch Error:", e);
+    return [];
+  }
+};
+
+// --- Exam Drafts (Async) ---
+
+// One exam in progress at a time. It is always kept locally (written first, synchronously, so a
+// save while the page unloads still lands) and also in Supabase when logged in, so it follows the user.
+const EXAM_DRAFT_KEY = 'learnivia_exam_draft';
+
+const getLocalExamDraft = (): ExamDraft | null => {
+  try {
+    const raw = localStorage.getItem(EXAM_DRAFT_KEY);
+    return raw ? JSON.parse(raw) : null;
+  } catch (e) {
+    console.error("Local Draft Error:", e);
+    return null;
+  }
+};
+
+export const saveExamDraft = async (draft: ExamDraft) => {
+  try {
+    localStorage.setItem(EXAM_DRAFT_KEY, JSON.stringify(draft));
+  } catch (e) {
+    console.error("Local Draft Error:", e);
+  }
+
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return false;
+
+    const { error } = await supabase
+      .from('exam_drafts')
+      .upsert({
+        user_id: user.id,
+        draft, // JSONB
+        saved_at: draft.savedAt
+      });
+
+    if (error) throw error;
+    return true;
+  } catch (e) {
+    console.error("Supabase Save Error:", e);
+    return false;
+  }
+};
+
+// The local copy of another account's (or a guest's) draft is never offered, and is dropped
+const getOwnLocalExamDraft = (userId?: string): ExamDraft | null => {
+  const local = getLocalExamDraft();
+  if (!local || local.userId === userId) return local;
+  clearLocalExamDraft();
+  return null;
+};
+
+// The most recently saved of the local and the synced draft
+export const getExamDraft = async (): Promise<ExamDraft | null> => {
+  let local: ExamDraft | null = null;
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    local = getOwnLocalExamDraft(user?.id);
+    if (!user) return local;
+
+    const { data, error } = await supabase
+      .from('exam_drafts')
+      .select('draft')
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (error) throw error;
+    const remote: ExamDraft | null = data?.draft || null;
+    return remote && (!local || remote.savedAt > local.savedAt) ? remote : local;
+  } catch (e) {
+    console.error("Supabase Fetch Error:", e);
+    return local;
+  }
+};
+
+// On sign-out, so the next person on this browser isn't offered the exam
+export const clearLocalExamDraft = () => {
+  localStorage.removeItem(EXAM_DRAFT_KEY);
+};
+
+export const clearExamDraft = async () => {
+  clearLocalExamDraft();
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return;
+
+    const { error } = await supabase.from('exam_drafts').delete().eq('user_id', user.id);
+    if (error) throw error;
+  } catch (e) {
+    console.error("Delete Error", e);
+  }
+};
+
+// --- Mistake Notebook (Async) ---
+
+export const getMistakes = async (): Promise<Mistake[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('mistakes')
+      .select('*')
+      .order('last_attempt_at', { ascending: false });
+
+    if (error) throw error;
+
+    return (data || []).map((row: any) => ({
+      id: row.id,
+      sessionId: row.session_id || undefined,
+      topic: row.topic,
+      origin: row.origin,
+      questionKey: row.question_key,
+      question: row.question,
+      userAnswer: row.user_answer ?? undefined,
+      status: row.status,
+      correctStreak: row.correct_streak,
+      retired: row.retired,
+      createdAt: Number(row.created_at),
+      lastAttemptAt: Number(row.last_attempt_at)
+    }));
+  } catch (e) {
+    console.error("Supabase Fetch Error:", e);
+    return [];
+  }
+};
+
+export const saveMistakes = async (mistakes: Mistake[]) => {
+  if (mistakes.length === 0) return true;
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error("No user logged in");
+
+    const { error } = await supabase
+      .from('mistakes')
+      .upsert(mistakes.map(m => ({
+        id: m.id,
+        user_id: user.id,
+        session_id: m.sessionId,
+        topic: m.topic,
+        origin: m.origin,
+        question_key: m.questionKey,
+        question: m.question, // JSONB
+        user_answer: m.userAnswer, // JSONB
+        status: m.status,
+        correct_streak: m.correctStreak,
+        retired: m.retired,
+        created_at: m.createdAt,
+        last_attempt_at: m.lastAttemptAt
+      })));
+
+    if (error) throw error;
+    return true;
+  } catch (e) {
+    console.error("Supabase Save Error:", e);
+    return false;
+  }
+};
+
+export const deleteMistake = async (id: string) => {
+  try {
+    const { error } = await supabase
+      .from('mistakes')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  } catch (e) {
+    console.error("Delete Error", e);
+  }
+};
+
+// --- Question Bank (Async) ---
+
+export const getQuestionBank = async (): Promise<BankQuestion[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('question_bank')
+      .select('*')
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+
+    return (data || []).map((row: any) => ({
+      id: row.id,
+      sessionId: row.session_id,
+      questionKey: row.question_key,
+      item: row.item,
+      origin: row.origin,
+      flagged: row.flagged,
+      timesUsed: row.times_used,
+      createdAt: Number(row.created_at),
+      updatedAt: Number(row.updated_at)
+    }));
+  } catch (e) {
+    console.error("Supabase Fetch Error:", e);
+    return [];
+  }
+};
+
+export const saveBankQuestions = async (questions: BankQuestion[]) => {
+  if (questions.length === 0) return true;
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error("No user logged in");
+
+    const { error } = await supabase
+      .from('question_bank')
+      .upsert(questions.map(q => ({
+        id: q.id,
+        user_id: user.id,
+        session_id: q.sessionId,
+        question_key: q.questionKey,
+        item: q.item, // JSONB
+        origin: q.origin,
+        flagged: q.flagged,
+        times_used: q.timesUsed,
+        created_at: q.createdAt,
+        updated_at: q.updatedAt
+      })));
+
+    if (error) throw error;
+    return true;
+  } catch (e) {
+    console.error("Supabase Save Error:", e);
+    return false;
+  }
+};
+
+export const deleteBankQuestion = async (id: string) => {
+  try {
+    const { error } = await supabase
+      .from('question_bank')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  } catch (e) {
+    console.error("Delete Error", e);
+  }
+};
+
+// --- Question Reports (Async) ---
+
+export const saveQuestionReport = async (report: QuestionReport) => {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error("No user logged in");
+
+    const { error } = await supabase
+      .from('question_reports')
+      .insert({
+        id: report.id,
+        user_id: user.id,
+        session_id: report.sessionId,
+        topic: report.topic,
+        origin: report.origin,
+        question_key: report.questionKey,
+        question: report.question, // JSONB
+        note: report.note,
+        created_at: report.createdAt
+      });
+
+    if (error) throw error;
+    return true;
+  } catch (e) {
+    console.error("Supabase Save Error:", e);
+    return false;
+  }
+};
+
 // --- Analytics (Async) ---
 
 export const logActivity = async (
@@ -105,14 +538,19 @@ export const logActivity = async (
     correct_answers?: number,
     exam_score?: number,
     exam_total?: number,
-    exam_subject?: string
+    exam_subject?: string,
+    exam_time_seconds?: number,
+    quiz_breakdown?: QuizBreakdown,
+    cards_reviewed?: number
   }
-) => {
+): Promise<string | undefined> => {
   try {
     const { data: { user } } = await supabase.auth.getUser();
     if (!user) return; // Don't log if not logged in
 
+    // The id is returned so per-question attempts can point at this row
     const newEvent = {
+      id: uuidv4(),
       user_id: user.id,
       action_type: type,
       timestamp: Date.now(),
@@ -122,15 +560,83 @@ export const logActivity = async (
       quiz_correct_answers: extraData?.correct_answers,
       exam_score: extraData?.exam_score,
       exam_total_marks: extraData?.exam_total,
-      exam_subject: extraData?.exam_subject
+      exam_subject: extraData?.exam_subject,
+      exam_time_seconds: extraData?.exam_time_seconds,
+      quiz_breakdown: extraData?.quiz_breakdown,
+      cards_reviewed: extraData?.cards_reviewed
     };
 
-    await supabase.from('study_activities').insert(newEvent);
+    const { error } = await supabase.from('study_activities').insert(newEvent);
+    if (error) throw error;
+    return newEvent.id;
   } catch (e) {
     console.error("Failed to log activity", e);
   }
 };
 
+export const saveQuestionAttempts = async (attempts: QuestionAttempt[]) => {
+  if (attempts.length === 0) return true;
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return false;
+
+    const { error } = await supabase
+      .from('question_attempts')
+      .insert(attempts.map(a => ({
+        user_id: user.id,
+        activity_id: a.activityId,
+        session_id: a.sessionId,
+        origin: a.origin,
+        topic: a.topic,
+        question_id: a.questionId,
+        question_text: a.questionText,
+        question_type: a.questionType,
+        answer: a.answer, // JSONB
+        status: a.status,
+        score: a.score,
+        max_score: a.maxScore,
+        time_taken_ms: a.timeTakenMs,
+        timestamp: a.timestamp
+      })));
+
+    if (error) throw error;
+    return true;
+  } catch (e) {
+    console.error("Supabase Save Error:", e);
+    return false;
+  }
+};
+
+export const getQuestionAttempts = async (): Promise<QuestionAttempt[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('question_attempts')
+      .select('*')
+      .order('timestamp', { ascending: true });
+
+    if (error) throw error;
+
+    return (data || []).map((row: any) => ({
+      activityId: row.activity_id || undefined,
+      sessionId: row.session_id || undefined,
+      origin: row.origin,
+      topic: row.topic,
+      questionId: row.question_id,
+      questionText: row.question_text,
+      questionType: row.question_type,
+      answer: row.answer ?? undefined,
+      status: row.status,
+      score: Number(row.score),
+      maxScore: Number(row.max_score),
+      timeTakenMs: row.time_taken_ms ?? undefined,
+      timestamp: Number(row.timestamp)
+    }));
+  } catch (e) {
+    console.error("Supabase Fetch Error:", e);
+    return [];
+  }
+};
+
 export const getActivities = async (): Promise<StudyEvent[]> => {
   try {
     const { data, error } = await supabase
@@ -151,8 +657,14 @@ const calculateEventDuration = (event: StudyEvent): number => {
   if (event.action_type === 'quiz_complete' && event.quiz_total_questions) {
     return event.quiz_total_questions;
   }
+  if (event.action_type === 'exam_complete' && event.exam_time_seconds) {
+    return Math.max(1, Math.round(event.exam_time_seconds / 60));
+  }
   if (event.action_type === 'exam_complete' && event.exam_total_marks) {
-    return Math.ceil(event.exam_total_marks * 1.5);
+    return Math.ceil(event.exam_total_marks * EXAM_MINUTES_PER_MARK); // Logged before time was recorded
+  }
+  if (event.action_type === 'review' && event.cards_reviewed) {
+    return Math.ceil(event.cards_reviewed / 3); // Roughly 20 seconds a card
   }
   let duration = 1;
   if (event.text_length > 0) duration += Math.ceil(event.text_length / 500);
@@ -161,7 +673,7 @@ const calculateEventDuration = (event: StudyEvent): number => {
 };
 
 export const getUserStats = async (): Promise<UserStats> => {
-  const events = await getActivities(); // Now async
+  const [events, attempts] = await Promise.all([getActivities(), getQuestionAttempts()]);
 
   const now = new Date();
   const todayStr = now.toDateString();
@@ -206,6 +718,42 @@ export const getUserStats = async (): Promise<UserStats> => {
   });
   const quizAccuracy = totalQuizQuestions > 0 ? Math.round((totalQuizCorrect / totalQuizQuestions) * 100) : 0;
 
+  // Accuracy per difficulty / cognitive level, from quizzes that logged a breakdown
+  const sumTallies = (key: keyof QuizBreakdown) => {
+    const totals: Record<string, AccuracyTally> = {};
+    quizCompletions.forEach(q => {
+      Object.entries(q.quiz_breakdown?.[key] || {}).forEach(([label, tally]) => {
+        if (!tally) return;
+        const sum = totals[label] || (totals[label] = { total: 0, correct: 0 });
+        sum.total += tally.total;
+        sum.correct += tally.correct;
+      });
+    });
+    return Object.fromEntries(
+      Object.entries(totals).map(([label, t]) => [label, t.total > 0 ? Math.round((t.correct / t.total) * 100) : 0])
+    );
+  };
+  const quizAccuracyByDifficulty = sumTallies('difficulty');
+  const quizAccuracyByLevel = sumTallies('level');
+
+  // Per-question accuracy (full credit only, like quizAccuracy), across quizzes and exams
+  const tallyAttempts = (keyOf: (a: QuestionAttempt) => string) => {
+    const totals: Record<string, AccuracyTally> = {};
+    attempts.forEach(a => {
+      const tally = totals[keyOf(a)] || (totals[keyOf(a)] = { total: 0, correct: 0 });
+      tally.total++;
+      if (a.status === 'correct') tally.correct++;
+    });
+    return totals;
+  };
+  const accuracyByQuestionType = Object.fromEntries(
+    Object.entries(tallyAttempts(a => a.questionType)).map(([type, t]) => [type, Math.round((t.correct / t.total) * 100)])
+  );
+  const weakestTopics = Object.entries(tallyAttempts(a => a.topic))
+    .map(([topic, t]) => ({ topic, attempted: t.total, accuracy: Math.round((t.correct / t.total) * 100) }))
+    .sort((a, b) => a.accuracy - b.accuracy || b.attempted - a.attempted)
+    .slice(0, 5);
+
   // 4. Exam
   const examCompletions = events.filter(a => a.action_type === 'exam_complete');
   const totalExamsTaken = examCompletions.length;
@@ -302,6 +850,10 @@ export const getUserStats = async (): Promise<UserStats> => {
     totalQuizQuestions,
     totalQuizCorrect,
     totalQuizzesTaken,
+    quizAccuracyByDifficulty,
+    quizAccuracyByLevel,
+    accuracyByQuestionType,
+    weakestTopics,
     totalExamsTaken,
     examAverageAccuracy,
     examAverageScore,
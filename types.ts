@@ -7,7 +7,10 @@ export enum AppView {
   SAVED = 'SAVED',
   PROFILE = 'PROFILE',
   QUICK_REVISION = 'QUICK_REVISION',
-  EXAM_MODE = 'EXAM_MODE'
+  EXAM_MODE = 'EXAM_MODE',
+  REVIEW = 'REVIEW',
+  MISTAKES = 'MISTAKES',
+  QUESTION_BANK = 'QUESTION_BANK'
 }
 
 export enum StudyMode {
@@ -17,26 +20,266 @@ export enum StudyMode {
   FLASHCARDS = 'FLASHCARDS'
 }
 
-export interface QuizItem {
+export type QuizDifficulty = 'easy' | 'medium' | 'hard';
+export type CognitiveLevel = 'recall' | 'application' | 'analysis';
+
+export interface MatchingPair {
+  left: string;
+  right: string;
+}
+
+// Answer fields for the structured question types, shared by quizzes and exams.
+// `correctAnswer` still holds a readable version of the answer for review screens.
+export interface StructuredAnswerFields {
+  correctAnswers?: string[]; // For multi_select: every option that must be picked
+  pairs?: MatchingPair[]; // For matching: the correct pairs
+  sequence?: string[]; // For ordering: items in the correct order
+  numericAnswer?: number; // For numeric
+  tolerance?: number; // For numeric: accepted absolute difference
+  unit?: string; // For numeric, e.g. "m/s"
+}
+
+// Text for typed answers and single choices; a list for multi_select (chosen options),
+// matching (chosen right side per pair, by pair index) and ordering (items in chosen order)
+export type AnswerValue = string | string[];
+
+export interface QuizItem extends StructuredAnswerFields {
   id: number;
-  type: 'mcq' | 'short_answer';
+  type: 'mcq' | 'short_answer' | 'true_false' | 'multi_select' | 'matching' | 'ordering' | 'numeric';
   question: string;
-  options?: string[]; // For MCQ
+  options?: string[]; // For MCQ, true_false and multi_select
   correctAnswer: string;
   explanation?: string;
   keywords?: string[]; // For auto-grading short answers
+  difficulty?: QuizDifficulty; // Missing on quizzes generated before quiz configuration existed
+  level?: CognitiveLevel;
+  verification?: AnswerVerification; // Set when the answer was checked against the source
+}
+
+// Result of checking a question's answer and explanation against the session's notes and files
+export interface AnswerVerification {
+  verdict: 'supported' | 'unsupported' | 'contradicted';
+  confidence: number; // 0-1, how sure the checker is that the answer key is right
+  excerpt?: string; // Passage quoted from the source that supports the answer
+  note?: string; // What looks wrong, for answers that aren't supported
 }
 
-export interface ExamItem {
+// Chosen by the student before a quiz is generated
+export interface QuizConfig {
+  questionCount: number;
+  types: QuizItem['type'][]; // Split as evenly as possible across the count
+  difficulty: QuizDifficulty | 'mixed';
+  level: CognitiveLevel | 'mixed';
+  verify?: boolean; // Check every answer against the source material before the quiz is shown
+}
+
+export interface ExamItem extends StructuredAnswerFields {
   id: number;
-  type: 'mcq' | 'fill_blank' | 'short_answer' | 'long_answer';
+  type: 'mcq' | 'fill_blank' | 'short_answer' | 'long_answer' | 'true_false' | 'multi_select' | 'matching' | 'ordering' | 'numeric';
   question: string;
-  options?: string[]; // For MCQ
+  options?: string[]; // For MCQ, true_false and multi_select
   correctAnswer?: string; // For auto-grading
   modelAnswer?: string; // For long/short answer reference
   explanation?: string; // Why it is correct
   keywords?: string[]; // For grading text answers
   marks: number;
+  section?: string; // Blueprint section id, on papers generated from a blueprint
+  topic?: string; // Title of the session the question was drawn from
+  difficulty?: QuizDifficulty;
+  verification?: AnswerVerification;
+}
+
+// Exam blueprint: the paper's sections, with their question types and marks
+export interface ExamSection {
+  id: string; // "A", "B", ...
+  title: string;
+  instructions: string; // Shown to the student above the section
+  types: ExamItem['type'][];
+  marks: number;
+}
+
+export interface ExamBlueprint {
+  sections: ExamSection[]; // Total marks are the sum of the section marks
+  topicWeights: { [sessionId: string]: number }; // Relative share of marks per session; missing means 1
+  difficulty: QuizDifficulty | 'mixed';
+}
+
+// How an exam is marked. Unattempted questions always score zero.
+export interface MarkingRule {
+  wrongPenalty: number; // Share of a question's marks lost for a wrong mcq, true/false or multi-select answer (0.25 = JEE/NEET style)
+  multiSelect: 'partial' | 'all_or_nothing'; // Partial: wrong picks cancel right ones
+}
+
+export interface MarkingScheme {
+  name: string;
+  rule: MarkingRule;
+  sectionRules?: { [sectionId: string]: MarkingRule }; // Overrides for blueprint sections
+}
+
+// A generated exam, kept so it can be reviewed and retaken
+export interface ExamPaper {
+  id: string;
+  title: string; // Subject, from the sessions it was drawn from
+  sessionIds: string[];
+  totalMarks: number;
+  items: ExamItem[];
+  blueprint?: ExamBlueprint; // Papers generated without one have a single unnamed section
+  createdAt: number; // Timestamp
+}
+
+// One sitting of an exam paper
+export interface ExamAttempt {
+  id: string;
+  paperId: string;
+  activityId?: string; // The exam_complete row in study_activities
+  answers: { [questionId: number]: AnswerValue | undefined };
+  rubrics: { [questionId: number]: RubricFeedback | undefined }; // Model-marked written answers
+  score: number;
+  totalMarks: number;
+  timeLimitMinutes?: number; // Missing for untimed sittings
+  timeUsedSeconds?: number; // Excludes pauses
+  markingScheme?: MarkingScheme; // Missing for attempts marked before schemes existed (standard marking)
+  startedAt: number; // Timestamp
+  completedAt: number;
+}
+
+// An exam being sat, autosaved so a reload, navigation or sign-in change doesn't lose it
+export interface ExamDraft {
+  attemptId: string; // Becomes the ExamAttempt id when submitted
+  userId?: string; // The account signed in when it was saved; missing for guests
+  paper: ExamPaper; // A full copy, so resuming doesn't depend on the paper having been saved
+  answers: { [questionId: number]: AnswerValue | undefined };
+  checkedQuestions: number[]; // Ids of questions already checked one by one
+  answerTimes: { [questionId: number]: number }; // ms spent per question so far
+  aiGrading: boolean;
+  markingScheme: MarkingScheme;
+  timeLimitMinutes?: number; // Missing for untimed sittings
+  remainingMs?: number; // Time left when saved; the clock doesn't run while the exam is closed
+  allowPause: boolean;
+  timeWarnings: boolean;
+  timeUsedMs: number; // Excludes pauses
+  startedAt: number; // Timestamp
+  savedAt: number;
+}
+
+// Flashcards
+export interface Flashcard {
+  id: number;
+  front: string; // Term or question
+  back: string; // Definition or answer
+  tags: string[];
+  source?: string; // Where in the material the card comes from (file, section, page)
+}
+
+// Spaced repetition
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+// Scheduling state for one card (SM-2). Cards are identified by session and front text,
+// so regenerating a deck doesn't hand old schedules to different cards.
+export interface CardSchedule {
+  sessionId: string;
+  cardKey: string;
+  ease: number;
+  intervalDays: number;
+  repetitions: number; // Successful reviews in a row
+  lapses: number;
+  dueAt: number; // Timestamp
+  lastReviewedAt?: number;
+}
+
+// Grading
+export type GradeStatus = 'correct' | 'partial' | 'incorrect' | 'unanswered';
+
+// Model-marked written answer, scored against a rubric derived from the model answer
+export interface RubricCriterion {
+  criterion: string;
+  awarded: number;
+  max: number;
+  feedback: string;
+}
+
+export interface RubricFeedback {
+  score: number; // Out of the question's marks
+  criteria: RubricCriterion[];
+  missing: string[]; // What the answer left out
+  summary?: string;
+}
+
+export interface GradeResult {
+  questionId: number;
+  status: GradeStatus;
+  score: number; // Marks awarded, in half-mark steps; negative when a marking scheme penalises a wrong answer
+  maxScore: number;
+  matchedKeywords: string[];
+  missedKeywords: string[];
+  rubric?: RubricFeedback; // Set when the answer was marked by the model instead of by keywords
+}
+
+export interface GradeSummary {
+  results: GradeResult[];
+  score: number;
+  maxScore: number;
+  correctCount: number; // Full-credit answers only
+  answeredCount: number;
+}
+
+// One graded answer from a quiz or exam, linked to the study_activities row it was logged with
+export interface QuestionAttempt {
+  activityId?: string;
+  sessionId?: string; // Missing for exams drawn from several sessions
+  origin: 'quiz' | 'exam';
+  topic: string; // Session title or exam subject
+  questionId: number;
+  questionText: string;
+  questionType: QuizItem['type'] | ExamItem['type'];
+  answer?: AnswerValue;
+  status: GradeStatus;
+  score: number; // Marks awarded
+  maxScore: number;
+  timeTakenMs?: number; // Time spent answering, when it was tracked
+  timestamp: number;
+}
+
+// Mistake notebook: a question answered wrongly (or skipped) in a quiz or exam. It stays
+// active until it has been answered correctly enough times in a row, then it's retired.
+export interface Mistake {
+  id: string;
+  sessionId?: string; // Missing for exams drawn from several sessions
+  topic: string; // Session title or exam subject
+  origin: 'quiz' | 'exam';
+  questionKey: string; // Question text, normalized; identifies the question within its session/topic
+  question: QuizItem; // Exam questions are stored in quiz form so they can be retried
+  userAnswer?: AnswerValue; // From the latest wrong attempt
+  status: GradeStatus; // Of the latest attempt
+  correctStreak: number;
+  retired: boolean;
+  createdAt: number; // Timestamp
+  lastAttemptAt: number;
+}
+
+// A question kept in a session's question bank, for reuse in later exams
+export interface BankQuestion {
+  id: string;
+  sessionId: string;
+  questionKey: string; // Question text, normalized; identifies the question within its session
+  item: ExamItem; // Quiz questions are stored in exam form
+  origin: 'quiz' | 'exam';
+  flagged: boolean; // Flagged questions are left out of assembled exams
+  timesUsed: number; // Exams it has been picked for
+  createdAt: number; // Timestamp
+  updatedAt: number;
+}
+
+// A student's report that a question or its answer is wrong
+export interface QuestionReport {
+  id: string;
+  sessionId?: string; // Missing for exams drawn from several sessions
+  topic: string; // Session title or exam subject
+  origin: 'quiz' | 'exam';
+  questionKey: string; // Question text, normalized
+  question: QuizItem | ExamItem; // As it was when reported
+  note?: string; // What the student says is wrong
+  createdAt: number; // Timestamp
 }
 
 export interface StudyFile {
@@ -45,6 +288,13 @@ export interface StudyFile {
   name: string;
 }
 
+// A claim in an explanation or summary, traced back to the source it came from
+export interface Citation {
+  source: number | 'notes'; // Index into the session's files, or the copied notes
+  page?: number; // PDF page, 1-based
+  quote: string; // Short passage copied from the source, used to find the span again
+}
+
 export interface ChatMessage {
   id: string;
   role: 'user' | 'model';
@@ -63,7 +313,7 @@ export interface StudySession {
   explanation?: string;
   summary?: string;
   quiz?: string; // Can be Markdown string (legacy) or JSON string (new)
-  flashcards?: string;
+  flashcards?: string; // Markdown "Term: Definition" list (legacy) or JSON Flashcard[] (new)
   revisionGuide?: string; // Markdown content for Quick Revision
   lastRevisionDate?: string; // Timestamp of when revision was generated
   chatHistory?: ChatMessage[]; // Persisted chat messages
@@ -81,7 +331,7 @@ export interface ApiError {
 }
 
 // Analytics Types
-export type ActivityType = 'create_session' | 'explain' | 'summarize' | 'quiz' | 'flashcards' | 'chat' | 'quiz_complete' | 'exam_complete';
+export type ActivityType = 'create_session' | 'explain' | 'summarize' | 'quiz' | 'flashcards' | 'chat' | 'quiz_complete' | 'exam_complete' | 'review';
 
 // Deprecated StudyActivity in favor of StudyEvent
 export interface StudyEvent {
@@ -96,6 +346,20 @@ export interface StudyEvent {
   exam_score?: number;
   exam_total_marks?: number;
   exam_subject?: string;
+  exam_time_seconds?: number; // Time actually spent, for timed and untimed exams
+  quiz_breakdown?: QuizBreakdown;
+  cards_reviewed?: number;
+}
+
+export interface AccuracyTally {
+  total: number;
+  correct: number;
+}
+
+// Per-difficulty and per-level results of one completed quiz
+export interface QuizBreakdown {
+  difficulty: Partial<Record<QuizDifficulty, AccuracyTally>>;
+  level: Partial<Record<CognitiveLevel, AccuracyTally>>;
 }
 
 export interface UserStats {
@@ -116,6 +380,10 @@ export interface UserStats {
   totalQuizQuestions: number;
   totalQuizCorrect: number;
   totalQuizzesTaken: number;
+  quizAccuracyByDifficulty: Partial<Record<QuizDifficulty, number>>; // Percentages
+  quizAccuracyByLevel: Partial<Record<CognitiveLevel, number>>;
+  accuracyByQuestionType: Partial<Record<QuestionAttempt['questionType'], number>>; // Percentages, quizzes and exams
+  weakestTopics: { topic: string; attempted: number; accuracy: number }[]; // Lowest accuracy first
 
   // Exam Analytics
   totalExamsTaken: number;